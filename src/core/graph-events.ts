@@ -0,0 +1,94 @@
+import { ConfidenceVector, GraphEdge, GraphNode, Hyperedge } from '../types/index.js';
+
+// Payload of every graph event; nodes and edges are the live graph objects, not copies
+export interface GraphEventMap {
+  nodeAdded: { node: GraphNode };
+  edgeAdded: { edge: GraphEdge };
+  hyperedgeAdded: { hyperedge: Hyperedge };
+  confidenceUpdated: { nodeId: string; previous: ConfidenceVector; current: ConfidenceVector };
+  nodeMerged: { mergedNodeId: string; sourceNodeIds: [string, string] };
+  nodePruned: { nodeId: string; label: string };
+  ibnCreated: { ibnId: string; sourceNodeId: string; targetNodeId: string; semanticSimilarity: number };
+}
+
+export type GraphEventName = keyof GraphEventMap;
+
+export type GraphEventListener<K extends GraphEventName> = (payload: GraphEventMap[K]) => void;
+
+export const GRAPH_EVENT_NAMES: GraphEventName[] = [
+  'nodeAdded',
+  'edgeAdded',
+  'hyperedgeAdded',
+  'confidenceUpdated',
+  'nodeMerged',
+  'nodePruned',
+  'ibnCreated'
+];
+
+/**
+ * Typed change feed for ASRGoTGraph
+ * While a transaction is open, events are held back; they are delivered once the outermost
+ * level commits and dropped for any level that rolls back, so listeners never see undone writes.
+ */
+export class GraphEventEmitter {
+  private listeners = new Map<GraphEventName, Set<GraphEventListener<any>>>();
+  private pending: Array<{ event: GraphEventName; payload: unknown }> = [];
+  private marks: number[] = [];
+
+  /**
+   * Subscribe to an event; returns a function that unsubscribes
+   */
+  on<K extends GraphEventName>(event: K, listener: GraphEventListener<K>): () => void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends GraphEventName>(event: K, listener: GraphEventListener<K>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  emit<K extends GraphEventName>(event: K, payload: GraphEventMap[K]): void {
+    if (this.marks.length > 0) {
+      this.pending.push({ event, payload });
+    } else {
+      this.dispatch(event, payload);
+    }
+  }
+
+  // Transaction boundaries
+  hold(): void {
+    this.marks.push(this.pending.length);
+  }
+
+  release(): void {
+    this.marks.pop();
+    if (this.marks.length === 0) {
+      const ready = this.pending;
+      this.pending = [];
+      for (const { event, payload } of ready) {
+        this.dispatch(event, payload);
+      }
+    }
+  }
+
+  discard(): void {
+    const mark = this.marks.pop();
+    if (mark !== undefined) {
+      this.pending.length = mark;
+    }
+  }
+
+  private dispatch(event: GraphEventName, payload: unknown): void {
+    for (const listener of this.listeners.get(event) ?? []) {
+      // A failing listener must not break the mutation that triggered it
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Graph event listener for ${event} failed:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import { GraphNode, GraphEdge, Hyperedge, InfoMetrics } from '../types/index.js';
+
+/**
+ * A layer's member list relative to the current one: its first `kept` members followed by `tail`
+ * Appends leave every member in place, so their images stay small.
+ */
+export interface LayerImage {
+  kept: number;
+  tail: string[];
+}
+
+/**
+ * Before-images of everything written during one transaction level
+ * An entry mapped to undefined did not exist before the transaction (restoring it means deleting it).
+ */
+export interface GraphChangeSet {
+  nodes: Map<string, GraphNode | undefined>;
+  edges: Map<string, GraphEdge | undefined>;
+  hyperedges: Map<string, Hyperedge | undefined>;
+  info_metrics: Map<string, InfoMetrics | undefined>;
+  layers: Map<string, LayerImage | undefined>; // layer id -> member node ids
+  layer_parents: Map<string, string | undefined>; // child layer id -> parent layer id
+  order?: { nodes: string[]; edges: string[]; hyperedges: string[] }; // key order, captured on the first removal
+  timestamp: Date;
+}
+
+/**
+ * Copy-on-first-write rollback journal for ASRGoTGraph
+ * Transactions nest: each level records its own before-images, and a committed inner level
+ * hands the entries its parent has not seen yet up to the parent.
+ */
+export class GraphJournal {
+  private levels: GraphChangeSet[] = [];
+
+  isActive(): boolean {
+    return this.levels.length > 0;
+  }
+
+  depth(): number {
+    return this.levels.length;
+  }
+
+  begin(timestamp: Date): void {
+    this.levels.push({
+      nodes: new Map(),
+      edges: new Map(),
+      hyperedges: new Map(),
+      info_metrics: new Map(),
+      layers: new Map(),
+      layer_parents: new Map(),
+      timestamp: new Date(timestamp)
+    });
+  }
+
+  /**
+   * Close the innermost level and return its change set
+   * When nested, the parent absorbs the entries it has not recorded itself.
+   */
+  commit(): GraphChangeSet {
+    const level = this.pop();
+    const parent = this.levels[this.levels.length - 1];
+
+    if (parent) {
+      absorb(parent.nodes, level.nodes);
+      absorb(parent.edges, level.edges);
+      absorb(parent.hyperedges, level.hyperedges);
+      absorb(parent.info_metrics, level.info_metrics);
+      absorb(parent.layers, level.layers);
+      absorb(parent.layer_parents, level.layer_parents);
+      if (!parent.order && level.order) {
+        parent.order = level.order;
+      }
+    }
+
+    return level;
+  }
+
+  /**
+   * Close the innermost level; the caller restores the returned before-images
+   */
+  rollback(): GraphChangeSet {
+    return this.pop();
+  }
+
+  // Record hooks, called by the graph before it writes (no-ops outside a transaction)
+  recordNode(nodeId: string, current: GraphNode | undefined): void {
+    const level = this.current();
+    if (level && !level.nodes.has(nodeId)) {
+      level.nodes.set(nodeId, current && structuredClone(current));
+    }
+  }
+
+  recordEdge(edgeId: string, current: GraphEdge | undefined): void {
+    const level = this.current();
+    if (level && !level.edges.has(edgeId)) {
+      level.edges.set(edgeId, current && structuredClone(current));
+    }
+  }
+
+  recordHyperedge(hyperedgeId: string, current: Hyperedge | undefined): void {
+    const level = this.current();
+    if (level && !level.hyperedges.has(hyperedgeId)) {
+      level.hyperedges.set(hyperedgeId, current && structuredClone(current));
+    }
+  }
+
+  recordInfoMetrics(nodeId: string, current: InfoMetrics | undefined): void {
+    const level = this.current();
+    if (level && !level.info_metrics.has(nodeId)) {
+      level.info_metrics.set(nodeId, current && structuredClone(current));
+    }
+  }
+
+  /**
+   * Record a layer's members before a write that leaves the first `unchanged` of them in place
+   * Images already taken, here or in enclosing levels, copy the members the write is about to change.
+   */
+  recordLayer(layerId: string, current: string[] | undefined, unchanged = 0): void {
+    const level = this.current();
+    if (!level) return;
+
+    if (!level.layers.has(layerId)) {
+      level.layers.set(layerId, current && { kept: current.length, tail: [] });
+    }
+    if (!current) return;
+    for (const each of this.levels) {
+      const image = each.layers.get(layerId);
+      if (image && image.kept > unchanged) {
+        each.layers.set(layerId, { kept: unchanged, tail: [...current.slice(unchanged, image.kept), ...image.tail] });
+      }
+    }
+  }
+
+  recordLayerParent(layerId: string, current: string | undefined): void {
+    const level = this.current();
+    if (level && !level.layer_parents.has(layerId)) {
+      level.layer_parents.set(layerId, current);
+    }
+  }
+
+  // Removing and re-adding an entry moves it to the end of its map, so removals remember the original order
+  recordOrder(nodeIds: Iterable<string>, edgeIds: Iterable<string>, hyperedgeIds: Iterable<string>): void {
+    const level = this.current();
+    if (level && !level.order) {
+      level.order = { nodes: Array.from(nodeIds), edges: Array.from(edgeIds), hyperedges: Array.from(hyperedgeIds) };
+    }
+  }
+
+  private current(): GraphChangeSet | undefined {
+    return this.levels[this.levels.length - 1];
+  }
+
+  private pop(): GraphChangeSet {
+    const level = this.levels.pop();
+    if (!level) {
+      throw new Error('No active graph transaction');
+    }
+    return level;
+  }
+}
+
+// Helper functions
+function absorb<T>(parent: Map<string, T>, child: Map<string, T>): void {
+  for (const [key, value] of child) {
+    if (!parent.has(key)) {
+      parent.set(key, value);
+    }
+  }
+}
@@ -6,18 +6,53 @@ import {
   Hyperedge,
   NodeMetadata, 
   EdgeMetadata,
+  NodeMetadataSchema,
+  EdgeMetadataSchema,
   NodeType,
   EdgeType,
   ConfidenceVector,
-  TopologyMetrics
+  TopologyMetrics,
+  SerializedGraph,
+  GraphPath,
+  PathDirection,
+  GraphOperationType,
+  ChangeLogEntry,
+  SubgraphCriteria,
+  ComputationalBudget
 } from '../types/index.js';
 import { BayesianUpdater } from '../utils/bayesian.js';
 import { InformationTheory } from '../utils/information-theory.js';
+import { CentralityAnalyzer, WeightedGraphView } from '../utils/centrality-analyzer.js';
+import { CommunityDetector } from '../utils/community-detector.js';
+import { PathFinder, PathExpander } from '../utils/path-finder.js';
+import { serializeGraphState, deserializeGraphState } from '../persistence/graph-serializer.js';
+import { GraphJournal, GraphChangeSet, LayerImage } from './graph-journal.js';
+import { OperationLog } from './operation-log.js';
+import { GraphEventEmitter, GraphEventListener, GraphEventName } from './graph-events.js';
+import { EdgeGrammar } from '../validation/edge-grammar.js';
+
+// Fields updateNodeMetadata leaves alone: identity, the audit trail and super-node structure (see createSuperNode)
+const FIXED_NODE_FIELDS: Array<keyof NodeMetadata> = ['node_id', 'revision_history', 'encapsulated_layer', 'collapsed'];
 
 export class ASRGoTGraph {
   private state: ASRGoTGraphState;
   private bayesianUpdater: BayesianUpdater;
   private infoTheory: InformationTheory;
+  private centralityAnalyzer: CentralityAnalyzer;
+  private communityDetector: CommunityDetector;
+  private pathFinder: PathFinder;
+  // Adjacency index: node id -> ids of its outgoing / incoming edges
+  private outgoing: Map<string, Set<string>>;
+  private incoming: Map<string, Set<string>>;
+  // Hyperedge index: node id -> ids of the hyperedges it belongs to
+  private memberships: Map<string, Set<string>>;
+  private journal: GraphJournal;
+  private events: GraphEventEmitter;
+  private operationLog: OperationLog;
+  private operationDepth = 0;
+  private edgeGrammar: EdgeGrammar;
+  private generateId: () => string = uuidv4;
+  private budget?: Pick<ComputationalBudget, 'max_nodes' | 'max_edges'>;
 
   constructor() {
     this.state = {
@@ -26,6 +61,7 @@ export class ASRGoTGraph {
       edges: new Map(),
       hyperedges: new Map(),
       layers: new Map(),
+      layer_parents: new Map(),
       node_types: new Map(),
       confidence_function: new Map(),
       metadata_function: new Map(),
@@ -33,59 +69,498 @@ export class ASRGoTGraph {
     };
     this.bayesianUpdater = new BayesianUpdater();
     this.infoTheory = new InformationTheory();
+    this.centralityAnalyzer = new CentralityAnalyzer();
+    this.communityDetector = new CommunityDetector();
+    this.pathFinder = new PathFinder();
+    this.outgoing = new Map();
+    this.incoming = new Map();
+    this.memberships = new Map();
+    this.journal = new GraphJournal();
+    this.events = new GraphEventEmitter();
+    this.operationLog = new OperationLog();
+    this.edgeGrammar = new EdgeGrammar();
+  }
+
+  /**
+   * Rebuild a graph around a previously captured state (e.g. one reloaded from a context store)
+   */
+  static fromState(state: ASRGoTGraphState): ASRGoTGraph {
+    const graph = new ASRGoTGraph();
+    graph.state = { ...state };
+    // A JSON round-trip leaves the lookup maps holding copies; point them back at each node's own metadata
+    for (const [nodeId, node] of graph.state.vertices) {
+      graph.state.node_types.set(nodeId, node.metadata.type);
+      graph.state.confidence_function.set(nodeId, node.metadata.confidence);
+      graph.state.metadata_function.set(nodeId, node.metadata);
+    }
+    graph.rebuildAdjacency();
+    return graph;
+  }
+
+  /**
+   * Serialize to the versioned asr-got-graph envelope (lossless, diff-friendly JSON)
+   */
+  toJSON(): SerializedGraph {
+    return serializeGraphState(this.state);
+  }
+
+  /**
+   * Restore a graph from an envelope or its JSON text
+   * Every node and edge is validated against its metadata schema
+   */
+  static fromJSON(input: SerializedGraph | string): ASRGoTGraph {
+    return ASRGoTGraph.fromState(deserializeGraphState(input));
+  }
+
+  // Transactions
+  /**
+   * Run fn atomically: if it throws (or its promise rejects) every graph write it made is undone
+   * Transactions nest; an inner rollback only undoes the inner writes.
+   * Writes made directly to node or edge objects, bypassing the graph API, are not journaled.
+   */
+  transaction<T>(fn: () => T): T {
+    this.beginTransaction();
+
+    let result: T;
+    try {
+      result = fn();
+    } catch (error) {
+      this.rollbackTransaction();
+      throw error;
+    }
+
+    // Async work: settle the transaction when the promise does
+    if (result instanceof Promise) {
+      return result.then(
+        value => {
+          this.commitTransaction();
+          return value;
+        },
+        error => {
+          this.rollbackTransaction();
+          throw error;
+        }
+      ) as T;
+    }
+
+    this.commitTransaction();
+    return result;
+  }
+
+  // Events
+  /**
+   * Subscribe to graph changes; returns a function that unsubscribes
+   * Events fire after the change is committed, and not at all for rolled-back, undone or redone changes.
+   */
+  on<K extends GraphEventName>(event: K, listener: GraphEventListener<K>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  off<K extends GraphEventName>(event: K, listener: GraphEventListener<K>): void {
+    this.events.off(event, listener);
+  }
+
+  // Explicit form of transaction(), for callers that cannot wrap their work in one function
+  beginTransaction(): void {
+    this.journal.begin(this.state.timestamp);
+    this.operationLog.mark();
+    this.events.hold();
+  }
+
+  commitTransaction(): void {
+    this.journal.commit();
+    this.operationLog.unmark();
+    this.events.release();
+  }
+
+  rollbackTransaction(): void {
+    this.restoreChangeSet(this.journal.rollback());
+    this.operationLog.rewind();
+    this.events.discard();
+  }
+
+  inTransaction(): boolean {
+    return this.journal.isActive();
+  }
+
+  // Operation Log
+  /**
+   * Applied operations, most recent first
+   * The log lives in memory only; it is not part of the serialized graph.
+   */
+  getChangeLog(limit?: number): ChangeLogEntry[] {
+    return this.operationLog.entries(limit);
+  }
+
+  // Operations that were undone and can still be redone, most recently undone first
+  getUndoneChanges(): ChangeLogEntry[] {
+    return this.operationLog.undoneEntries();
+  }
+
+  /**
+   * Revert the most recent logged operation; returns it, or null when there is nothing to undo
+   * Node and edge images are restored wholesale, so unlogged writes made since (topology metrics,
+   * community tags) to the entries it touched are reverted with it.
+   */
+  undo(): ChangeLogEntry | null {
+    this.assertNoTransaction('undo');
+
+    const entry = this.operationLog.peekUndo();
+    if (!entry) return null;
+
+    this.restoreChangeSet(structuredClone(entry.before));
+    return this.operationLog.markUndone();
+  }
+
+  redo(): ChangeLogEntry | null {
+    this.assertNoTransaction('redo');
+
+    const entry = this.operationLog.peekRedo();
+    if (!entry) return null;
+
+    this.restoreChangeSet(structuredClone(entry.after));
+    return this.operationLog.markRedone();
+  }
+
+  /**
+   * Reconstruct the graph as it was at a moment, by reverting every logged operation made after it
+   * Before getHistoryStart() the log is incomplete: nodes and edges are then dropped by their creation
+   * timestamp, and the confidences of older entries are today's. Undone operations count as never applied.
+   */
+  asOf(timestamp: Date): ASRGoTGraph {
+    const past = ASRGoTGraph.fromState(structuredClone(this.state));
+
+    for (const entry of this.operationLog.appliedAfter(timestamp)) {
+      past.restoreChangeSet(structuredClone(entry.before));
+    }
+
+    if (timestamp < this.operationLog.getHistoryStart()) {
+      past.dropEntriesCreatedAfter(timestamp);
+    }
+    return past;
+  }
+
+  // Earliest moment asOf() reconstructs exactly
+  getHistoryStart(): Date {
+    return this.operationLog.getHistoryStart();
+  }
+
+  /**
+   * Replace the whole graph with a previously captured state (e.g. a stage checkpoint) as one undoable operation
+   * The state maps are refilled in place, so contexts holding them through getState() see the restored graph.
+   */
+  restoreState(state: ASRGoTGraphState, description = 'Restored a saved graph state'): void {
+    this.logOperation('restore_state', () => {
+      const target = structuredClone(state);
+      const changes: GraphChangeSet = {
+        nodes: new Map(),
+        edges: new Map(),
+        hyperedges: new Map(),
+        info_metrics: new Map(),
+        layers: new Map(),
+        layer_parents: new Map(),
+        order: {
+          nodes: Array.from(target.vertices.keys()),
+          edges: Array.from(target.edges.keys()),
+          hyperedges: Array.from(target.hyperedges.keys())
+        },
+        timestamp: target.timestamp
+      };
+
+      this.journal.recordOrder(this.state.vertices.keys(), this.state.edges.keys(), this.state.hyperedges.keys());
+      for (const layerId of new Set([...this.state.layers.keys(), ...target.layers.keys()])) {
+        this.journal.recordLayer(layerId, this.state.layers.get(layerId));
+        const nodeIds = target.layers.get(layerId);
+        changes.layers.set(layerId, nodeIds && { kept: 0, tail: nodeIds });
+      }
+      const targetParents = target.layer_parents ?? new Map<string, string>();
+      for (const layerId of new Set([...this.state.layer_parents.keys(), ...targetParents.keys()])) {
+        this.journal.recordLayerParent(layerId, this.state.layer_parents.get(layerId));
+        changes.layer_parents.set(layerId, targetParents.get(layerId));
+      }
+      for (const nodeId of new Set([...this.state.vertices.keys(), ...target.vertices.keys()])) {
+        this.journal.recordNode(nodeId, this.state.vertices.get(nodeId));
+        changes.nodes.set(nodeId, target.vertices.get(nodeId));
+      }
+      for (const edgeId of new Set([...this.state.edges.keys(), ...target.edges.keys()])) {
+        this.journal.recordEdge(edgeId, this.state.edges.get(edgeId));
+        changes.edges.set(edgeId, target.edges.get(edgeId));
+      }
+      for (const hyperedgeId of new Set([...this.state.hyperedges.keys(), ...target.hyperedges.keys()])) {
+        this.journal.recordHyperedge(hyperedgeId, this.state.hyperedges.get(hyperedgeId));
+        changes.hyperedges.set(hyperedgeId, target.hyperedges.get(hyperedgeId));
+      }
+      for (const nodeId of new Set([...this.state.info_metrics.keys(), ...target.info_metrics.keys()])) {
+        this.journal.recordInfoMetrics(nodeId, this.state.info_metrics.get(nodeId));
+        changes.info_metrics.set(nodeId, target.info_metrics.get(nodeId));
+      }
+
+      this.restoreChangeSet(changes);
+    }, () => description);
+  }
+
+  private dropEntriesCreatedAfter(timestamp: Date): void {
+    for (const node of Array.from(this.state.vertices.values())) {
+      if (node.metadata.timestamp > timestamp) {
+        this.removeNode(node.id);
+      }
+    }
+    for (const edge of Array.from(this.state.edges.values())) {
+      if (edge.metadata.timestamp > timestamp) {
+        this.unindexEdge(edge);
+        this.state.edges.delete(edge.id);
+      }
+    }
+    for (const hyperedge of Array.from(this.state.hyperedges.values())) {
+      if (hyperedge.metadata.timestamp > timestamp) {
+        this.unindexHyperedge(hyperedge);
+        this.state.hyperedges.delete(hyperedge.id);
+      }
+    }
+  }
+
+  /**
+   * Run one logged operation: it is atomic, and its before- and after-images go into the operation log
+   * Operations nested inside another (the addNode calls inside mergeNodes) belong to the outer entry.
+   */
+  private logOperation<T>(operation: GraphOperationType, fn: () => T, describe: (result: T) => string): T {
+    if (this.operationDepth > 0) return fn();
+
+    this.operationDepth++;
+    this.journal.begin(this.state.timestamp);
+    this.events.hold();
+
+    const nodesBefore = this.state.vertices.size;
+    const edgesBefore = this.state.edges.size;
+    let result: T;
+    try {
+      result = fn();
+      // Checked on the net effect: a merge adds its node before removing the two it replaces
+      this.checkBudget(nodesBefore, edgesBefore);
+    } catch (error) {
+      this.restoreChangeSet(this.journal.rollback());
+      this.events.discard();
+      throw error;
+    } finally {
+      this.operationDepth--;
+    }
+
+    const before = this.journal.commit();
+    if (before.nodes.size > 0 || before.edges.size > 0 || before.hyperedges.size > 0 ||
+        before.layers.size > 0 || before.layer_parents.size > 0) {
+      this.operationLog.record(operation, describe(result), before, this.captureAfterImages(before));
+    }
+    this.events.release();
+    return result;
+  }
+
+  // Operations may shrink a graph that is already over budget, but not grow it
+  private checkBudget(nodesBefore: number, edgesBefore: number): void {
+    if (!this.budget) return;
+
+    const nodes = this.state.vertices.size;
+    const edges = this.state.edges.size;
+    if (nodes > this.budget.max_nodes && nodes > nodesBefore) {
+      throw new Error(`Node budget exceeded: ${nodes} nodes, max_nodes is ${this.budget.max_nodes}`);
+    }
+    if (edges > this.budget.max_edges && edges > edgesBefore) {
+      throw new Error(`Edge budget exceeded: ${edges} edges, max_edges is ${this.budget.max_edges}`);
+    }
+  }
+
+  // Current values of every entry a change set covers, so the change can be replayed
+  private captureAfterImages(before: GraphChangeSet): GraphChangeSet {
+    const after: GraphChangeSet = {
+      nodes: new Map(),
+      edges: new Map(),
+      hyperedges: new Map(),
+      info_metrics: new Map(),
+      layers: new Map(),
+      layer_parents: new Map(),
+      timestamp: new Date(this.state.timestamp)
+    };
+
+    for (const nodeId of before.nodes.keys()) {
+      after.nodes.set(nodeId, structuredClone(this.state.vertices.get(nodeId)));
+    }
+    for (const edgeId of before.edges.keys()) {
+      after.edges.set(edgeId, structuredClone(this.state.edges.get(edgeId)));
+    }
+    for (const hyperedgeId of before.hyperedges.keys()) {
+      after.hyperedges.set(hyperedgeId, structuredClone(this.state.hyperedges.get(hyperedgeId)));
+    }
+    for (const nodeId of before.info_metrics.keys()) {
+      after.info_metrics.set(nodeId, structuredClone(this.state.info_metrics.get(nodeId)));
+    }
+    for (const [layerId, image] of before.layers) {
+      // Members an operation left in place are the same before and after it
+      const kept = image?.kept ?? 0;
+      const nodeIds = this.state.layers.get(layerId);
+      after.layers.set(layerId, nodeIds && { kept, tail: nodeIds.slice(kept) });
+    }
+    for (const layerId of before.layer_parents.keys()) {
+      after.layer_parents.set(layerId, this.state.layer_parents.get(layerId));
+    }
+    if (before.order) {
+      after.order = {
+        nodes: Array.from(this.state.vertices.keys()),
+        edges: Array.from(this.state.edges.keys()),
+        hyperedges: Array.from(this.state.hyperedges.keys())
+      };
+    }
+
+    return after;
+  }
+
+  private assertNoTransaction(action: string): void {
+    if (this.journal.isActive()) {
+      throw new Error(`Cannot ${action} while a graph transaction is open`);
+    }
+  }
+
+  // Put every journaled entry back to its before-image, keeping derived maps and the adjacency index in sync
+  // Surviving node and edge objects are restored in place, so references callers hold stay valid.
+  private restoreChangeSet(changes: GraphChangeSet): void {
+    for (const [edgeId, before] of changes.edges) {
+      const current = this.state.edges.get(edgeId);
+      if (current) {
+        this.unindexEdge(current);
+      }
+      if (before) {
+        const restored = current ? Object.assign(current, before) : before;
+        this.state.edges.set(edgeId, restored);
+        this.indexEdge(restored);
+      } else {
+        this.state.edges.delete(edgeId);
+      }
+    }
+
+    for (const [nodeId, before] of changes.nodes) {
+      if (before) {
+        const current = this.state.vertices.get(nodeId);
+        this.state.vertices.set(nodeId, current ? Object.assign(current, before) : before);
+        this.state.node_types.set(nodeId, before.metadata.type);
+        this.state.confidence_function.set(nodeId, before.metadata.confidence);
+        this.state.metadata_function.set(nodeId, before.metadata);
+      } else {
+        this.state.vertices.delete(nodeId);
+        this.state.node_types.delete(nodeId);
+        this.state.confidence_function.delete(nodeId);
+        this.state.metadata_function.delete(nodeId);
+        this.outgoing.delete(nodeId);
+        this.incoming.delete(nodeId);
+      }
+    }
+
+    for (const [hyperedgeId, before] of changes.hyperedges) {
+      const current = this.state.hyperedges.get(hyperedgeId);
+      if (current) {
+        this.unindexHyperedge(current);
+      }
+      if (before) {
+        this.state.hyperedges.set(hyperedgeId, before);
+        this.indexHyperedge(before);
+      } else {
+        this.state.hyperedges.delete(hyperedgeId);
+      }
+    }
+
+    for (const [nodeId, before] of changes.info_metrics) {
+      if (before) {
+        this.state.info_metrics.set(nodeId, before);
+      } else {
+        this.state.info_metrics.delete(nodeId);
+      }
+    }
+
+    // Maps are restored in place: contexts hold references to them through getState()
+    for (const [layerId, image] of changes.layers) {
+      if (image) {
+        this.state.layers.set(layerId, applyLayerImage(this.state.layers.get(layerId) ?? [], image));
+      } else {
+        this.state.layers.delete(layerId);
+      }
+    }
+    for (const [layerId, parentLayerId] of changes.layer_parents) {
+      if (parentLayerId) {
+        this.state.layer_parents.set(layerId, parentLayerId);
+      } else {
+        this.state.layer_parents.delete(layerId);
+      }
+    }
+
+    if (changes.order) {
+      const { nodes, edges, hyperedges } = changes.order;
+      reorder(this.state.vertices, nodes);
+      reorder(this.state.node_types, nodes);
+      reorder(this.state.confidence_function, nodes);
+      reorder(this.state.metadata_function, nodes);
+      reorder(this.state.info_metrics, nodes);
+      reorder(this.state.edges, edges);
+      reorder(this.state.hyperedges, hyperedges);
+      this.rebuildAdjacency();
+    }
+
+    this.state.timestamp = changes.timestamp;
   }
 
   // Node Management
   addNode(metadata: NodeMetadata): string {
     try {
-      // Validate metadata
-      if (!metadata || !metadata.node_id) {
-        throw new Error('Invalid metadata: node_id is required');
-      }
-
-      // Check for duplicate IDs
-      if (this.state.vertices.has(metadata.node_id)) {
-        console.warn(`Node ${metadata.node_id} already exists, generating new ID`);
-        metadata.node_id = uuidv4();
-      }
-
-      const node: GraphNode = {
-        id: metadata.node_id,
-        metadata: {
-          ...metadata,
-          // Ensure required fields have defaults
-          confidence: metadata.confidence || {
-            empirical_support: 0.5,
-            theoretical_basis: 0.5,
-            methodological_rigor: 0.5,
-            consensus_alignment: 0.5
-          },
-          disciplinary_tags: metadata.disciplinary_tags || ['general'],
-          bias_flags: metadata.bias_flags || [],
-          revision_history: metadata.revision_history || [{
-            timestamp: new Date(),
-            change: 'Node created',
-            author: 'ASR-GoT System'
-          }],
-          impact_score: metadata.impact_score || 0.5
+      return this.logOperation('add_node', () => {
+        // Validate metadata
+        if (!metadata || !metadata.node_id) {
+          throw new Error('Invalid metadata: node_id is required');
         }
-      };
 
-      this.state.vertices.set(node.id, node);
-      this.state.node_types.set(node.id, metadata.type);
-      this.state.confidence_function.set(node.id, node.metadata.confidence);
-      this.state.metadata_function.set(node.id, node.metadata);
+        // Check for duplicate IDs
+        if (this.state.vertices.has(metadata.node_id)) {
+          console.warn(`Node ${metadata.node_id} already exists, generating new ID`);
+          metadata.node_id = this.generateId();
+        }
 
-      // Handle layer assignment (P1.23)
-      if (metadata.layer_id) {
-        if (!this.state.layers.has(metadata.layer_id)) {
-          this.state.layers.set(metadata.layer_id, []);
+        const node: GraphNode = {
+          id: metadata.node_id,
+          metadata: {
+            ...metadata,
+            // Ensure required fields have defaults
+            confidence: metadata.confidence || {
+              empirical_support: 0.5,
+              theoretical_basis: 0.5,
+              methodological_rigor: 0.5,
+              consensus_alignment: 0.5
+            },
+            disciplinary_tags: metadata.disciplinary_tags || ['general'],
+            bias_flags: metadata.bias_flags || [],
+            revision_history: metadata.revision_history || [{
+              timestamp: new Date(),
+              change: 'Node created',
+              author: 'ASR-GoT System'
+            }],
+            impact_score: metadata.impact_score || 0.5
+          }
+        };
+
+        this.journal.recordNode(node.id, undefined);
+        this.state.vertices.set(node.id, node);
+        this.state.node_types.set(node.id, metadata.type);
+        this.state.confidence_function.set(node.id, node.metadata.confidence);
+        this.state.metadata_function.set(node.id, node.metadata);
+
+        // Handle layer assignment (P1.23)
+        if (metadata.layer_id) {
+          const members = this.state.layers.get(metadata.layer_id);
+          this.journal.recordLayer(metadata.layer_id, members, members?.length);
+          if (!this.state.layers.has(metadata.layer_id)) {
+            this.state.layers.set(metadata.layer_id, []);
+          }
+          this.state.layers.get(metadata.layer_id)!.push(node.id);
         }
-        this.state.layers.get(metadata.layer_id)!.push(node.id);
-      }
 
-      this.updateTimestamp();
-      return node.id;
+        this.updateTimestamp();
+        this.events.emit('nodeAdded', { node });
+        return node.id;
+      }, nodeId => `Added ${metadata.type} node ${nodeId}`);
     } catch (error) {
       console.error('Failed to add node:', error);
       throw new Error(`Node creation failed: ${(error as Error).message}`);
@@ -98,76 +573,155 @@ export class ASRGoTGraph {
 
   updateNodeConfidence(nodeId: string, newConfidence: ConfidenceVector, evidence?: any): boolean {
     try {
-      const node = this.state.vertices.get(nodeId);
-      if (!node) return false;
-
-      // Apply Bayesian update (P1.14)
-      const updatedConfidence = this.bayesianUpdater.updateConfidence(
-        node.metadata.confidence,
-        newConfidence,
-        evidence
-      );
-
-      node.metadata.confidence = updatedConfidence;
-      this.state.confidence_function.set(nodeId, updatedConfidence);
+      return this.logOperation('update_confidence', () => {
+        const node = this.state.vertices.get(nodeId);
+        if (!node) return false;
+
+        this.journal.recordNode(nodeId, node);
+        const previous = node.metadata.confidence;
+
+        // Apply Bayesian update (P1.14)
+        const updatedConfidence = this.bayesianUpdater.updateConfidence(
+          node.metadata.confidence,
+          newConfidence,
+          evidence
+        );
+
+        node.metadata.confidence = updatedConfidence;
+        this.state.confidence_function.set(nodeId, updatedConfidence);
       
-      // Update revision history
-      node.metadata.revision_history.push({
-        timestamp: new Date(),
-        change: `Confidence updated via Bayesian inference`,
-        author: 'ASR-GoT System'
-      });
+        // Update revision history
+        node.metadata.revision_history.push({
+          timestamp: new Date(),
+          change: `Confidence updated via Bayesian inference`,
+          author: 'ASR-GoT System'
+        });
 
-      this.updateTimestamp();
-      return true;
+        this.updateTimestamp();
+        this.events.emit('confidenceUpdated', { nodeId, previous, current: updatedConfidence });
+        return true;
+      }, () => `Updated confidence of node ${nodeId}`);
     } catch (error) {
       console.error(`Failed to update confidence for node ${nodeId}:`, error);
       return false;
     }
   }
 
+  /**
+   * Overwrite metadata fields of a node after validating the result against the node schema
+   * Confidence is set as given, without a Bayesian update. Changing layer_id moves the node between layers.
+   */
+  updateNodeMetadata(nodeId: string, changes: Partial<NodeMetadata>, author = 'ASR-GoT System'): GraphNode {
+    const fields = Object.keys(changes) as Array<keyof NodeMetadata>;
+
+    try {
+      return this.logOperation('update_node', () => {
+        const node = this.state.vertices.get(nodeId);
+        if (!node) {
+          throw new Error(`Node ${nodeId} does not exist`);
+        }
+        if (fields.length === 0) {
+          throw new Error('No metadata changes given');
+        }
+
+        const fixed = fields.filter(field => FIXED_NODE_FIELDS.includes(field));
+        if (fixed.length > 0) {
+          throw new Error(`${fixed.join(', ')} cannot be changed`);
+        }
+        if (node.metadata.type === NodeType.SUPER_NODE && fields.some(field => field === 'type' || field === 'layer_id')) {
+          throw new Error('A super-node keeps its type and sits in the parent of its layer (see setLayerParent)');
+        }
+
+        const updated = { ...node.metadata, ...changes };
+        const parsed = NodeMetadataSchema.safeParse(updated);
+        if (!parsed.success) {
+          throw new Error(`Invalid metadata: ${parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`);
+        }
+        if (updated.type !== node.metadata.type) {
+          this.checkIncidentEdgeGrammar(nodeId, updated.type);
+        }
+
+        const previous = node.metadata.confidence;
+        this.journal.recordNode(nodeId, node);
+        if (updated.layer_id !== node.metadata.layer_id) {
+          this.moveToLayer(nodeId, updated.layer_id);
+        }
+        Object.assign(node.metadata, changes);
+
+        this.state.node_types.set(nodeId, node.metadata.type);
+        this.state.confidence_function.set(nodeId, node.metadata.confidence);
+        this.addRevision(nodeId, `Updated ${fields.join(', ')}`, author);
+
+        this.updateTimestamp();
+        if (fields.includes('confidence')) {
+          this.events.emit('confidenceUpdated', { nodeId, previous, current: node.metadata.confidence });
+        }
+        return node;
+      }, () => `Updated ${fields.join(', ')} of node ${nodeId}`);
+    } catch (error) {
+      throw new Error(`Node update failed: ${(error as Error).message}`);
+    }
+  }
+
   // Edge Management
   addEdge(sourceId: string, targetId: string, metadata: EdgeMetadata): string {
     try {
-      // Validate edge parameters
-      if (!sourceId || !targetId || !metadata || !metadata.edge_id) {
-        throw new Error('Invalid edge parameters: sourceId, targetId, and metadata.edge_id are required');
-      }
+      return this.logOperation('add_edge', () => {
+        // Validate edge parameters
+        if (!sourceId || !targetId || !metadata || !metadata.edge_id) {
+          throw new Error('Invalid edge parameters: sourceId, targetId, and metadata.edge_id are required');
+        }
 
-      // Check if source and target nodes exist
-      if (!this.state.vertices.has(sourceId)) {
-        throw new Error(`Source node ${sourceId} does not exist`);
-      }
-      if (!this.state.vertices.has(targetId)) {
-        throw new Error(`Target node ${targetId} does not exist`);
-      }
+        // Check if source and target nodes exist
+        if (!this.state.vertices.has(sourceId)) {
+          throw new Error(`Source node ${sourceId} does not exist`);
+        }
+        if (!this.state.vertices.has(targetId)) {
+          throw new Error(`Target node ${targetId} does not exist`);
+        }
 
-      // Check for duplicate edge IDs
-      if (this.state.edges.has(metadata.edge_id)) {
-        console.warn(`Edge ${metadata.edge_id} already exists, generating new ID`);
-        metadata.edge_id = uuidv4();
-      }
+        // Enforce the edge grammar in strict mode
+        if (this.edgeGrammar.strict) {
+          const violation = this.edgeGrammar.check(
+            this.state.node_types.get(sourceId)!,
+            this.state.node_types.get(targetId)!,
+            metadata.edge_type
+          );
+          if (violation) {
+            throw new Error(violation);
+          }
+        }
 
-      const edge: GraphEdge = {
-        id: metadata.edge_id,
-        source: sourceId,
-        target: targetId,
-        metadata: {
-          ...metadata,
-          // Ensure confidence has defaults
-          confidence: metadata.confidence || {
-            empirical_support: 0.5,
-            theoretical_basis: 0.5,
-            methodological_rigor: 0.5,
-            consensus_alignment: 0.5
-          },
-          timestamp: metadata.timestamp || new Date()
+        // Check for duplicate edge IDs
+        if (this.state.edges.has(metadata.edge_id)) {
+          console.warn(`Edge ${metadata.edge_id} already exists, generating new ID`);
+          metadata.edge_id = this.generateId();
         }
-      };
 
-      this.state.edges.set(edge.id, edge);
-      this.updateTimestamp();
-      return edge.id;
+        const edge: GraphEdge = {
+          id: metadata.edge_id,
+          source: sourceId,
+          target: targetId,
+          metadata: {
+            ...metadata,
+            // Ensure confidence has defaults
+            confidence: metadata.confidence || {
+              empirical_support: 0.5,
+              theoretical_basis: 0.5,
+              methodological_rigor: 0.5,
+              consensus_alignment: 0.5
+            },
+            timestamp: metadata.timestamp || new Date()
+          }
+        };
+
+        this.journal.recordEdge(edge.id, undefined);
+        this.state.edges.set(edge.id, edge);
+        this.indexEdge(edge);
+        this.updateTimestamp();
+        this.events.emit('edgeAdded', { edge });
+        return edge.id;
+      }, edgeId => `Added ${metadata.edge_type} edge ${edgeId} (${sourceId} -> ${targetId})`);
     } catch (error) {
       console.error('Failed to add edge:', error);
       throw new Error(`Edge creation failed: ${(error as Error).message}`);
@@ -178,71 +732,572 @@ export class ASRGoTGraph {
     return this.state.edges.get(edgeId);
   }
 
+  /**
+   * Replace the rules new edges are checked against; only a strict grammar makes addEdge reject violations
+   * Existing edges are not re-checked (see ASRGoTValidator.validateGraphState)
+   */
+  setEdgeGrammar(grammar: EdgeGrammar): void {
+    this.edgeGrammar = grammar;
+  }
+
+  getEdgeGrammar(): EdgeGrammar {
+    return this.edgeGrammar;
+  }
+
+  /**
+   * Cap the number of nodes and edges (P1.21); operations that would take the graph past a cap are rolled back
+   * and throw. Called without a budget, the graph is unbounded again.
+   */
+  setBudget(budget?: Pick<ComputationalBudget, 'max_nodes' | 'max_edges'>): void {
+    this.budget = budget ? { max_nodes: budget.max_nodes, max_edges: budget.max_edges } : undefined;
+  }
+
+  /**
+   * How many more nodes and edges the budget allows (Infinity without a budget)
+   */
+  getRemainingBudget(): { nodes: number; edges: number } {
+    if (!this.budget) {
+      return { nodes: Infinity, edges: Infinity };
+    }
+    return {
+      nodes: Math.max(0, this.budget.max_nodes - this.state.vertices.size),
+      edges: Math.max(0, this.budget.max_edges - this.state.edges.size)
+    };
+  }
+
+  /**
+   * Source of the ids generated for new nodes, edges and layers; called without one, restores random v4 UUIDs
+   */
+  setIdGenerator(generator: () => string = uuidv4): void {
+    this.generateId = generator;
+  }
+
+  /**
+   * Overwrite metadata fields of an edge (including its type) after validating the result against the edge schema
+   * A strict edge grammar must allow the new type. The change is noted in the revision history of both endpoints.
+   */
+  updateEdge(edgeId: string, changes: Partial<EdgeMetadata>, author = 'ASR-GoT System'): GraphEdge {
+    const fields = Object.keys(changes) as Array<keyof EdgeMetadata>;
+
+    try {
+      return this.logOperation('update_edge', () => {
+        const edge = this.state.edges.get(edgeId);
+        if (!edge) {
+          throw new Error(`Edge ${edgeId} does not exist`);
+        }
+        if (fields.length === 0) {
+          throw new Error('No metadata changes given');
+        }
+        if (fields.includes('edge_id')) {
+          throw new Error('edge_id cannot be changed');
+        }
+
+        const updated = { ...edge.metadata, ...changes };
+        const parsed = EdgeMetadataSchema.safeParse(updated);
+        if (!parsed.success) {
+          throw new Error(`Invalid metadata: ${parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`);
+        }
+
+        const previousType = edge.metadata.edge_type;
+        if (updated.edge_type !== previousType && this.edgeGrammar.strict) {
+          const violation = this.edgeGrammar.check(
+            this.state.node_types.get(edge.source)!,
+            this.state.node_types.get(edge.target)!,
+            updated.edge_type
+          );
+          if (violation) {
+            throw new Error(violation);
+          }
+        }
+
+        this.journal.recordEdge(edgeId, edge);
+        Object.assign(edge.metadata, changes);
+
+        const change = updated.edge_type !== previousType
+          ? `Retyped edge ${edgeId} from ${previousType} to ${updated.edge_type}`
+          : `Updated ${fields.join(', ')} of edge ${edgeId}`;
+        for (const nodeId of new Set([edge.source, edge.target])) {
+          this.addRevision(nodeId, change, author);
+        }
+
+        this.updateTimestamp();
+        return edge;
+      }, () => `Updated ${fields.join(', ')} of edge ${edgeId}`);
+    } catch (error) {
+      throw new Error(`Edge update failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Delete one edge, leaving its endpoints in place
+   * Returns false when the edge does not exist.
+   */
+  removeEdge(edgeId: string, author = 'ASR-GoT System'): boolean {
+    const edge = this.state.edges.get(edgeId);
+    if (!edge) return false;
+
+    return this.logOperation('remove_edge', () => {
+      this.journal.recordOrder(this.state.vertices.keys(), this.state.edges.keys(), this.state.hyperedges.keys());
+      this.journal.recordEdge(edgeId, edge);
+      this.unindexEdge(edge);
+      this.state.edges.delete(edgeId);
+
+      for (const nodeId of new Set([edge.source, edge.target])) {
+        this.addRevision(nodeId, `Removed ${edge.metadata.edge_type} edge ${edgeId} (${edge.source} -> ${edge.target})`, author);
+      }
+
+      this.updateTimestamp();
+      return true;
+    }, () => `Removed ${edge.metadata.edge_type} edge ${edgeId} (${edge.source} -> ${edge.target})`);
+  }
+
   // Hyperedge Management (P1.9)
+  /**
+   * Join two or more existing nodes in one n-ary relation, e.g. evidence that only jointly supports a hypothesis
+   * Repeated node ids are collapsed; a hyperedge with fewer than two distinct members is rejected.
+   */
   addHyperedge(nodeIds: string[], metadata: EdgeMetadata): string {
-    const hyperedge: Hyperedge = {
-      id: metadata.edge_id,
-      nodes: nodeIds,
-      metadata
+    try {
+      return this.logOperation('add_hyperedge', () => {
+        if (!Array.isArray(nodeIds) || !metadata || !metadata.edge_id) {
+          throw new Error('Invalid hyperedge parameters: nodeIds and metadata.edge_id are required');
+        }
+
+        const members = [...new Set(nodeIds)];
+        if (members.length < 2) {
+          throw new Error('A hyperedge needs at least two distinct nodes');
+        }
+
+        const missing = members.filter(nodeId => !this.state.vertices.has(nodeId));
+        if (missing.length > 0) {
+          throw new Error(`Nodes ${missing.join(', ')} do not exist`);
+        }
+
+        if (this.state.hyperedges.has(metadata.edge_id)) {
+          console.warn(`Hyperedge ${metadata.edge_id} already exists, generating new ID`);
+          metadata.edge_id = this.generateId();
+        }
+
+        const hyperedge: Hyperedge = {
+          id: metadata.edge_id,
+          nodes: members,
+          metadata: {
+            ...metadata,
+            timestamp: metadata.timestamp || new Date()
+          }
+        };
+
+        this.journal.recordHyperedge(hyperedge.id, undefined);
+        this.state.hyperedges.set(hyperedge.id, hyperedge);
+        this.indexHyperedge(hyperedge);
+        this.updateTimestamp();
+        this.events.emit('hyperedgeAdded', { hyperedge });
+        return hyperedge.id;
+      }, hyperedgeId => `Added ${metadata.edge_type} hyperedge ${hyperedgeId} over ${nodeIds.length} nodes`);
+    } catch (error) {
+      console.error('Failed to add hyperedge:', error);
+      throw new Error(`Hyperedge creation failed: ${(error as Error).message}`);
+    }
+  }
+
+  getHyperedge(hyperedgeId: string): Hyperedge | undefined {
+    return this.state.hyperedges.get(hyperedgeId);
+  }
+
+  // Hyperedges the node is a member of
+  getNodeHyperedges(nodeId: string): Hyperedge[] {
+    return Array.from(this.memberships.get(nodeId) ?? [], hyperedgeId => this.state.hyperedges.get(hyperedgeId)!);
+  }
+
+  /**
+   * Delete one hyperedge, leaving its members in place
+   * Returns false when the hyperedge does not exist.
+   */
+  removeHyperedge(hyperedgeId: string, author = 'ASR-GoT System'): boolean {
+    const hyperedge = this.state.hyperedges.get(hyperedgeId);
+    if (!hyperedge) return false;
+
+    return this.logOperation('remove_hyperedge', () => {
+      this.journal.recordOrder(this.state.vertices.keys(), this.state.edges.keys(), this.state.hyperedges.keys());
+      this.journal.recordHyperedge(hyperedgeId, hyperedge);
+      this.unindexHyperedge(hyperedge);
+      this.state.hyperedges.delete(hyperedgeId);
+
+      for (const nodeId of hyperedge.nodes) {
+        this.addRevision(nodeId, `Removed ${hyperedge.metadata.edge_type} hyperedge ${hyperedgeId}`, author);
+      }
+
+      this.updateTimestamp();
+      return true;
+    }, () => `Removed ${hyperedge.metadata.edge_type} hyperedge ${hyperedgeId} over ${hyperedge.nodes.length} nodes`);
+  }
+
+  // Layer Hierarchy and Super-Nodes (P1.20, P1.23)
+  /**
+   * Nest a layer inside another (null makes it top-level); missing layers are created
+   * A super-node standing for the layer moves along, since it always sits in its layer's parent.
+   */
+  setLayerParent(layerId: string, parentLayerId: string | null): void {
+    this.logOperation('set_layer_parent', () => {
+      if (parentLayerId !== null && this.getLayerChain(parentLayerId).includes(layerId)) {
+        throw new Error(`Layer ${parentLayerId} is nested inside ${layerId}`);
+      }
+
+      this.journal.recordLayerParent(layerId, this.state.layer_parents.get(layerId));
+      for (const id of [layerId, parentLayerId]) {
+        if (id !== null && !this.state.layers.has(id)) {
+          this.journal.recordLayer(id, undefined);
+          this.state.layers.set(id, []);
+        }
+      }
+
+      if (parentLayerId === null) {
+        this.state.layer_parents.delete(layerId);
+      } else {
+        this.state.layer_parents.set(layerId, parentLayerId);
+      }
+
+      const superNode = this.findSuperNode(layerId);
+      if (superNode) {
+        this.moveToLayer(superNode.id, parentLayerId ?? undefined);
+      }
+      this.updateTimestamp();
+    }, () => `Moved layer ${layerId} under ${parentLayerId ?? 'the top level'}`);
+  }
+
+  getLayerParent(layerId: string): string | undefined {
+    return this.state.layer_parents.get(layerId);
+  }
+
+  getChildLayers(layerId: string): string[] {
+    return Array.from(this.state.layer_parents.entries())
+      .filter(([, parentLayerId]) => parentLayerId === layerId)
+      .map(([childLayerId]) => childLayerId);
+  }
+
+  /**
+   * Abstraction level of a layer: top-level layers are level 1, each nesting adds one
+   * Nodes outside every layer are at level 0.
+   */
+  getLayerLevel(layerId: string | undefined): number {
+    return layerId === undefined ? 0 : this.getLayerChain(layerId).length;
+  }
+
+  /**
+   * Group nodes under a super-node
+   * The members move into a new child layer of their deepest common layer, and the super-node,
+   * placed in that common layer, aggregates them: mean confidence, highest impact.
+   */
+  createSuperNode(memberIds: string[], options: { label: string; layer_id?: string }): string {
+    try {
+      return this.logOperation('create_super_node', () => {
+        const members = [...new Set(memberIds)];
+        if (members.length === 0) {
+          throw new Error('A super-node needs at least one member');
+        }
+        const missing = members.filter(nodeId => !this.state.vertices.has(nodeId));
+        if (missing.length > 0) {
+          throw new Error(`Nodes ${missing.join(', ')} do not exist`);
+        }
+
+        const layerId = options.layer_id ?? `layer_${this.generateId()}`;
+        if (this.state.layers.has(layerId)) {
+          throw new Error(`Layer ${layerId} already exists`);
+        }
+
+        // Deepest layer every member already sits in (none when a member is outside all layers)
+        const chains = members.map(nodeId => this.getLayerChain(this.state.vertices.get(nodeId)!.metadata.layer_id));
+        const parentLayerId = chains[0].filter(candidate => chains.every(chain => chain.includes(candidate))).pop();
+
+        this.journal.recordLayer(layerId, undefined);
+        this.journal.recordLayerParent(layerId, undefined);
+        this.state.layers.set(layerId, []);
+        if (parentLayerId) {
+          this.state.layer_parents.set(layerId, parentLayerId);
+        }
+        for (const nodeId of members) {
+          this.moveToLayer(nodeId, layerId);
+          // A member super-node keeps sitting directly above its own layer
+          const encapsulated = this.state.vertices.get(nodeId)!.metadata.encapsulated_layer;
+          if (encapsulated) {
+            this.journal.recordLayerParent(encapsulated, this.state.layer_parents.get(encapsulated));
+            this.state.layer_parents.set(encapsulated, layerId);
+          }
+        }
+
+        const nodes = members.map(nodeId => this.state.vertices.get(nodeId)!);
+        const aggregate = this.aggregateLayer(layerId);
+        return this.addNode({
+          node_id: this.generateId(),
+          label: options.label,
+          type: NodeType.SUPER_NODE,
+          timestamp: new Date(),
+          provenance: `Encapsulates layer ${layerId}`,
+          confidence: aggregate.confidence,
+          epistemic_status: 'aggregate',
+          disciplinary_tags: [...new Set(nodes.flatMap(node => node.metadata.disciplinary_tags))],
+          bias_flags: [...new Set(nodes.flatMap(node => node.metadata.bias_flags))],
+          revision_history: [{
+            timestamp: new Date(),
+            change: `Super-node created over ${members.length} nodes`,
+            author: 'ASR-GoT System'
+          }],
+          layer_id: parentLayerId,
+          encapsulated_layer: layerId,
+          collapsed: false,
+          impact_score: aggregate.impact_score
+        });
+      }, superNodeId => `Created super-node ${superNodeId} over ${memberIds.length} nodes`);
+    } catch (error) {
+      console.error('Failed to create super-node:', error);
+      throw new Error(`Super-node creation failed: ${(error as Error).message}`);
+    }
+  }
+
+  // Collapsed super-nodes replace their layer in every abstraction view; both refresh the aggregates
+  collapseSuperNode(superNodeId: string): void {
+    this.setCollapsed(superNodeId, true);
+  }
+
+  expandSuperNode(superNodeId: string): void {
+    this.setCollapsed(superNodeId, false);
+  }
+
+  /**
+   * Every node a super-node stands for, nested layers included
+   */
+  getSuperNodeMembers(superNodeId: string): string[] {
+    const layerId = this.getNode(superNodeId)?.metadata.encapsulated_layer;
+    if (!layerId) return [];
+
+    return Array.from(this.state.vertices.values())
+      .filter(node => node.metadata.layer_id !== undefined && this.getLayerChain(node.metadata.layer_id).includes(layerId))
+      .map(node => node.id);
+  }
+
+  /**
+   * View of the graph with layers deeper than `level` (and collapsed layers) folded into their super-nodes
+   * Edges are rerouted to the super-nodes standing in for their endpoints: edges inside a folded layer
+   * disappear and parallel edges of one type are combined, with mean confidence. Super-nodes whose
+   * layer is shown are left out. Without a level only collapsed layers are folded.
+   */
+  atAbstractionLevel(level: number = Infinity): ASRGoTGraph {
+    return this.foldLayers(level).view;
+  }
+
+  private setCollapsed(superNodeId: string, collapsed: boolean): void {
+    const node = this.getNode(superNodeId);
+    if (!node || node.metadata.type !== NodeType.SUPER_NODE || !node.metadata.encapsulated_layer) {
+      throw new Error(`Node ${superNodeId} is not a super-node`);
+    }
+
+    this.logOperation(collapsed ? 'collapse_super_node' : 'expand_super_node', () => {
+      const aggregate = this.aggregateLayer(node.metadata.encapsulated_layer!);
+      this.journal.recordNode(superNodeId, node);
+      node.metadata.collapsed = collapsed;
+      node.metadata.confidence = aggregate.confidence;
+      node.metadata.impact_score = aggregate.impact_score;
+      this.state.confidence_function.set(superNodeId, aggregate.confidence);
+      this.updateTimestamp();
+    }, () => `${collapsed ? 'Collapsed' : 'Expanded'} super-node ${superNodeId}`);
+  }
+
+  // Mean confidence and highest impact of the ordinary nodes inside a layer and its descendants
+  private aggregateLayer(layerId: string): { confidence: ConfidenceVector; impact_score: number } {
+    const members = Array.from(this.state.vertices.values()).filter(node =>
+      node.metadata.type !== NodeType.SUPER_NODE &&
+      node.metadata.layer_id !== undefined &&
+      this.getLayerChain(node.metadata.layer_id).includes(layerId));
+
+    if (members.length === 0) {
+      return {
+        confidence: { empirical_support: 0.5, theoretical_basis: 0.5, methodological_rigor: 0.5, consensus_alignment: 0.5 },
+        impact_score: 0
+      };
+    }
+
+    const mean = (key: keyof ConfidenceVector) =>
+      members.reduce((sum, node) => sum + node.metadata.confidence[key], 0) / members.length;
+    return {
+      confidence: {
+        empirical_support: mean('empirical_support'),
+        theoretical_basis: mean('theoretical_basis'),
+        methodological_rigor: mean('methodological_rigor'),
+        consensus_alignment: mean('consensus_alignment')
+      },
+      impact_score: Math.max(...members.map(node => node.metadata.impact_score))
     };
+  }
+
+  // Layer ids from the top-level ancestor down to layerId
+  private getLayerChain(layerId: string | undefined): string[] {
+    const chain: string[] = [];
+    for (let current = layerId; current !== undefined && !chain.includes(current); current = this.state.layer_parents.get(current)) {
+      chain.unshift(current);
+    }
+    return chain;
+  }
+
+  private findSuperNode(layerId: string): GraphNode | undefined {
+    return Array.from(this.state.vertices.values())
+      .find(node => node.metadata.type === NodeType.SUPER_NODE && node.metadata.encapsulated_layer === layerId);
+  }
 
-    this.state.hyperedges.set(hyperedge.id, hyperedge);
-    this.updateTimestamp();
-    return hyperedge.id;
+  private moveToLayer(nodeId: string, layerId: string | undefined): void {
+    const node = this.state.vertices.get(nodeId)!;
+    this.journal.recordNode(nodeId, node);
+
+    if (node.metadata.layer_id) {
+      const previous = this.state.layers.get(node.metadata.layer_id);
+      if (previous) {
+        const index = previous.indexOf(nodeId);
+        if (index > -1) {
+          this.journal.recordLayer(node.metadata.layer_id, previous, index);
+          previous.splice(index, 1);
+        }
+      }
+    }
+    node.metadata.layer_id = layerId;
+    if (layerId) {
+      const members = this.state.layers.get(layerId);
+      this.journal.recordLayer(layerId, members, members?.length);
+      if (!this.state.layers.has(layerId)) {
+        this.state.layers.set(layerId, []);
+      }
+      this.state.layers.get(layerId)!.push(nodeId);
+    }
+  }
+
+  // The folded view, and for every node left out the node standing in for it
+  private foldLayers(level: number): { view: ASRGoTGraph; representatives: Map<string, string> } {
+    const folded = new Map<string, string>();
+    for (const node of this.state.vertices.values()) {
+      const layerId = node.metadata.encapsulated_layer;
+      if (node.metadata.type === NodeType.SUPER_NODE && layerId &&
+          (node.metadata.collapsed || this.getLayerLevel(layerId) > level)) {
+        folded.set(layerId, node.id);
+      }
+    }
+
+    // Outermost folded layer around each node; super-nodes of shown layers have nothing to stand for
+    const representatives = new Map<string, string>();
+    const hidden = new Set<string>();
+    for (const node of this.state.vertices.values()) {
+      const outermost = this.getLayerChain(node.metadata.layer_id).find(layerId => folded.has(layerId));
+      if (outermost) {
+        representatives.set(node.id, folded.get(outermost)!);
+        hidden.add(node.id);
+      } else if (node.metadata.type === NodeType.SUPER_NODE && !folded.has(node.metadata.encapsulated_layer ?? '')) {
+        hidden.add(node.id);
+      }
+    }
+
+    const state = structuredClone(this.state);
+    for (const nodeId of hidden) {
+      state.vertices.delete(nodeId);
+      state.node_types.delete(nodeId);
+      state.confidence_function.delete(nodeId);
+      state.metadata_function.delete(nodeId);
+      state.info_metrics.delete(nodeId);
+    }
+    for (const [layerId, nodeIds] of state.layers) {
+      state.layers.set(layerId, nodeIds.filter(nodeId => !hidden.has(nodeId)));
+    }
+
+    const represent = (nodeId: string) => representatives.get(nodeId) ?? nodeId;
+    const combined = new Map<string, GraphEdge[]>();
+    for (const edge of state.edges.values()) {
+      const source = represent(edge.source);
+      const target = represent(edge.target);
+      if (!state.vertices.has(source) || !state.vertices.has(target)) continue;
+      if (source === target && (source !== edge.source || target !== edge.target)) continue;
+
+      const key = `${source}|${target}|${edge.metadata.edge_type}`;
+      combined.set(key, [...(combined.get(key) ?? []), { ...edge, source, target }]);
+    }
+    state.edges = new Map(Array.from(combined.values(), ([first, ...rest]) => {
+      if (rest.length > 0) {
+        const group = [first, ...rest];
+        const mean = (key: keyof ConfidenceVector) =>
+          group.reduce((sum, edge) => sum + edge.metadata.confidence[key], 0) / group.length;
+        first.metadata = {
+          ...first.metadata,
+          confidence: {
+            empirical_support: mean('empirical_support'),
+            theoretical_basis: mean('theoretical_basis'),
+            methodological_rigor: mean('methodological_rigor'),
+            consensus_alignment: mean('consensus_alignment')
+          }
+        };
+      }
+      return [first.id, first];
+    }));
+
+    for (const hyperedge of Array.from(state.hyperedges.values())) {
+      hyperedge.nodes = [...new Set(hyperedge.nodes.map(represent))].filter(nodeId => state.vertices.has(nodeId));
+      if (hyperedge.nodes.length < 2) {
+        state.hyperedges.delete(hyperedge.id);
+      }
+    }
+
+    return { view: ASRGoTGraph.fromState(state), representatives };
   }
 
   // Interdisciplinary Bridge Node Creation (P1.8)
   createIBN(sourceNodeId: string, targetNodeId: string, semantic_similarity: number): string | null {
     try {
-      const sourceNode = this.getNode(sourceNodeId);
-      const targetNode = this.getNode(targetNodeId);
-
-      if (!sourceNode || !targetNode) return null;
-
-      const sourceTags = sourceNode.metadata.disciplinary_tags;
-      const targetTags = targetNode.metadata.disciplinary_tags;
-
-      // Check for interdisciplinary criteria (P1.8)
-      const hasIntersection = sourceTags.some(tag => targetTags.includes(tag));
-      if (hasIntersection || semantic_similarity <= 0.5) return null;
-
-      // Create IBN
-      const ibnMetadata: NodeMetadata = {
-        node_id: uuidv4(),
-        label: `IBN: ${sourceNode.metadata.label} ↔ ${targetNode.metadata.label}`,
-        type: NodeType.IBN,
-        timestamp: new Date(),
-        provenance: `Interdisciplinary Bridge between ${sourceNodeId} and ${targetNodeId}`,
-        confidence: this.averageConfidence(sourceNode.metadata.confidence, targetNode.metadata.confidence),
-        epistemic_status: 'interdisciplinary_bridge',
-        disciplinary_tags: [...sourceTags, ...targetTags],
-        bias_flags: [],
-        revision_history: [{
-          timestamp: new Date(),
-          change: 'IBN created automatically',
-          author: 'ASR-GoT System'
-        }],
-        impact_score: Math.max(sourceNode.metadata.impact_score, targetNode.metadata.impact_score)
-      };
+      return this.logOperation('create_ibn', () => {
+        const sourceNode = this.getNode(sourceNodeId);
+        const targetNode = this.getNode(targetNodeId);
 
-      const ibnId = this.addNode(ibnMetadata);
+        if (!sourceNode || !targetNode) return null;
 
-      // Create connecting edges
-      this.addEdge(sourceNodeId, ibnId, {
-        edge_id: uuidv4(),
-        edge_type: EdgeType.OTHER,
-        confidence: sourceNode.metadata.confidence,
-        timestamp: new Date()
-      });
+        const sourceTags = sourceNode.metadata.disciplinary_tags;
+        const targetTags = targetNode.metadata.disciplinary_tags;
 
-      this.addEdge(ibnId, targetNodeId, {
-        edge_id: uuidv4(),
-        edge_type: EdgeType.OTHER,
-        confidence: targetNode.metadata.confidence,
-        timestamp: new Date()
-      });
+        // Check for interdisciplinary criteria (P1.8)
+        const hasIntersection = sourceTags.some(tag => targetTags.includes(tag));
+        if (hasIntersection || semantic_similarity <= 0.5) return null;
 
-      return ibnId;
+        // Create IBN
+        const ibnMetadata: NodeMetadata = {
+          node_id: this.generateId(),
+          label: `IBN: ${sourceNode.metadata.label} ↔ ${targetNode.metadata.label}`,
+          type: NodeType.IBN,
+          timestamp: new Date(),
+          provenance: `Interdisciplinary Bridge between ${sourceNodeId} and ${targetNodeId}`,
+          confidence: this.averageConfidence(sourceNode.metadata.confidence, targetNode.metadata.confidence),
+          epistemic_status: 'interdisciplinary_bridge',
+          disciplinary_tags: [...sourceTags, ...targetTags],
+          bias_flags: [],
+          revision_history: [{
+            timestamp: new Date(),
+            change: 'IBN created automatically',
+            author: 'ASR-GoT System'
+          }],
+          impact_score: Math.max(sourceNode.metadata.impact_score, targetNode.metadata.impact_score)
+        };
+
+        const ibnId = this.addNode(ibnMetadata);
+
+        // Create connecting edges
+        this.addEdge(sourceNodeId, ibnId, {
+          edge_id: this.generateId(),
+          edge_type: EdgeType.OTHER,
+          confidence: sourceNode.metadata.confidence,
+          timestamp: new Date()
+        });
+
+        this.addEdge(ibnId, targetNodeId, {
+          edge_id: this.generateId(),
+          edge_type: EdgeType.OTHER,
+          confidence: targetNode.metadata.confidence,
+          timestamp: new Date()
+        });
+
+        this.events.emit('ibnCreated', { ibnId, sourceNodeId, targetNodeId, semanticSimilarity: semantic_similarity });
+        return ibnId;
+      }, ibnId => `Created IBN ${ibnId} between ${sourceNodeId} and ${targetNodeId}`);
     } catch (error) {
       console.error('Failed to create IBN:', error);
       return null;
@@ -250,31 +1305,173 @@ export class ASRGoTGraph {
   }
 
   // Dynamic Topology Operations (P1.22)
+  /**
+   * Refresh the local metrics of one node
+   * Global measures (betweenness, closeness, eigenvector, PageRank) keep the values from the last updateAllTopologyMetrics()
+   */
   updateTopologyMetrics(nodeId: string): TopologyMetrics {
+    const node = this.getNode(nodeId);
     const metrics: TopologyMetrics = {
-      degree: this.getNodeDegree(nodeId),
+      ...node?.metadata.topology_metrics,
       centrality: this.calculateCentrality(nodeId),
       clustering_coefficient: this.calculateClusteringCoefficient(nodeId),
-      betweenness: this.calculateBetweenness(nodeId)
+      degree: this.getNodeDegree(nodeId),
+      hyperdegree: this.getNodeHyperedges(nodeId).length
     };
 
-    const node = this.getNode(nodeId);
     if (node) {
+      this.journal.recordNode(nodeId, node);
       node.metadata.topology_metrics = metrics;
     }
 
     return metrics;
   }
 
-  // Graph Analysis Methods
-  private getNodeDegree(nodeId: string): number {
-    let degree = 0;
-    for (const edge of this.state.edges.values()) {
-      if (edge.source === nodeId || edge.target === nodeId) {
-        degree++;
+  /**
+   * Recompute every topology metric for every node in one pass
+   * Edge weights are the mean of each edge's confidence vector
+   */
+  updateAllTopologyMetrics(): Map<string, TopologyMetrics> {
+    const scores = this.centralityAnalyzer.computeAll(this.getWeightedView());
+    const results = new Map<string, TopologyMetrics>();
+
+    for (const node of this.state.vertices.values()) {
+      const metrics: TopologyMetrics = {
+        // Same key order as TopologyMetricsSchema, so serialized graphs round-trip byte for byte
+        centrality: this.calculateCentrality(node.id),
+        clustering_coefficient: this.calculateClusteringCoefficient(node.id),
+        betweenness: scores.betweenness.get(node.id) ?? 0,
+        closeness: scores.closeness.get(node.id) ?? 0,
+        eigenvector: scores.eigenvector.get(node.id) ?? 0,
+        pagerank: scores.pagerank.get(node.id) ?? 0,
+        degree: this.getNodeDegree(node.id),
+        hyperdegree: this.getNodeHyperedges(node.id).length
+      };
+
+      this.journal.recordNode(node.id, node);
+      node.metadata.topology_metrics = metrics;
+      results.set(node.id, metrics);
+    }
+
+    return results;
+  }
+
+  // Community Structure
+  /**
+   * Partition the graph into research clusters (Louvain, confidence-weighted)
+   * Every node is tagged with its community_id, as one logged update of the nodes whose tag changed;
+   * communities are numbered largest first
+   */
+  detectCommunities(): { communities: Map<string, string[]>; modularity: number } {
+    return this.logOperation('update_node', () => {
+      const partition = this.communityDetector.detect(this.getWeightedView());
+      const communities = new Map<string, string[]>();
+
+      for (let index = 0; index < partition.communityCount; index++) {
+        communities.set(`community_${index}`, []);
+      }
+
+      let retagged = 0;
+      for (const [nodeId, index] of partition.assignments) {
+        const communityId = `community_${index}`;
+        const node = this.state.vertices.get(nodeId)!;
+        if (node.metadata.community_id !== communityId) {
+          this.journal.recordNode(nodeId, node);
+          node.metadata.community_id = communityId;
+          retagged++;
+        }
+        communities.get(communityId)!.push(nodeId);
+      }
+
+      if (retagged > 0) {
+        this.updateTimestamp();
       }
+      return { communities, modularity: partition.modularity };
+    }, ({ communities }) => `Tagged nodes with their community (${communities.size} communities)`);
+  }
+
+  /**
+   * Edges linking nodes of different communities, strongest first
+   * Their endpoints are the natural candidates for interdisciplinary bridge nodes (P1.8)
+   */
+  getCommunityBridges(): Array<{
+    edge_id: string;
+    source: string;
+    target: string;
+    source_community: string;
+    target_community: string;
+    weight: number;
+  }> {
+    const bridges = [];
+
+    for (const edge of this.state.edges.values()) {
+      const sourceCommunity = this.state.vertices.get(edge.source)?.metadata.community_id;
+      const targetCommunity = this.state.vertices.get(edge.target)?.metadata.community_id;
+      if (!sourceCommunity || !targetCommunity || sourceCommunity === targetCommunity) continue;
+
+      bridges.push({
+        edge_id: edge.id,
+        source: edge.source,
+        target: edge.target,
+        source_community: sourceCommunity,
+        target_community: targetCommunity,
+        weight: this.getAverageConfidence(edge.metadata.confidence)
+      });
     }
-    return degree;
+
+    return bridges.sort((a, b) => b.weight - a.weight);
+  }
+
+  // Path Queries
+  /**
+   * Path with the fewest hops, or null when the nodes are not connected
+   * Direction 'both' (default) follows edges either way, which is how evidence reaches the root question
+   */
+  findShortestPath(sourceId: string, targetId: string, direction: PathDirection = 'both'): GraphPath | null {
+    if (!this.hasNode(sourceId) || !this.hasNode(targetId)) return null;
+    return this.pathFinder.shortestPath(this.getPathExpander(direction), sourceId, targetId);
+  }
+
+  /**
+   * Path maximizing the product of hop confidences
+   */
+  findStrongestPath(sourceId: string, targetId: string, direction: PathDirection = 'both'): GraphPath | null {
+    if (!this.hasNode(sourceId) || !this.hasNode(targetId)) return null;
+    return this.pathFinder.strongestPath(this.getPathExpander(direction), sourceId, targetId);
+  }
+
+  /**
+   * Simple paths of at most maxLength hops, capped at maxPaths results
+   */
+  findAllPaths(
+    sourceId: string,
+    targetId: string,
+    options: { maxLength?: number; maxPaths?: number; direction?: PathDirection } = {}
+  ): GraphPath[] {
+    if (!this.hasNode(sourceId) || !this.hasNode(targetId)) return [];
+    return this.pathFinder.allSimplePaths(
+      this.getPathExpander(options.direction ?? 'both'),
+      sourceId,
+      targetId,
+      options.maxLength ?? 4,
+      options.maxPaths ?? 100
+    );
+  }
+
+  private getPathExpander(direction: PathDirection): PathExpander {
+    return (nodeId: string) => [
+      ...(direction !== 'incoming'
+        ? this.getOutgoingEdges(nodeId).map(edge => ({ edge, next: edge.target, direction: 'forward' as const }))
+        : []),
+      ...(direction !== 'outgoing'
+        ? this.getIncomingEdges(nodeId).map(edge => ({ edge, next: edge.source, direction: 'backward' as const }))
+        : [])
+    ];
+  }
+
+  // Graph Analysis Methods
+  private getNodeDegree(nodeId: string): number {
+    return this.getIncidentEdgeIds(nodeId).length;
   }
 
   private calculateCentrality(nodeId: string): number {
@@ -286,49 +1483,115 @@ export class ASRGoTGraph {
   }
 
   private calculateClusteringCoefficient(nodeId: string): number {
-    // Simplified clustering coefficient calculation
-    const neighbors = this.getNeighbors(nodeId);
-    if (neighbors.length < 2) return 0;
-
-    let triangles = 0;
-    const possibleTriangles = (neighbors.length * (neighbors.length - 1)) / 2;
-
-    for (let i = 0; i < neighbors.length; i++) {
-      for (let j = i + 1; j < neighbors.length; j++) {
-        if (this.areConnected(neighbors[i], neighbors[j])) {
-          triangles++;
+    // Undirected local clustering over distinct neighbours (parallel edges and self-loops ignored)
+    const neighbors = new Set(this.getNeighbors(nodeId));
+    neighbors.delete(nodeId);
+    if (neighbors.size < 2) return 0;
+
+    let links = 0;
+    for (const neighbor of neighbors) {
+      const adjacent = new Set(this.getNeighbors(neighbor));
+      for (const other of adjacent) {
+        if (other !== neighbor && neighbors.has(other)) {
+          links++;
         }
       }
     }
 
+    // Each neighbour pair was counted from both ends
+    const triangles = links / 2;
+    const possibleTriangles = (neighbors.size * (neighbors.size - 1)) / 2;
+
     return triangles / possibleTriangles;
   }
 
-  private calculateBetweenness(nodeId: string): number {
-    // Simplified betweenness centrality (placeholder - would need full shortest path calculation)
-    return this.getNodeDegree(nodeId) / this.state.vertices.size;
+  private getWeightedView(): WeightedGraphView {
+    return {
+      nodeIds: Array.from(this.state.vertices.keys()),
+      edges: Array.from(this.state.edges.values(), edge => ({
+        source: edge.source,
+        target: edge.target,
+        weight: this.getAverageConfidence(edge.metadata.confidence)
+      }))
+    };
   }
 
+  // Neighbours in either direction, one entry per incident edge
   getNeighbors(nodeId: string): string[] {
-    const neighbors: string[] = [];
-    for (const edge of this.state.edges.values()) {
-      if (edge.source === nodeId) {
-        neighbors.push(edge.target);
-      } else if (edge.target === nodeId) {
-        neighbors.push(edge.source);
+    return this.getIncidentEdgeIds(nodeId).map(edgeId => {
+      const edge = this.state.edges.get(edgeId)!;
+      return edge.source === nodeId ? edge.target : edge.source;
+    });
+  }
+
+  // Distinct source nodes of edges pointing at nodeId
+  getPredecessors(nodeId: string): string[] {
+    return [...new Set(this.getIncomingEdges(nodeId).map(edge => edge.source))];
+  }
+
+  // Distinct target nodes of edges leaving nodeId
+  getSuccessors(nodeId: string): string[] {
+    return [...new Set(this.getOutgoingEdges(nodeId).map(edge => edge.target))];
+  }
+
+  getOutgoingEdges(nodeId: string): GraphEdge[] {
+    return Array.from(this.outgoing.get(nodeId) ?? [], edgeId => this.state.edges.get(edgeId)!);
+  }
+
+  getIncomingEdges(nodeId: string): GraphEdge[] {
+    return Array.from(this.incoming.get(nodeId) ?? [], edgeId => this.state.edges.get(edgeId)!);
+  }
+
+  // Adjacency index maintenance
+  private getIncidentEdgeIds(nodeId: string): string[] {
+    const edgeIds = new Set(this.outgoing.get(nodeId));
+    for (const edgeId of this.incoming.get(nodeId) ?? []) {
+      edgeIds.add(edgeId);
+    }
+    return [...edgeIds];
+  }
+
+  private indexEdge(edge: GraphEdge): void {
+    if (!this.outgoing.has(edge.source)) {
+      this.outgoing.set(edge.source, new Set());
+    }
+    if (!this.incoming.has(edge.target)) {
+      this.incoming.set(edge.target, new Set());
+    }
+    this.outgoing.get(edge.source)!.add(edge.id);
+    this.incoming.get(edge.target)!.add(edge.id);
+  }
+
+  private unindexEdge(edge: GraphEdge): void {
+    this.outgoing.get(edge.source)?.delete(edge.id);
+    this.incoming.get(edge.target)?.delete(edge.id);
+  }
+
+  private indexHyperedge(hyperedge: Hyperedge): void {
+    for (const nodeId of hyperedge.nodes) {
+      if (!this.memberships.has(nodeId)) {
+        this.memberships.set(nodeId, new Set());
       }
+      this.memberships.get(nodeId)!.add(hyperedge.id);
     }
-    return neighbors;
   }
 
-  private areConnected(nodeId1: string, nodeId2: string): boolean {
+  private unindexHyperedge(hyperedge: Hyperedge): void {
+    for (const nodeId of hyperedge.nodes) {
+      this.memberships.get(nodeId)?.delete(hyperedge.id);
+    }
+  }
+
+  private rebuildAdjacency(): void {
+    this.outgoing = new Map();
+    this.incoming = new Map();
+    this.memberships = new Map();
     for (const edge of this.state.edges.values()) {
-      if ((edge.source === nodeId1 && edge.target === nodeId2) ||
-          (edge.source === nodeId2 && edge.target === nodeId1)) {
-        return true;
-      }
+      this.indexEdge(edge);
+    }
+    for (const hyperedge of this.state.hyperedges.values()) {
+      this.indexHyperedge(hyperedge);
     }
-    return false;
   }
 
   // Utility Methods
@@ -347,18 +1610,21 @@ export class ASRGoTGraph {
 
   // Pruning and Merging (P1.5)
   pruneNodes(confidenceThreshold: number = 0.2, impactThreshold: number = 0.1): string[] {
-    const prunedNodes: string[] = [];
+    return this.logOperation('prune_nodes', () => {
+      const prunedNodes: string[] = [];
 
-    for (const [nodeId, node] of this.state.vertices.entries()) {
-      const avgConfidence = this.getAverageConfidence(node.metadata.confidence);
+      for (const [nodeId, node] of this.state.vertices.entries()) {
+        const avgConfidence = this.getAverageConfidence(node.metadata.confidence);
       
-      if (avgConfidence < confidenceThreshold && node.metadata.impact_score < impactThreshold) {
-        this.removeNode(nodeId);
-        prunedNodes.push(nodeId);
+        if (avgConfidence < confidenceThreshold && node.metadata.impact_score < impactThreshold) {
+          this.removeNode(nodeId);
+          prunedNodes.push(nodeId);
+          this.events.emit('nodePruned', { nodeId, label: node.metadata.label });
+        }
       }
-    }
 
-    return prunedNodes;
+      return prunedNodes;
+    }, pruned => `Pruned ${pruned.length} low-confidence nodes`);
   }
 
   mergeNodes(nodeId1: string, nodeId2: string, semanticOverlap: number): string | null {
@@ -371,7 +1637,7 @@ export class ASRGoTGraph {
 
     // Create merged node
     const mergedMetadata: NodeMetadata = {
-      node_id: uuidv4(),
+      node_id: this.generateId(),
       label: `${node1.metadata.label} + ${node2.metadata.label}`,
       type: node1.metadata.type,
       timestamp: new Date(),
@@ -392,51 +1658,127 @@ export class ASRGoTGraph {
       impact_score: Math.max(node1.metadata.impact_score, node2.metadata.impact_score)
     };
 
-    const mergedId = this.addNode(mergedMetadata);
+    // All or nothing: a failure part-way must not leave the merged node beside its originals
+    return this.logOperation('merge_nodes', () => {
+      const mergedId = this.addNode(mergedMetadata);
 
-    // Transfer edges
-    this.transferEdges(nodeId1, mergedId);
-    this.transferEdges(nodeId2, mergedId);
+      // Transfer edges and hyperedge memberships
+      this.transferEdges(nodeId1, mergedId);
+      this.transferEdges(nodeId2, mergedId);
+      this.replaceHyperedgeMember(nodeId1, mergedId);
+      this.replaceHyperedgeMember(nodeId2, mergedId);
 
-    // Remove original nodes
-    this.removeNode(nodeId1);
-    this.removeNode(nodeId2);
+      // Remove original nodes
+      this.removeNode(nodeId1);
+      this.removeNode(nodeId2);
 
-    return mergedId;
+      this.events.emit('nodeMerged', { mergedNodeId: mergedId, sourceNodeIds: [nodeId1, nodeId2] });
+      return mergedId;
+    }, mergedId => `Merged ${nodeId1} and ${nodeId2} into ${mergedId}`);
   }
 
   removeNode(nodeId: string): void {
-    this.state.vertices.delete(nodeId);
-    this.state.node_types.delete(nodeId);
-    this.state.confidence_function.delete(nodeId);
-    this.state.metadata_function.delete(nodeId);
-    this.state.info_metrics.delete(nodeId);
+    if (!this.state.vertices.has(nodeId)) return;
+
+    return this.logOperation('remove_node', () => {
+      const incidentEdgeIds = this.getIncidentEdgeIds(nodeId);
+
+      this.journal.recordOrder(this.state.vertices.keys(), this.state.edges.keys(), this.state.hyperedges.keys());
+      this.journal.recordNode(nodeId, this.state.vertices.get(nodeId));
+      this.journal.recordInfoMetrics(nodeId, this.state.info_metrics.get(nodeId));
+      for (const edgeId of incidentEdgeIds) {
+        this.journal.recordEdge(edgeId, this.state.edges.get(edgeId));
+      }
+
+      this.state.vertices.delete(nodeId);
+      this.state.node_types.delete(nodeId);
+      this.state.confidence_function.delete(nodeId);
+      this.state.metadata_function.delete(nodeId);
+      this.state.info_metrics.delete(nodeId);
+
+      // Remove from layers
+      for (const [layerId, nodeIds] of this.state.layers.entries()) {
+        const index = nodeIds.indexOf(nodeId);
+        if (index > -1) {
+          this.journal.recordLayer(layerId, nodeIds, index);
+          nodeIds.splice(index, 1);
+        }
+      }
+
+      // Remove connected edges
+      for (const edgeId of incidentEdgeIds) {
+        const edge = this.state.edges.get(edgeId)!;
+        this.unindexEdge(edge);
+        this.state.edges.delete(edgeId);
+      }
+      this.outgoing.delete(nodeId);
+      this.incoming.delete(nodeId);
 
-    // Remove from layers
-    for (const [, nodeIds] of this.state.layers.entries()) {
-      const index = nodeIds.indexOf(nodeId);
-      if (index > -1) {
-        nodeIds.splice(index, 1);
+      // Leave the node's hyperedges; those with fewer than two members left are removed
+      this.replaceHyperedgeMember(nodeId, null);
+    }, () => `Removed node ${nodeId}`);
+  }
+
+  private addRevision(nodeId: string, change: string, author: string): void {
+    const node = this.state.vertices.get(nodeId);
+    if (!node) return;
+
+    this.journal.recordNode(nodeId, node);
+    node.metadata.revision_history.push({ timestamp: new Date(), change, author });
+  }
+
+  // A node changing type must keep its edges within a strict edge grammar
+  private checkIncidentEdgeGrammar(nodeId: string, type: NodeType): void {
+    if (!this.edgeGrammar.strict) return;
+
+    for (const edgeId of this.getIncidentEdgeIds(nodeId)) {
+      const edge = this.state.edges.get(edgeId)!;
+      const sourceType = edge.source === nodeId ? type : this.state.node_types.get(edge.source)!;
+      const targetType = edge.target === nodeId ? type : this.state.node_types.get(edge.target)!;
+      const violation = this.edgeGrammar.check(sourceType, targetType, edge.metadata.edge_type);
+      if (violation) {
+        throw new Error(`Edge ${edgeId} would break the edge grammar: ${violation}`);
       }
     }
+  }
+
+  // Swap a node for another in every hyperedge it belongs to (null drops it)
+  private replaceHyperedgeMember(nodeId: string, replacementId: string | null): void {
+    for (const hyperedge of this.getNodeHyperedges(nodeId)) {
+      this.journal.recordHyperedge(hyperedge.id, hyperedge);
+      this.unindexHyperedge(hyperedge);
 
-    // Remove connected edges
-    const edgesToRemove: string[] = [];
-    for (const [edgeId, edge] of this.state.edges.entries()) {
-      if (edge.source === nodeId || edge.target === nodeId) {
-        edgesToRemove.push(edgeId);
+      const members = hyperedge.nodes.map(member => member === nodeId ? replacementId : member)
+        .filter((member): member is string => member !== null);
+      hyperedge.nodes = [...new Set(members)];
+
+      if (hyperedge.nodes.length < 2) {
+        this.state.hyperedges.delete(hyperedge.id);
+      } else {
+        this.indexHyperedge(hyperedge);
       }
     }
-    edgesToRemove.forEach(edgeId => this.state.edges.delete(edgeId));
+    this.memberships.delete(nodeId);
   }
 
   private transferEdges(fromNodeId: string, toNodeId: string): void {
-    for (const edge of this.state.edges.values()) {
-      if (edge.source === fromNodeId) {
-        edge.source = toNodeId;
-      } else if (edge.target === fromNodeId) {
-        edge.target = toNodeId;
-      }
+    // A self-loop on fromNodeId only has its source moved
+    const outgoing = this.getOutgoingEdges(fromNodeId);
+    const incoming = this.getIncomingEdges(fromNodeId).filter(edge => edge.source !== fromNodeId);
+
+    for (const edge of [...outgoing, ...incoming]) {
+      this.journal.recordEdge(edge.id, edge);
+    }
+
+    for (const edge of outgoing) {
+      this.unindexEdge(edge);
+      edge.source = toNodeId;
+      this.indexEdge(edge);
+    }
+    for (const edge of incoming) {
+      this.unindexEdge(edge);
+      edge.target = toNodeId;
+      this.indexEdge(edge);
     }
   }
 
@@ -475,22 +1817,50 @@ export class ASRGoTGraph {
   }
 
   // Subgraph extraction (P1.6)
-  extractSubgraph(criteria: {
-    confidence_threshold?: number;
-    node_types?: NodeType[];
-    edge_types?: EdgeType[];
-    layer_ids?: string[];
-    impact_threshold?: number;
-    temporal_recency_days?: number;
-  }): { nodes: GraphNode[]; edges: GraphEdge[] } {
+  extractSubgraph(criteria: SubgraphCriteria): { nodes: GraphNode[]; edges: GraphEdge[]; hyperedges: Hyperedge[] } {
+    // As-of mode: filter the graph as it was at that moment
+    const source = criteria.as_of ? this.asOf(criteria.as_of) : this;
+    if (criteria.abstraction_level === undefined && !source.hasSuperNodes()) {
+      return source.filterSubgraph(criteria);
+    }
+
+    // Abstraction mode: filter the folded view; a folded focus node is replaced by its super-node
+    const { view, representatives } = source.foldLayers(criteria.abstraction_level ?? Infinity);
+    const focusNodeId = criteria.focus_node_id && (representatives.get(criteria.focus_node_id) ?? criteria.focus_node_id);
+    return view.filterSubgraph({ ...criteria, focus_node_id: focusNodeId });
+  }
+
+  private hasSuperNodes(): boolean {
+    return Array.from(this.state.node_types.values()).includes(NodeType.SUPER_NODE);
+  }
+
+  private filterSubgraph(criteria: SubgraphCriteria): { nodes: GraphNode[]; edges: GraphEdge[]; hyperedges: Hyperedge[] } {
+    // Ego-network mode: only nodes within `radius` hops of the focus node are candidates
+    let neighborhood: Set<string> | null = null;
+    if (criteria.focus_node_id !== undefined) {
+      if (!this.hasNode(criteria.focus_node_id)) {
+        throw new Error(`Focus node ${criteria.focus_node_id} does not exist`);
+      }
+      neighborhood = this.collectNeighborhood(
+        criteria.focus_node_id,
+        criteria.radius ?? 1,
+        criteria.direction ?? 'both',
+        criteria.edge_types
+      );
+    }
+
     try {
       const filteredNodes: GraphNode[] = [];
       const filteredEdges: GraphEdge[] = [];
+      const filteredHyperedges: Hyperedge[] = [];
 
       // Filter nodes with error handling
       for (const node of this.state.vertices.values()) {
         try {
-          if (this.matchesCriteria(node, criteria)) {
+          if (neighborhood && !neighborhood.has(node.id)) continue;
+
+          // The focus node is always part of its own ego network
+          if (node.id === criteria.focus_node_id || this.matchesCriteria(node, criteria)) {
             filteredNodes.push(node);
           }
         } catch (nodeError) {
@@ -515,26 +1885,58 @@ export class ASRGoTGraph {
         }
       }
 
+      // Hyperedges are kept whole: only those with every member in the subgraph
+      for (const hyperedge of this.state.hyperedges.values()) {
+        if (hyperedge.nodes.every(nodeId => nodeIds.has(nodeId)) &&
+            (!criteria.edge_types || criteria.edge_types.includes(hyperedge.metadata.edge_type))) {
+          filteredHyperedges.push(hyperedge);
+        }
+      }
+
       // Ensure we return something even if filtering failed
       if (filteredNodes.length === 0 && this.state.vertices.size > 0) {
         // Emergency fallback: return first few nodes
         const allNodes = Array.from(this.state.vertices.values());
         const emergencyNodes = allNodes.slice(0, Math.min(5, allNodes.length));
         console.warn('Subgraph extraction failed, returning emergency subset');
-        return { nodes: emergencyNodes, edges: [] };
+        return { nodes: emergencyNodes, edges: [], hyperedges: [] };
       }
 
-      return { nodes: filteredNodes, edges: filteredEdges };
+      return { nodes: filteredNodes, edges: filteredEdges, hyperedges: filteredHyperedges };
     } catch (error) {
       console.error('Subgraph extraction failed:', error);
       // Ultimate fallback: return all nodes
       const allNodes = Array.from(this.state.vertices.values());
       const allEdges = Array.from(this.state.edges.values());
-      return { nodes: allNodes, edges: allEdges };
+      const allHyperedges = Array.from(this.state.hyperedges.values());
+      return { nodes: allNodes, edges: allEdges, hyperedges: allHyperedges };
     }
   }
 
-  private matchesCriteria(node: GraphNode, criteria: any): boolean {
+  // Breadth-first k-hop expansion, following only edges of the allowed types
+  private collectNeighborhood(focusNodeId: string, radius: number, direction: PathDirection, edgeTypes?: EdgeType[]): Set<string> {
+    const expand = this.getPathExpander(direction);
+    const visited = new Set<string>([focusNodeId]);
+    let frontier = [focusNodeId];
+
+    for (let hop = 0; hop < radius && frontier.length > 0; hop++) {
+      const next: string[] = [];
+      for (const nodeId of frontier) {
+        for (const step of expand(nodeId)) {
+          if (edgeTypes && !edgeTypes.includes(step.edge.metadata.edge_type)) continue;
+          if (!visited.has(step.next)) {
+            visited.add(step.next);
+            next.push(step.next);
+          }
+        }
+      }
+      frontier = next;
+    }
+
+    return visited;
+  }
+
+  private matchesCriteria(node: GraphNode, criteria: SubgraphCriteria): boolean {
     try {
       // Ensure node and metadata exist
       if (!node || !node.metadata) {
@@ -584,7 +1986,9 @@ export class ASRGoTGraph {
         try {
           const timestamp = node.metadata.timestamp;
           if (timestamp) {
-            const daysDiff = (Date.now() - timestamp.getTime()) / (1000 * 60 * 60 * 24);
+            // Recency is measured from the as-of moment when there is one
+            const reference = criteria.as_of ? criteria.as_of.getTime() : Date.now();
+            const daysDiff = (reference - timestamp.getTime()) / (1000 * 60 * 60 * 24);
             if (daysDiff > criteria.temporal_recency_days) {
               return false;
             }
@@ -603,5 +2007,28 @@ export class ASRGoTGraph {
   }
 }
 
+// Helper functions
+// Re-insert entries so keys listed in order come first, in that order; entries not listed keep their place after them
+function reorder<V>(map: Map<string, V>, order: string[]): void {
+  const listed = new Set(order);
+  const entries = [
+    ...order.filter(key => map.has(key)).map(key => [key, map.get(key)!] as const),
+    ...Array.from(map.entries()).filter(([key]) => !listed.has(key))
+  ];
+  map.clear();
+  for (const [key, value] of entries) {
+    map.set(key, value);
+  }
+}
+
+// A layer's members once an image is applied; the list is rewritten in place
+function applyLayerImage(nodeIds: string[], image: LayerImage): string[] {
+  nodeIds.length = image.kept;
+  for (const nodeId of image.tail) {
+    nodeIds.push(nodeId);
+  }
+  return nodeIds;
+}
+
 // Export types used in tests
 export { GraphNode, GraphEdge };
\ No newline at end of file
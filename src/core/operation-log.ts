@@ -0,0 +1,126 @@
+import { ChangeLogEntry, GraphOperationType } from '../types/index.js';
+import { GraphChangeSet } from './graph-journal.js';
+
+// A logged operation with the before- and after-images needed to undo and redo it
+export interface LoggedOperation extends ChangeLogEntry {
+  before: GraphChangeSet;
+  after: GraphChangeSet;
+}
+
+/**
+ * Linear undo/redo history of graph operations
+ * Recording a new operation discards everything that was undone. Marks let an enclosing
+ * transaction drop the operations it logged when it is rolled back.
+ */
+export class OperationLog {
+  private done: LoggedOperation[] = [];
+  private undone: LoggedOperation[] = [];
+  private marks: Array<{ sequence: number; undone: LoggedOperation[] }> = [];
+  private nextSequence = 1;
+  private maxEntries: number;
+  // Earliest moment the log can reconstruct; moves forward when old entries are dropped
+  private historyStart = new Date();
+
+  constructor(maxEntries: number = 500) {
+    this.maxEntries = maxEntries;
+  }
+
+  record(
+    operation: GraphOperationType,
+    description: string,
+    before: GraphChangeSet,
+    after: GraphChangeSet
+  ): LoggedOperation {
+    const entry: LoggedOperation = {
+      sequence: this.nextSequence++,
+      operation,
+      description,
+      timestamp: new Date(),
+      nodes_affected: Array.from(before.nodes.keys()),
+      edges_affected: Array.from(before.edges.keys()),
+      before,
+      after
+    };
+
+    this.done.push(entry);
+    this.undone = [];
+    if (this.done.length > this.maxEntries) {
+      this.historyStart = this.done.shift()!.timestamp;
+    }
+    return entry;
+  }
+
+  getHistoryStart(): Date {
+    return this.historyStart;
+  }
+
+  // Applied operations recorded after the given moment, most recent first
+  appliedAfter(timestamp: Date): LoggedOperation[] {
+    return this.done.filter(entry => entry.timestamp.getTime() > timestamp.getTime()).reverse();
+  }
+
+  // Next operation to undo / redo, without removing it
+  peekUndo(): LoggedOperation | undefined {
+    return this.done[this.done.length - 1];
+  }
+
+  peekRedo(): LoggedOperation | undefined {
+    return this.undone[this.undone.length - 1];
+  }
+
+  // Move the next operation between the two stacks once the graph has applied it
+  markUndone(): ChangeLogEntry | null {
+    const entry = this.done.pop();
+    if (!entry) return null;
+    this.undone.push(entry);
+    return summarize(entry);
+  }
+
+  markRedone(): ChangeLogEntry | null {
+    const entry = this.undone.pop();
+    if (!entry) return null;
+    this.done.push(entry);
+    return summarize(entry);
+  }
+
+  /**
+   * Applied operations, most recent first
+   */
+  entries(limit?: number): ChangeLogEntry[] {
+    const recent = [...this.done].reverse();
+    return (limit === undefined ? recent : recent.slice(0, limit)).map(summarize);
+  }
+
+  undoneEntries(): ChangeLogEntry[] {
+    return [...this.undone].reverse().map(summarize);
+  }
+
+  // Transaction boundaries
+  mark(): void {
+    this.marks.push({ sequence: this.nextSequence, undone: [...this.undone] });
+  }
+
+  unmark(): void {
+    this.marks.pop();
+  }
+
+  rewind(): void {
+    const mark = this.marks.pop();
+    if (!mark) return;
+
+    this.done = this.done.filter(entry => entry.sequence < mark.sequence);
+    this.undone = mark.undone;
+  }
+}
+
+// Helper functions
+function summarize(entry: LoggedOperation): ChangeLogEntry {
+  return {
+    sequence: entry.sequence,
+    operation: entry.operation,
+    description: entry.description,
+    timestamp: entry.timestamp,
+    nodes_affected: entry.nodes_affected,
+    edges_affected: entry.edges_affected
+  };
+}
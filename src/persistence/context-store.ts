@@ -0,0 +1,470 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { ASRGoTContext, StageCheckpoint, AnalysisSnapshot } from '../types/index.js';
+import { stringifyTagged, parseTagged } from './serialization.js';
+
+/**
+ * Storage backend for analysis contexts, keyed by context_id
+ */
+export interface ContextStore {
+  save(contextId: string, context: ASRGoTContext): Promise<void>;
+  load(contextId: string): Promise<ASRGoTContext | undefined>;
+  list(): Promise<string[]>;
+  delete(contextId: string): Promise<boolean>;
+}
+
+export type ContextStoreType = 'memory' | 'jsonl';
+
+// Checkpoints and snapshots: each holds a full copy of the graph
+type FrozenCopy = StageCheckpoint | AnalysisSnapshot;
+
+interface StoredContextLine {
+  context_id: string;
+  saved_at: string;
+  deleted?: boolean;
+  // Without its checkpoints and snapshots when the ids below are set (inline in records written before)
+  context?: ASRGoTContext;
+  checkpoint_ids?: string[];
+  snapshot_ids?: string[];
+  // A checkpoint or snapshot of the context, written once and referred to by id
+  copy?: { id: string; value: FrozenCopy };
+}
+
+// Where a line sits in the file, in bytes (without its newline)
+interface LineRange {
+  offset: number;
+  length: number;
+}
+
+// The latest context line of a live context and the lines of the copies it refers to, by copy id
+interface LiveContextLines {
+  contextId: string;
+  line: string;
+  copy_ids: string[];
+  copies: Map<string, string>;
+}
+
+interface StorableContext {
+  context: ASRGoTContext;
+  checkpoint_ids?: string[];
+  snapshot_ids?: string[];
+  copies: Map<string, FrozenCopy>;
+}
+
+/**
+ * Ids of checkpoints and snapshots, by object identity
+ * Both are never changed once taken, so each is stored once instead of with every save of its context.
+ */
+class FrozenCopyIds {
+  private ids = new WeakMap<FrozenCopy, string>();
+
+  idOf(copy: FrozenCopy): string {
+    let id = this.ids.get(copy);
+    if (!id) {
+      id = uuidv4();
+      this.ids.set(copy, id);
+    }
+    return id;
+  }
+
+  remember(copy: FrozenCopy, id: string): void {
+    this.ids.set(copy, id);
+  }
+}
+
+/**
+ * Prepare a context for storage, dropping data derived from the graph itself
+ * and taking out its checkpoints and snapshots, which are stored apart by id
+ */
+function toStorableContext(context: ASRGoTContext, copyIds: FrozenCopyIds): StorableContext {
+  const storable: any = { ...context };
+  // The Stage 6 subgraph duplicates graph nodes and is rebuilt on the next extraction
+  delete storable.extracted_subgraph;
+  delete storable.checkpoints;
+  delete storable.snapshots;
+
+  const copies = new Map<string, FrozenCopy>();
+  const refer = (copy: FrozenCopy) => {
+    const id = copyIds.idOf(copy);
+    copies.set(id, copy);
+    return id;
+  };
+
+  return {
+    context: storable as ASRGoTContext,
+    checkpoint_ids: context.checkpoints?.map(refer),
+    snapshot_ids: context.snapshots?.map(refer),
+    copies
+  };
+}
+
+/**
+ * Put a stored context's checkpoints and snapshots back in place
+ */
+function fromStoredContext(stored: StorableContext, copyIds: FrozenCopyIds): ASRGoTContext {
+  const resolve = <T extends FrozenCopy>(ids: string[]): T[] => ids.flatMap(id => {
+    const copy = stored.copies.get(id);
+    if (!copy) {
+      console.warn(`Stored checkpoint or snapshot ${id} is missing; skipping it`);
+      return [];
+    }
+    copyIds.remember(copy, id);
+    return [copy as T];
+  });
+
+  const context = stored.context;
+  if (stored.checkpoint_ids) {
+    context.checkpoints = resolve<StageCheckpoint>(stored.checkpoint_ids);
+  }
+  if (stored.snapshot_ids) {
+    context.snapshots = resolve<AnalysisSnapshot>(stored.snapshot_ids);
+  }
+  return context;
+}
+
+/**
+ * Volatile store; contexts live only as long as the server process
+ */
+export class InMemoryContextStore implements ContextStore {
+  // Encoded forms, so later mutations of the live context do not leak in
+  private records: Map<string, { context: string; checkpoint_ids?: string[]; snapshot_ids?: string[]; copies: Map<string, string> }> = new Map();
+  private copyIds = new FrozenCopyIds();
+
+  async save(contextId: string, context: ASRGoTContext): Promise<void> {
+    const storable = toStorableContext(context, this.copyIds);
+    const previous = this.records.get(contextId)?.copies;
+
+    // Checkpoints and snapshots already stored keep their encoded form
+    const copies = new Map<string, string>();
+    for (const [id, copy] of storable.copies) {
+      copies.set(id, previous?.get(id) ?? stringifyTagged(copy));
+    }
+
+    this.records.set(contextId, {
+      context: stringifyTagged(storable.context),
+      checkpoint_ids: storable.checkpoint_ids,
+      snapshot_ids: storable.snapshot_ids,
+      copies
+    });
+  }
+
+  async load(contextId: string): Promise<ASRGoTContext | undefined> {
+    const record = this.records.get(contextId);
+    if (!record) return undefined;
+
+    const copies = new Map<string, FrozenCopy>();
+    for (const [id, copy] of record.copies) {
+      copies.set(id, parseTagged<FrozenCopy>(copy));
+    }
+
+    return fromStoredContext({
+      context: parseTagged<ASRGoTContext>(record.context),
+      checkpoint_ids: record.checkpoint_ids,
+      snapshot_ids: record.snapshot_ids,
+      copies
+    }, this.copyIds);
+  }
+
+  async list(): Promise<string[]> {
+    return Array.from(this.records.keys());
+  }
+
+  async delete(contextId: string): Promise<boolean> {
+    return this.records.delete(contextId);
+  }
+}
+
+/**
+ * Append-only JSON-lines store on local disk
+ * Each save appends the context, plus any checkpoint or snapshot not stored yet on a line of its own;
+ * the most recent context line for an id wins.
+ * The file is compacted when first opened and again after every compactEvery saves,
+ * so it holds at most that many stale records. An index of where each live line sits
+ * lets loads read and parse only the lines of the context asked for.
+ */
+export class JsonlContextStore implements ContextStore {
+  private filePath: string;
+  private compactEvery: number;
+  private opened: boolean = false;
+  private appendsSinceCompaction: number = 0;
+  // Latest context line of each live context, with the checkpoints and snapshots it refers to
+  private contextLines: Map<string, { range: LineRange; copy_ids: string[] }> = new Map();
+  // Checkpoint and snapshot lines in the file, by context id, then copy id
+  private copyLines: Map<string, Map<string, LineRange>> = new Map();
+  private fileSize: number = 0;
+  private copyIds = new FrozenCopyIds();
+  // Operations run one at a time, so a compaction never drops a line appended while it rewrites the file
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string, options: { compactEvery?: number } = {}) {
+    this.filePath = filePath;
+    this.compactEvery = Math.max(1, Math.floor(options.compactEvery ?? 100));
+  }
+
+  async save(contextId: string, context: ASRGoTContext): Promise<void> {
+    await this.exclusive(async () => {
+      await this.open();
+
+      const storable = toStorableContext(context, this.copyIds);
+      const stored = this.copyLines.get(contextId) ?? new Map<string, LineRange>();
+      const savedAt = new Date().toISOString();
+      const copyLines: Array<[string, string]> = [];
+
+      for (const [id, value] of storable.copies) {
+        if (!stored.has(id)) {
+          copyLines.push([id, stringifyTagged({ context_id: contextId, saved_at: savedAt, copy: { id, value } })]);
+        }
+      }
+      const contextLine = stringifyTagged({
+        context_id: contextId,
+        saved_at: savedAt,
+        context: storable.context,
+        checkpoint_ids: storable.checkpoint_ids,
+        snapshot_ids: storable.snapshot_ids
+      });
+
+      const ranges = await this.appendLines([...copyLines.map(([, line]) => line), contextLine]);
+      copyLines.forEach(([id], index) => stored.set(id, ranges[index]));
+      this.copyLines.set(contextId, stored);
+      this.contextLines.set(contextId, { range: ranges[ranges.length - 1], copy_ids: Array.from(storable.copies.keys()) });
+      await this.compactIfDue();
+    });
+  }
+
+  async load(contextId: string): Promise<ASRGoTContext | undefined> {
+    return this.exclusive(async () => {
+      await this.open();
+      const indexed = this.contextLines.get(contextId);
+      if (!indexed) return undefined;
+
+      const stored = this.copyLines.get(contextId) ?? new Map<string, LineRange>();
+      const copyIds = indexed.copy_ids.filter(id => stored.has(id));
+      const [contextLine, ...copyLines] = await this.readRanges([indexed.range, ...copyIds.map(id => stored.get(id)!)]);
+
+      const record = parseTagged<StoredContextLine>(contextLine);
+      const copies = new Map<string, FrozenCopy>();
+      for (const line of copyLines) {
+        const { copy } = parseTagged<StoredContextLine>(line);
+        copies.set(copy!.id, copy!.value);
+      }
+
+      return fromStoredContext({
+        context: record.context!,
+        checkpoint_ids: record.checkpoint_ids,
+        snapshot_ids: record.snapshot_ids,
+        copies
+      }, this.copyIds);
+    });
+  }
+
+  async list(): Promise<string[]> {
+    return this.exclusive(async () => {
+      await this.open();
+      return Array.from(this.contextLines.keys());
+    });
+  }
+
+  async delete(contextId: string): Promise<boolean> {
+    return this.exclusive(async () => {
+      await this.open();
+      if (!this.contextLines.has(contextId)) return false;
+
+      await this.appendLines([stringifyTagged({
+        context_id: contextId,
+        saved_at: new Date().toISOString(),
+        deleted: true
+      })]);
+      this.contextLines.delete(contextId);
+      this.copyLines.delete(contextId);
+      await this.compactIfDue();
+      return true;
+    });
+  }
+
+  /**
+   * Rewrite the file keeping only the latest record of each live context and the copies it refers to
+   */
+  async compact(): Promise<void> {
+    await this.exclusive(() => this.rewriteLatest());
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.pending.then(task, task);
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  // Records left over from earlier server runs are dropped before the first operation
+  private async open(): Promise<void> {
+    if (this.opened) return;
+    await this.rewriteLatest();
+    this.opened = true;
+  }
+
+  // Once open, the index already knows which lines to keep, so they are copied without parsing them
+  private async rewriteLatest(): Promise<void> {
+    const live = this.opened ? await this.readIndexed() : await this.readLatest();
+    const lines: string[] = [];
+    const contextLines = new Map<string, { range: LineRange; copy_ids: string[] }>();
+    const copyLines = new Map<string, Map<string, LineRange>>();
+    let offset = 0;
+    const place = (line: string): LineRange => {
+      lines.push(line);
+      const range = { offset, length: Buffer.byteLength(line, 'utf8') };
+      offset += range.length + 1;
+      return range;
+    };
+
+    for (const { contextId, line, copy_ids, copies } of live) {
+      const stored = new Map<string, LineRange>();
+      for (const [id, copyLine] of copies) {
+        stored.set(id, place(copyLine));
+      }
+      copyLines.set(contextId, stored);
+      contextLines.set(contextId, { range: place(line), copy_ids });
+    }
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, lines.length > 0 ? lines.join('\n') + '\n' : '', 'utf8');
+    await fs.rename(tempPath, this.filePath);
+    this.contextLines = contextLines;
+    this.copyLines = copyLines;
+    this.fileSize = offset;
+    this.appendsSinceCompaction = 0;
+  }
+
+  // Where each appended line now sits in the file
+  private async appendLines(lines: string[]): Promise<LineRange[]> {
+    const ranges: LineRange[] = [];
+    let offset = this.fileSize;
+    for (const line of lines) {
+      const length = Buffer.byteLength(line, 'utf8');
+      ranges.push({ offset, length });
+      offset += length + 1;
+    }
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    try {
+      await fs.appendFile(this.filePath, lines.map(line => line + '\n').join(''), 'utf8');
+    } catch (error) {
+      // A partial append leaves the index behind the file; the next operation rebuilds it
+      this.opened = false;
+      throw error;
+    }
+    this.fileSize = offset;
+    return ranges;
+  }
+
+  private async readRanges(ranges: LineRange[]): Promise<string[]> {
+    const file = await fs.open(this.filePath, 'r');
+    try {
+      const lines: string[] = [];
+      for (const { offset, length } of ranges) {
+        const buffer = Buffer.alloc(length);
+        await file.read(buffer, 0, length, offset);
+        lines.push(buffer.toString('utf8'));
+      }
+      return lines;
+    } finally {
+      await file.close();
+    }
+  }
+
+  private async compactIfDue(): Promise<void> {
+    this.appendsSinceCompaction++;
+    if (this.appendsSinceCompaction >= this.compactEvery) {
+      await this.rewriteLatest();
+    }
+  }
+
+  // The indexed lines of every live context, read back as they are
+  private async readIndexed(): Promise<LiveContextLines[]> {
+    const live: LiveContextLines[] = [];
+    for (const [contextId, { range, copy_ids }] of this.contextLines) {
+      const stored = this.copyLines.get(contextId) ?? new Map<string, LineRange>();
+      const kept = [...new Set(copy_ids)].filter(id => stored.has(id));
+      const [line, ...copyLines] = await this.readRanges([range, ...kept.map(id => stored.get(id)!)]);
+      live.push({ contextId, line, copy_ids, copies: new Map(kept.map((id, index) => [id, copyLines[index]])) });
+    }
+    return live;
+  }
+
+  // Parse the whole file for the latest line of every live context and the copies it refers to
+  private async readLatest(): Promise<LiveContextLines[]> {
+    const latest = new Map<string, StoredContextLine>();
+    const copies = new Map<string, Map<string, FrozenCopy>>();
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as any).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+
+      try {
+        const record = parseTagged<StoredContextLine>(line);
+        if (record.copy) {
+          if (!copies.has(record.context_id)) {
+            copies.set(record.context_id, new Map());
+          }
+          copies.get(record.context_id)!.set(record.copy.id, record.copy.value);
+        } else if (record.deleted) {
+          latest.delete(record.context_id);
+          copies.delete(record.context_id);
+        } else {
+          latest.set(record.context_id, record);
+        }
+      } catch (parseError) {
+        // A torn write from a crash only loses that one record
+        console.warn(`Skipping unreadable line in ${this.filePath}:`, parseError);
+      }
+    }
+
+    return Array.from(latest, ([contextId, record]) => {
+      // Records written before checkpoints were stored apart still carry them inline
+      const copy_ids = [...(record.checkpoint_ids ?? []), ...(record.snapshot_ids ?? [])];
+      const available = copies.get(contextId) ?? new Map<string, FrozenCopy>();
+      const kept = new Map<string, string>();
+      for (const id of copy_ids) {
+        const value = available.get(id);
+        if (value && !kept.has(id)) {
+          kept.set(id, stringifyTagged({ context_id: contextId, saved_at: record.saved_at, copy: { id, value } }));
+        }
+      }
+      return { contextId, line: stringifyTagged(record), copy_ids, copies: kept };
+    });
+  }
+}
+
+/**
+ * Build the configured context store
+ * Defaults to a JSON-lines file in the research workspace (or ~/.asr-got)
+ */
+export function createContextStore(options: { type?: string; directory?: string } = {}): ContextStore {
+  const type = (options.type || 'jsonl') as ContextStoreType;
+
+  switch (type) {
+    case 'memory':
+      return new InMemoryContextStore();
+    case 'jsonl': {
+      const directory = options.directory || path.join(os.homedir(), '.asr-got');
+      return new JsonlContextStore(path.join(directory, 'contexts.jsonl'));
+    }
+    default:
+      console.warn(`Unknown context store "${options.type}", falling back to in-memory storage`);
+      return new InMemoryContextStore();
+  }
+}
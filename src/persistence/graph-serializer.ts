@@ -0,0 +1,202 @@
+import { z } from 'zod';
+import {
+  ASRGoTGraphState,
+  GraphNode,
+  GraphEdge,
+  Hyperedge,
+  NodeMetadataSchema,
+  EdgeMetadataSchema,
+  InfoMetricsSchema,
+  SerializedGraph
+} from '../types/index.js';
+
+export const GRAPH_FORMAT = 'asr-got-graph';
+export const GRAPH_FORMAT_VERSION = 1;
+
+/**
+ * Convert a graph state into the versioned envelope
+ * Output is plain JSON in insertion order, so successive exports diff cleanly
+ */
+export function serializeGraphState(state: ASRGoTGraphState): SerializedGraph {
+  const info_metrics: Record<string, any> = {};
+  for (const [nodeId, metrics] of state.info_metrics.entries()) {
+    info_metrics[nodeId] = toPlain(metrics);
+  }
+
+  return {
+    format: GRAPH_FORMAT,
+    version: GRAPH_FORMAT_VERSION,
+    exported_at: new Date().toISOString(),
+    graph: {
+      timestamp: state.timestamp.toISOString(),
+      nodes: Array.from(state.vertices.values()).map(node => ({
+        id: node.id,
+        metadata: toPlain(inSchemaOrder(node.metadata, NodeMetadataSchema))
+      })),
+      edges: Array.from(state.edges.values()).map(edge => ({
+        id: edge.id,
+        source: edge.source,
+        target: edge.target,
+        metadata: toPlain(inSchemaOrder(edge.metadata, EdgeMetadataSchema))
+      })),
+      hyperedges: Array.from(state.hyperedges.values()).map(hyperedge => ({
+        id: hyperedge.id,
+        nodes: [...hyperedge.nodes],
+        metadata: toPlain(inSchemaOrder(hyperedge.metadata, EdgeMetadataSchema))
+      })),
+      layers: Array.from(state.layers.keys()),
+      layer_parents: Object.fromEntries(state.layer_parents),
+      info_metrics
+    }
+  };
+}
+
+/**
+ * Rebuild a graph state from the envelope, validating every record
+ * Derived maps (node types, confidence, metadata, layers) are recomputed from the nodes
+ */
+export function deserializeGraphState(input: SerializedGraph | string): ASRGoTGraphState {
+  const envelope: SerializedGraph = typeof input === 'string' ? JSON.parse(input) : input;
+
+  if (!envelope || envelope.format !== GRAPH_FORMAT || !envelope.graph) {
+    throw new Error(`Not an ${GRAPH_FORMAT} document`);
+  }
+  if (typeof envelope.version !== 'number' || envelope.version > GRAPH_FORMAT_VERSION) {
+    throw new Error(`Unsupported ${GRAPH_FORMAT} version ${envelope.version} (supported: ${GRAPH_FORMAT_VERSION})`);
+  }
+
+  const state: ASRGoTGraphState = {
+    timestamp: parseDate(envelope.graph.timestamp, 'graph.timestamp'),
+    vertices: new Map(),
+    edges: new Map(),
+    hyperedges: new Map(),
+    layers: new Map(),
+    layer_parents: new Map(),
+    node_types: new Map(),
+    confidence_function: new Map(),
+    metadata_function: new Map(),
+    info_metrics: new Map()
+  };
+
+  // Recreate layers up front so that layers emptied by pruning or merging survive
+  for (const layerId of envelope.graph.layers || []) {
+    state.layers.set(layerId, []);
+  }
+  for (const [layerId, parentLayerId] of Object.entries(envelope.graph.layer_parents || {})) {
+    state.layer_parents.set(layerId, parentLayerId);
+  }
+
+  for (const record of envelope.graph.nodes || []) {
+    const metadata = parseRecord(NodeMetadataSchema, reviveNodeDates(record.metadata), `node ${record.id}`);
+    if (metadata.node_id !== record.id) {
+      throw new Error(`Node ${record.id}: metadata.node_id ${metadata.node_id} does not match`);
+    }
+
+    const node: GraphNode = { id: record.id, metadata };
+    state.vertices.set(node.id, node);
+    state.node_types.set(node.id, metadata.type);
+    state.confidence_function.set(node.id, metadata.confidence);
+    state.metadata_function.set(node.id, metadata);
+
+    if (metadata.layer_id) {
+      if (!state.layers.has(metadata.layer_id)) {
+        state.layers.set(metadata.layer_id, []);
+      }
+      state.layers.get(metadata.layer_id)!.push(node.id);
+    }
+  }
+
+  for (const record of envelope.graph.edges || []) {
+    const metadata = parseRecord(EdgeMetadataSchema, reviveEdgeDates(record.metadata), `edge ${record.id}`);
+    if (!state.vertices.has(record.source) || !state.vertices.has(record.target)) {
+      throw new Error(`Edge ${record.id} references a missing node (${record.source} -> ${record.target})`);
+    }
+
+    const edge: GraphEdge = { id: record.id, source: record.source, target: record.target, metadata };
+    state.edges.set(edge.id, edge);
+  }
+
+  for (const record of envelope.graph.hyperedges || []) {
+    const metadata = parseRecord(EdgeMetadataSchema, reviveEdgeDates(record.metadata), `hyperedge ${record.id}`);
+    if (!Array.isArray(record.nodes)) {
+      throw new Error(`Hyperedge ${record.id} has no nodes array`);
+    }
+    const missing = record.nodes.filter(nodeId => !state.vertices.has(nodeId));
+    if (missing.length > 0) {
+      throw new Error(`Hyperedge ${record.id} references missing nodes: ${missing.join(', ')}`);
+    }
+    if (new Set(record.nodes).size < 2) {
+      throw new Error(`Hyperedge ${record.id} needs at least two distinct nodes`);
+    }
+
+    const hyperedge: Hyperedge = { id: record.id, nodes: [...record.nodes], metadata };
+    state.hyperedges.set(hyperedge.id, hyperedge);
+  }
+
+  for (const [nodeId, metrics] of Object.entries(envelope.graph.info_metrics || {})) {
+    state.info_metrics.set(nodeId, parseRecord(InfoMetricsSchema, metrics, `info metrics for ${nodeId}`));
+  }
+
+  return state;
+}
+
+// Helper functions
+function toPlain(value: unknown): any {
+  // Dates become ISO strings; undefined optional fields are dropped
+  return JSON.parse(JSON.stringify(value));
+}
+
+// Schema parsing emits keys in schema order; match it so fields added later (e.g. topology metrics) serialize identically
+function inSchemaOrder(value: any, schema: z.AnyZodObject): any {
+  if (!value || typeof value !== 'object') return value;
+
+  const ordered: Record<string, unknown> = {};
+  for (const key of Object.keys(schema.shape)) {
+    if (key in value) ordered[key] = value[key];
+  }
+  for (const key of Object.keys(value)) {
+    if (!(key in ordered)) ordered[key] = value[key];
+  }
+  return ordered;
+}
+
+function parseDate(value: unknown, field: string): Date {
+  const date = value instanceof Date ? value : new Date(value as string);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date in ${field}: ${String(value)}`);
+  }
+  return date;
+}
+
+export function reviveNodeDates(metadata: any): any {
+  if (!metadata || typeof metadata !== 'object') return metadata;
+
+  return {
+    ...metadata,
+    timestamp: metadata.timestamp !== undefined ? parseDate(metadata.timestamp, 'timestamp') : undefined,
+    revision_history: Array.isArray(metadata.revision_history)
+      ? metadata.revision_history.map((revision: any) => ({
+        ...revision,
+        timestamp: parseDate(revision.timestamp, 'revision_history.timestamp')
+      }))
+      : metadata.revision_history
+  };
+}
+
+export function reviveEdgeDates(metadata: any): any {
+  if (!metadata || typeof metadata !== 'object') return metadata;
+
+  return {
+    ...metadata,
+    timestamp: metadata.timestamp !== undefined ? parseDate(metadata.timestamp, 'timestamp') : undefined
+  };
+}
+
+function parseRecord<T extends z.ZodTypeAny>(schema: T, value: unknown, label: string): z.infer<T> {
+  const parsed = schema.safeParse(value);
+  if (!parsed.success) {
+    const issues = parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ');
+    throw new Error(`Invalid ${label}: ${issues}`);
+  }
+  return parsed.data;
+}
@@ -0,0 +1,44 @@
+/**
+ * Lossless JSON encoding for ASR-GoT structures
+ * Maps and Dates are tagged so that graph states survive a JSON round-trip
+ */
+
+const MAP_TAG = '__asr_got_map__';
+const DATE_TAG = '__asr_got_date__';
+
+/**
+ * Stringify a value, preserving Map and Date instances at any depth
+ */
+export function stringifyTagged(value: unknown, space?: number): string {
+  return JSON.stringify(value, function (this: any, key: string, current: unknown) {
+    // Date.prototype.toJSON runs before the replacer, so read the raw value from the holder
+    const raw = this[key];
+
+    if (raw instanceof Date) {
+      return { [DATE_TAG]: raw.toISOString() };
+    }
+
+    if (raw instanceof Map) {
+      return { [MAP_TAG]: Array.from(raw.entries()) };
+    }
+
+    return current;
+  }, space);
+}
+
+/**
+ * Parse text produced by stringifyTagged, reviving Map and Date instances
+ */
+export function parseTagged<T = any>(text: string): T {
+  return JSON.parse(text, (_key: string, value: any) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      if (DATE_TAG in value) {
+        return new Date(value[DATE_TAG]);
+      }
+      if (MAP_TAG in value) {
+        return new Map(value[MAP_TAG]);
+      }
+    }
+    return value;
+  });
+}
@@ -0,0 +1,3011 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  ListToolsRequestSchema,
+  LoggingLevel,
+  LoggingLevelSchema,
+  McpError,
+  ProgressToken,
+  SetLevelRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { ASRGoTGraph } from './core/graph.js';
+import { GRAPH_EVENT_NAMES, GraphEventName } from './core/graph-events.js';
+import { ASRGoTPipeline, DEFAULT_COMPUTATIONAL_BUDGET } from './stages/pipeline.js';
+import { AnalysisRunRegistry } from './stages/analysis-runs.js';
+import { ASRGoTValidator } from './validation/schema-validator.js';
+import { EdgeGrammar, DEFAULT_EDGE_GRAMMAR } from './validation/edge-grammar.js';
+import { ContextStore, createContextStore } from './persistence/context-store.js';
+import { GraphExporter, GraphExportFormat, GRAPH_EXPORT_FORMATS } from './utils/graph-exporter.js';
+import { GraphImporter, GraphImportFormat, GRAPH_IMPORT_FORMATS } from './utils/graph-importer.js';
+import { AnalysisDiffer, AnalysisVersion } from './utils/analysis-differ.js';
+import { GraphQueryEngine } from './utils/graph-query.js';
+import { promises as fs } from 'fs';
+import { 
+  ResearchQuery, 
+  ASRGoTResponse, 
+  ASRGoTContext,
+  AnalysisSnapshot,
+  ComputationalBudget,
+  ComputationalBudgetSchema,
+  GraphPath,
+  PathDirection,
+  NodeType,
+  EdgeType 
+} from './types/index.js';
+
+// Subgraph filter shared by the extraction and export tools
+const SUBGRAPH_CRITERIA_SCHEMA = {
+  type: 'object',
+  properties: {
+    confidence_threshold: { type: 'number', minimum: 0, maximum: 1 },
+    impact_threshold: { type: 'number', minimum: 0, maximum: 1 },
+    node_types: { 
+      type: 'array', 
+      items: { 
+        type: 'string',
+        enum: ['root', 'dimension', 'hypothesis', 'evidence', 'placeholder_gap', 'interdisciplinary_bridge_node', 'super_node']
+      }
+    },
+    edge_types: { 
+      type: 'array', 
+      items: { 
+        type: 'string',
+        enum: ['correlative', 'supportive', 'contradictory', 'prerequisite', 'causal', 'temporal_precedence']
+      }
+    },
+    temporal_recency_days: { type: 'number', minimum: 0 },
+    focus_node_id: {
+      type: 'string',
+      description: 'Restrict to the ego network of this node (e.g. one hypothesis and its evidence)'
+    },
+    radius: {
+      type: 'integer',
+      minimum: 0,
+      maximum: 6,
+      description: 'Number of hops around focus_node_id',
+      default: 1
+    },
+    direction: {
+      type: 'string',
+      enum: ['outgoing', 'incoming', 'both'],
+      description: 'Edge direction followed from focus_node_id',
+      default: 'both'
+    },
+    as_of: {
+      type: 'string',
+      format: 'date-time',
+      description: 'ISO-8601 timestamp; extract from the graph as it was at that moment'
+    },
+    abstraction_level: {
+      type: 'integer',
+      minimum: 0,
+      description: 'Fold layers nested deeper than this level into their super-nodes (0: only nodes outside layers and top-level super-nodes); collapsed super-nodes are always folded'
+    }
+  }
+};
+
+// Budget overrides accepted by the tools that run pipeline stages; unset limits keep their current values
+const COMPUTATIONAL_BUDGET_SCHEMA = {
+  type: 'object',
+  description: 'Limits of the analysis (P1.21); stages degrade their work to stay within max_nodes and max_edges',
+  properties: {
+    max_nodes: { type: 'integer', minimum: 1, description: 'Most nodes the graph may hold (default: 1000)' },
+    max_edges: { type: 'integer', minimum: 1, description: 'Most edges the graph may hold (default: 5000)' },
+    max_execution_time_ms: { type: 'integer', minimum: 1, description: 'Time budget of a run in milliseconds (default: 300000)' },
+    max_pairwise_comparisons: { type: 'integer', minimum: 1, description: 'Node pairs Stage 5 compares for merging before sampling (default: 50000)' },
+    max_topology_cost: { type: 'integer', minimum: 1, description: 'Nodes x (nodes + edges) up to which Stage 6 computes global centrality (default: 5000000)' }
+  },
+  additionalProperties: false
+};
+
+// Validate a computational_budget tool argument
+function parseComputationalBudget(value: unknown): Partial<ComputationalBudget> | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const result = ComputationalBudgetSchema.partial().safeParse(value);
+  if (!result.success) {
+    const problems = result.error.errors.map(error => `${error.path.join('.') || 'computational_budget'}: ${error.message}`);
+    throw new McpError(ErrorCode.InvalidParams, `Invalid computational_budget: ${problems.join('; ')}`);
+  }
+  return result.data;
+}
+
+const DEFAULT_USER_PROFILE = {
+  identity: 'Dr. Saptaswa Dey',
+  experience: '>10 years in immunology, molecular biology, inflammatory diseases',
+  research_focus: ['skin_immunology', 'cutaneous_malignancies', 'CTCL', 'skin_microbiome'],
+  methodologies: ['genomic_analysis', 'microbiome_analysis', 'molecular_biology', 'machine_learning'],
+  philosophy: 'Holistic, interdisciplinary, curiosity-driven research'
+};
+
+// DXT substitutes user_config values into the environment; unset options arrive as empty or literal placeholders
+function readUserConfig(name: string): string | undefined {
+  const value = process.env[name];
+  if (!value || value.startsWith('${')) {
+    return undefined;
+  }
+  return value;
+}
+
+// MCP log level of each forwarded graph event; confidence updates are the noisiest
+const GRAPH_EVENT_LOG_LEVELS: Record<GraphEventName, LoggingLevel> = {
+  nodeAdded: 'info',
+  edgeAdded: 'info',
+  hyperedgeAdded: 'info',
+  confidenceUpdated: 'debug',
+  nodeMerged: 'info',
+  nodePruned: 'info',
+  ibnCreated: 'info'
+};
+
+/**
+ * Advanced Scientific Reasoning Graph-of-Thoughts MCP Server
+ * Implements the complete ASR-GoT framework with 8-stage pipeline and fail-safe mechanisms
+ * run() serves it on stdio; connect() attaches any other transport (as the tests do).
+ */
+export class ASRGoTMCPServer {
+  private server: Server;
+  private validator: ASRGoTValidator;
+  // Shared by every context graph and the validator
+  private edgeGrammar: EdgeGrammar;
+  private activeContexts: Map<string, ASRGoTContext>;
+  // Each context owns its pipeline, and with it its graph and fail-safe state
+  private contextPipelines: Map<string, ASRGoTPipeline>;
+  // Reloads from the context store in flight, so concurrent lookups share one graph
+  private pendingLoads: Map<string, Promise<ASRGoTContext | undefined>>;
+  // Pipeline runs in progress, for cancel_analysis and to hold off manual edits meanwhile
+  private analysisRuns: AnalysisRunRegistry;
+  private contextStore: ContextStore;
+  private exporter: GraphExporter;
+  private importer: GraphImporter;
+  private differ: AnalysisDiffer;
+  private queryEngine: GraphQueryEngine;
+  // Minimum level of log messages sent to the client (set through logging/setLevel)
+  private loggingLevel: LoggingLevel = 'info';
+
+  constructor(options: { contextStore?: ContextStore } = {}) {
+    this.server = new Server(
+      {
+        name: 'asr-got-scientific-reasoning',
+        version: '1.0.0',
+      }
+    );
+
+    this.edgeGrammar = new EdgeGrammar(DEFAULT_EDGE_GRAMMAR, {
+      strict: readUserConfig('ASR_GOT_STRICT_EDGE_GRAMMAR') === 'true'
+    });
+    this.validator = new ASRGoTValidator(this.edgeGrammar);
+    this.exporter = new GraphExporter();
+    this.importer = new GraphImporter(this.validator);
+    this.differ = new AnalysisDiffer();
+    this.queryEngine = new GraphQueryEngine();
+    this.activeContexts = new Map();
+    this.contextPipelines = new Map();
+    this.pendingLoads = new Map();
+    this.analysisRuns = new AnalysisRunRegistry();
+    this.contextStore = options.contextStore ?? createContextStore({
+      type: readUserConfig('ASR_GOT_CONTEXT_STORE'),
+      directory: readUserConfig('ASR_GOT_WORKSPACE')
+    });
+
+    this.setupTools();
+    this.setupLogging();
+    this.setupErrorHandling();
+  }
+
+  private setupLogging(): void {
+    this.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      this.loggingLevel = request.params.level;
+      return {};
+    });
+  }
+
+  /**
+   * Forward a graph's change feed to the client while a tool runs, so it can watch the graph grow
+   * Each event is sent as an MCP log message; when the request carried a progress token, a progress
+   * notification counting the events is sent as well. Returns a function that stops forwarding.
+   */
+  private forwardGraphEvents(graph: ASRGoTGraph, contextId: string, progressToken?: ProgressToken): () => void {
+    const levels = LoggingLevelSchema.options;
+    let eventCount = 0;
+
+    const unsubscribers = GRAPH_EVENT_NAMES.map(event => graph.on(event, (payload: any) => {
+      eventCount++;
+      const level = GRAPH_EVENT_LOG_LEVELS[event];
+
+      // Notification failures (e.g. no connected client) never affect the analysis
+      if (levels.indexOf(level) >= levels.indexOf(this.loggingLevel)) {
+        this.server.sendLoggingMessage({
+          level,
+          logger: 'asr-got-graph',
+          data: { context_id: contextId, event, ...this.describeGraphEvent(event, payload) }
+        }).catch(() => undefined);
+      }
+
+      if (progressToken !== undefined) {
+        this.server.notification({
+          method: 'notifications/progress',
+          params: { progressToken, progress: eventCount }
+        }).catch(() => undefined);
+      }
+    }));
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  // Event payloads carry live graph objects; send only what a client needs to follow along
+  private describeGraphEvent(event: GraphEventName, payload: any): Record<string, unknown> {
+    switch (event) {
+      case 'nodeAdded':
+        return { node_id: payload.node.id, label: payload.node.metadata.label, type: payload.node.metadata.type };
+      case 'edgeAdded':
+        return {
+          edge_id: payload.edge.id,
+          source: payload.edge.source,
+          target: payload.edge.target,
+          type: payload.edge.metadata.edge_type
+        };
+      case 'hyperedgeAdded':
+        return {
+          hyperedge_id: payload.hyperedge.id,
+          nodes: payload.hyperedge.nodes,
+          type: payload.hyperedge.metadata.edge_type
+        };
+      default:
+        return payload;
+    }
+  }
+
+  private setupTools(): void {
+    // List available tools
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+      return {
+        tools: [
+          {
+            name: 'execute_asr_got_analysis',
+            description: 'Execute complete ASR-GoT analysis pipeline on a research query',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                query: {
+                  type: 'string',
+                  description: 'The research question or topic to analyze',
+                },
+                domain: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Disciplinary domains for the analysis',
+                  default: ['general'],
+                },
+                complexity_level: {
+                  type: 'string',
+                  enum: ['basic', 'intermediate', 'advanced'],
+                  description: 'Complexity level of the analysis',
+                  default: 'intermediate',
+                },
+                expected_depth: {
+                  type: 'string',
+                  enum: ['overview', 'detailed', 'comprehensive'],
+                  description: 'Expected depth of analysis',
+                  default: 'detailed',
+                },
+                interdisciplinary: {
+                  type: 'boolean',
+                  description: 'Whether to focus on interdisciplinary connections',
+                  default: true,
+                },
+                seed: {
+                  type: 'integer',
+                  minimum: 0,
+                  maximum: 4294967295,
+                  description: 'Seed for the random choices of the pipeline; the same query and seed give the same graph (default: random, returned as seed)',
+                },
+                computational_budget: COMPUTATIONAL_BUDGET_SCHEMA,
+                user_profile: {
+                  type: 'object',
+                  properties: {
+                    identity: { type: 'string', default: 'Researcher' },
+                    experience: { type: 'string', default: 'Experienced researcher' },
+                    research_focus: { 
+                      type: 'array', 
+                      items: { type: 'string' },
+                      default: ['general_research']
+                    },
+                    methodologies: { 
+                      type: 'array', 
+                      items: { type: 'string' },
+                      default: ['systematic_analysis']
+                    },
+                    philosophy: { type: 'string', default: 'Evidence-based research' }
+                  },
+                  default: {
+                    identity: 'Dr. Saptaswa Dey',
+                    experience: '>10 years in immunology, molecular biology, inflammatory diseases',
+                    research_focus: ['skin_immunology', 'cutaneous_malignancies', 'CTCL', 'skin_microbiome'],
+                    methodologies: ['genomic_analysis', 'microbiome_analysis', 'molecular_biology', 'machine_learning'],
+                    philosophy: 'Holistic, interdisciplinary, curiosity-driven research'
+                  }
+                }
+              },
+              required: ['query'],
+            },
+          },
+          {
+            name: 'get_analysis_status',
+            description: 'Get the status of an ongoing or completed analysis',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                context_id: {
+                  type: 'string',
+                  description: 'ID of the analysis context',
+                },
+              },
+              required: ['context_id'],
+            },
+          },
+          {
+            name: 'extract_subgraph',
+            description: 'Extract specific subgraph from completed analysis',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                context_id: {
+                  type: 'string',
+                  description: 'ID of the analysis context',
+                },
+                criteria: SUBGRAPH_CRITERIA_SCHEMA
+              },
+              required: ['context_id'],
+            },
+          },
+          {
+            name: 'validate_graph_structure',
+            description: 'Validate the integrity and consistency of graph structures',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                context_id: {
+                  type: 'string',
+                  description: 'ID of the analysis context',
+                },
+                validation_level: {
+                  type: 'string',
+                  enum: ['basic', 'comprehensive'],
+                  description: 'Level of validation to perform',
+                  default: 'basic'
+                }
+              },
+              required: ['context_id'],
+            },
+          },
+          {
+            name: 'get_research_insights',
+            description: 'Generate specific research insights and recommendations',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                context_id: {
+                  type: 'string',
+                  description: 'ID of the analysis context',
+                },
+                focus_area: {
+                  type: 'string',
+                  enum: ['gaps', 'interventions', 'causality', 'temporal_patterns', 'interdisciplinary', 'clusters'],
+                  description: 'Specific area of insight generation',
+                  default: 'gaps'
+                },
+                as_of: {
+                  type: 'string',
+                  format: 'date-time',
+                  description: 'ISO-8601 timestamp; generate insights from the graph as it was at that moment',
+                }
+              },
+              required: ['context_id'],
+            },
+          },
+          {
+            name: 'export_graph',
+            description: 'Export an analysis graph (or a filtered subgraph) as GraphML, GEXF, DOT, Cytoscape JSON or Mermaid',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                context_id: {
+                  type: 'string',
+                  description: 'ID of the analysis context',
+                },
+                format: {
+                  type: 'string',
+                  enum: GRAPH_EXPORT_FORMATS,
+                  description: 'Target format: graphml (Gephi/yEd, native hyperedges), gexf (Gephi), dot (Graphviz), cytoscape (Cytoscape.js JSON) or mermaid (Markdown diagrams)',
+                  default: 'graphml'
+                },
+                criteria: SUBGRAPH_CRITERIA_SCHEMA
+              },
+              required: ['context_id'],
+            },
+          },
+          {
+            name: 'import_graph',
+            description: 'Import a GraphML, Cytoscape JSON or native ASR-GoT graph into a new analysis context, optionally continuing the pipeline from a chosen stage',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                format: {
+                  type: 'string',
+                  enum: GRAPH_IMPORT_FORMATS,
+                  description: 'Source format: graphml, cytoscape (Cytoscape.js JSON) or native (asr-got-graph envelope)',
+                },
+                content: {
+                  type: 'string',
+                  description: 'Graph document to import (alternative to file_path)',
+                },
+                file_path: {
+                  type: 'string',
+                  description: 'Path of a graph file to import (alternative to content)',
+                },
+                query: {
+                  type: 'string',
+                  description: 'Research question for the continued analysis',
+                },
+                domain: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Disciplinary domains for the continued analysis',
+                  default: ['general'],
+                },
+                start_stage: {
+                  type: 'number',
+                  minimum: 1,
+                  maximum: 8,
+                  description: 'Continue the pipeline from this stage (1-8); omit to import without running any stage',
+                },
+                computational_budget: COMPUTATIONAL_BUDGET_SCHEMA,
+                user_profile: {
+                  type: 'object',
+                  description: 'Optional user profile for personalized analysis',
+                }
+              },
+              required: ['format'],
+            },
+          },
+          {
+            name: 'find_paths',
+            description: 'Trace reasoning chains between two nodes: the shortest path, the highest-confidence path and bounded-length simple paths, with edge types and causal/temporal metadata per hop',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                context_id: {
+                  type: 'string',
+                  description: 'ID of the analysis context',
+                },
+                source_id: {
+                  type: 'string',
+                  description: 'Node to start from (e.g. an evidence node)',
+                },
+                target_id: {
+                  type: 'string',
+                  description: 'Node to reach (e.g. the root question)',
+                },
+                direction: {
+                  type: 'string',
+                  enum: ['outgoing', 'incoming', 'both'],
+                  description: 'Follow edges source-to-target (outgoing), in reverse (incoming) or either way (both)',
+                  default: 'both'
+                },
+                max_length: {
+                  type: 'number',
+                  minimum: 1,
+                  maximum: 8,
+                  description: 'Maximum number of hops for the simple-path enumeration',
+                  default: 4
+                },
+                max_paths: {
+                  type: 'number',
+                  minimum: 1,
+                  maximum: 100,
+                  description: 'Maximum number of simple paths to return',
+                  default: 20
+                }
+              },
+              required: ['context_id', 'source_id', 'target_id'],
+            },
+          },
+          {
+            name: 'undo_last_change',
+            description: 'Undo (or redo) the most recent graph edits in an analysis context, e.g. a wrong merge or prune made during manual review',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                context_id: {
+                  type: 'string',
+                  description: 'ID of the analysis context',
+                },
+                steps: {
+                  type: 'number',
+                  minimum: 1,
+                  maximum: 50,
+                  description: 'Number of operations to undo (or redo)',
+                  default: 1
+                },
+                redo: {
+                  type: 'boolean',
+                  description: 'Re-apply previously undone operations instead of undoing',
+                  default: false
+                }
+              },
+              required: ['context_id'],
+            },
+          },
+          {
+            name: 'get_change_log',
+            description: 'List the recorded graph operations of an analysis context (node and edge additions, confidence updates, manual edits, IBNs, merges, prunes, removals), most recent first',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                context_id: {
+                  type: 'string',
+                  description: 'ID of the analysis context',
+                },
+                limit: {
+                  type: 'number',
+                  minimum: 1,
+                  maximum: 500,
+                  description: 'Maximum number of operations to return',
+                  default: 50
+                }
+              },
+              required: ['context_id'],
+            },
+          },
+          {
+            name: 'create_snapshot',
+            description: 'Save a named snapshot of an analysis context (graph and stage results) to compare against later',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                context_id: {
+                  type: 'string',
+                  description: 'ID of the analysis context',
+                },
+                name: {
+                  type: 'string',
+                  description: 'Snapshot name; an existing snapshot with the same name is replaced (default: snapshot_N)',
+                }
+              },
+              required: ['context_id'],
+            },
+          },
+          {
+            name: 'compare_analyses',
+            description: 'Diff two versions of an analysis (snapshots or contexts): added, removed and merged nodes, edges whose type changed, hypothesis confidence deltas and the quality score shift',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                context_id: {
+                  type: 'string',
+                  description: 'Context holding the earlier version',
+                },
+                snapshot: {
+                  type: 'string',
+                  description: 'Snapshot of context_id to use as the earlier version; omit for its current state',
+                },
+                compare_context_id: {
+                  type: 'string',
+                  description: 'Context holding the later version (default: context_id)',
+                },
+                compare_snapshot: {
+                  type: 'string',
+                  description: 'Snapshot of the later context to compare; omit for its current state',
+                }
+              },
+              required: ['context_id'],
+            },
+          },
+          {
+            name: 'query_graph',
+            description: 'Run an ad-hoc query over the nodes or edges of an analysis context: filter on metadata, topology metrics and edge patterns (e.g. hypotheses with at least two contradictory evidence edges and empirical_support below 0.4), then project, sort or aggregate the matches',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                context_id: {
+                  type: 'string',
+                  description: 'ID of the analysis context',
+                },
+                query: {
+                  type: 'object',
+                  description: 'JSON query. target: "nodes" (default) or "edges". where: a condition — {field, op, value} with op one of =, !=, <, <=, >, >=, in, contains, exists; {and: [...]}, {or: [...]}, {not: ...}; on nodes {edges: {direction, where, neighbor}, op, value} to count matching incident edges (default: at least one); on edges {source: ...} or {target: ...} to test an endpoint node. Fields are dot paths into metadata (e.g. type, confidence.empirical_support, topology_metrics.pagerank, edge_type) plus id, degree, in_degree, out_degree, hyperdegree, mean_confidence and, on edges, source and target. select: fields to return. order_by: [{field, direction}]. aggregate: {group_by, metrics: [{fn: count|sum|avg|min|max, field, as}]}. limit: 1-1000 (default 100).',
+                  properties: {
+                    target: { type: 'string', enum: ['nodes', 'edges'] },
+                    where: { type: 'object' },
+                    select: { type: 'array', items: { type: 'string' } },
+                    order_by: { type: 'array', items: { type: 'object' } },
+                    aggregate: { type: 'object' },
+                    limit: { type: 'number', minimum: 1, maximum: 1000 }
+                  }
+                },
+                as_of: {
+                  type: 'string',
+                  description: 'ISO-8601 timestamp; query the graph as it was at that moment, reconstructed from the change log',
+                }
+              },
+              required: ['context_id', 'query'],
+            },
+          },
+          {
+            name: 'create_super_node',
+            description: 'Group nodes under a super-node that stands for them at a higher abstraction level, aggregating their confidence and impact (e.g. a hypothesis with all of its evidence)',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                context_id: {
+                  type: 'string',
+                  description: 'ID of the analysis context',
+                },
+                label: {
+                  type: 'string',
+                  description: 'Label of the super-node',
+                },
+                member_ids: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Nodes to group; they move into a new child layer of their deepest common layer',
+                },
+                layer_id: {
+                  type: 'string',
+                  description: 'ID for the new child layer (default: generated)',
+                },
+                collapsed: {
+                  type: 'boolean',
+                  description: 'Show the super-node instead of its members right away',
+                  default: false
+                }
+              },
+              required: ['context_id', 'label', 'member_ids'],
+            },
+          },
+          {
+            name: 'collapse_super_node',
+            description: 'Collapse a super-node so that it replaces its members in extracted subgraphs, or expand it again',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                context_id: {
+                  type: 'string',
+                  description: 'ID of the analysis context',
+                },
+                super_node_id: {
+                  type: 'string',
+                  description: 'Super-node to collapse or expand',
+                },
+                expand: {
+                  type: 'boolean',
+                  description: 'Expand the super-node instead of collapsing it',
+                  default: false
+                }
+              },
+              required: ['context_id', 'super_node_id'],
+            },
+          },
+          {
+            name: 'update_node',
+            description: 'Curate a node by hand: overwrite metadata fields such as label, type, confidence, impact_score, disciplinary_tags or layer_id, validated against the node schema',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                context_id: {
+                  type: 'string',
+                  description: 'ID of the analysis context',
+                },
+                node_id: {
+                  type: 'string',
+                  description: 'Node to update',
+                },
+                changes: {
+                  type: 'object',
+                  description: 'Metadata fields to overwrite; null clears an optional field. node_id and revision_history cannot be changed',
+                },
+                author: {
+                  type: 'string',
+                  description: 'Name recorded in the revision history of the affected nodes (default: User)',
+                }
+              },
+              required: ['context_id', 'node_id', 'changes'],
+            },
+          },
+          {
+            name: 'update_edge',
+            description: 'Curate an edge by hand: change its type, confidence or causal/temporal metadata, validated against the edge schema',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                context_id: {
+                  type: 'string',
+                  description: 'ID of the analysis context',
+                },
+                edge_id: {
+                  type: 'string',
+                  description: 'Edge to update',
+                },
+                changes: {
+                  type: 'object',
+                  description: 'Metadata fields to overwrite, e.g. {"edge_type": "causal"}; null clears an optional field',
+                },
+                author: {
+                  type: 'string',
+                  description: 'Name recorded in the revision history of the affected nodes (default: User)',
+                }
+              },
+              required: ['context_id', 'edge_id', 'changes'],
+            },
+          },
+          {
+            name: 'remove_edge',
+            description: 'Remove a single edge from an analysis graph, keeping both of its nodes',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                context_id: {
+                  type: 'string',
+                  description: 'ID of the analysis context',
+                },
+                edge_id: {
+                  type: 'string',
+                  description: 'Edge to remove',
+                },
+                author: {
+                  type: 'string',
+                  description: 'Name recorded in the revision history of the affected nodes (default: User)',
+                }
+              },
+              required: ['context_id', 'edge_id'],
+            },
+          },
+          {
+            name: 'remove_hyperedge',
+            description: 'Remove a hyperedge (n-ary relation) from an analysis graph, keeping its member nodes',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                context_id: {
+                  type: 'string',
+                  description: 'ID of the analysis context',
+                },
+                hyperedge_id: {
+                  type: 'string',
+                  description: 'Hyperedge to remove',
+                },
+                author: {
+                  type: 'string',
+                  description: 'Name recorded in the revision history of the affected nodes (default: User)',
+                }
+              },
+              required: ['context_id', 'hyperedge_id'],
+            },
+          },
+          {
+            name: 'run_stage',
+            description: 'Run or re-run a single pipeline stage on an existing analysis, optionally starting from the checkpoint taken after the previous stage',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                context_id: {
+                  type: 'string',
+                  description: 'ID of the analysis context',
+                },
+                stage: {
+                  type: 'number',
+                  minimum: 1,
+                  maximum: 8,
+                  description: 'Stage to run (1-8)',
+                },
+                computational_budget: COMPUTATIONAL_BUDGET_SCHEMA,
+                restore_checkpoint: {
+                  type: 'boolean',
+                  description: 'First put the graph back to the checkpoint taken after the previous stage, discarding later changes (undoable)',
+                  default: false
+                }
+              },
+              required: ['context_id', 'stage'],
+            },
+          },
+          {
+            name: 'resume_analysis',
+            description: 'Continue an analysis from the stage after its current one, or re-run a range of stages (e.g. stages 4-8 after adding evidence by hand)',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                context_id: {
+                  type: 'string',
+                  description: 'ID of the analysis context',
+                },
+                from_stage: {
+                  type: 'number',
+                  minimum: 1,
+                  maximum: 8,
+                  description: 'First stage to run (default: the stage after current_stage)',
+                },
+                to_stage: {
+                  type: 'number',
+                  minimum: 1,
+                  maximum: 8,
+                  description: 'Last stage to run (default: 8)',
+                },
+                computational_budget: COMPUTATIONAL_BUDGET_SCHEMA,
+                restore_checkpoint: {
+                  type: 'boolean',
+                  description: 'First put the graph back to the checkpoint taken after the previous stage, discarding later changes (undoable)',
+                  default: false
+                }
+              },
+              required: ['context_id'],
+            },
+          },
+          {
+            name: 'cancel_analysis',
+            description: 'Stop the pipeline stages running for a context; completed stages are kept and the interrupted one is rolled back',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                context_id: {
+                  type: 'string',
+                  description: 'ID of the analysis context (sent with every graph log message while it runs)',
+                },
+                reason: {
+                  type: 'string',
+                  description: 'Reason recorded with the cancellation',
+                  default: 'Cancelled by user'
+                }
+              },
+              required: ['context_id'],
+            },
+          }
+        ],
+      };
+    });
+
+    // Handle tool calls
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      const progressToken = request.params._meta?.progressToken;
+
+      try {
+        // Enhanced logging for DXT environment
+        console.error(`[ASR-GoT MCP Server] Tool called: ${name}`);
+        console.error(`[ASR-GoT MCP Server] Arguments: ${JSON.stringify(args)}`);
+
+        let result;
+        switch (name) {
+          case 'execute_asr_got_analysis':
+            result = await this.executeAnalysis(args, progressToken);
+            break;
+          case 'get_analysis_status':
+            result = await this.getAnalysisStatus(args);
+            break;
+          case 'extract_subgraph':
+            result = await this.extractSubgraph(args);
+            break;
+          case 'validate_graph_structure':
+            result = await this.validateGraphStructure(args);
+            break;
+          case 'get_research_insights':
+            result = await this.getResearchInsights(args);
+            break;
+          case 'export_graph':
+            result = await this.exportGraph(args);
+            break;
+          case 'import_graph':
+            result = await this.importGraph(args, progressToken);
+            break;
+          case 'find_paths':
+            result = await this.findPaths(args);
+            break;
+          case 'undo_last_change':
+            result = await this.undoLastChange(args);
+            break;
+          case 'get_change_log':
+            result = await this.getChangeLog(args);
+            break;
+          case 'create_snapshot':
+            result = await this.createSnapshot(args);
+            break;
+          case 'compare_analyses':
+            result = await this.compareAnalyses(args);
+            break;
+          case 'query_graph':
+            result = await this.queryGraph(args);
+            break;
+          case 'create_super_node':
+            result = await this.createSuperNode(args);
+            break;
+          case 'collapse_super_node':
+            result = await this.collapseSuperNode(args);
+            break;
+          case 'update_node':
+            result = await this.updateNode(args);
+            break;
+          case 'update_edge':
+            result = await this.updateEdge(args);
+            break;
+          case 'remove_edge':
+            result = await this.removeEdge(args);
+            break;
+          case 'remove_hyperedge':
+            result = await this.removeHyperedge(args);
+            break;
+          case 'run_stage':
+            result = await this.runStage(args, progressToken);
+            break;
+          case 'resume_analysis':
+            result = await this.resumeAnalysis(args, progressToken);
+            break;
+          case 'cancel_analysis':
+            result = await this.cancelAnalysis(args);
+            break;
+          default:
+            throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+        }
+
+        console.error(`[ASR-GoT MCP Server] Tool ${name} executed successfully`);
+        return result;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+        console.error(`[ASR-GoT MCP Server] Tool ${name} failed: ${errorMessage}`);
+        
+        if (error instanceof McpError) {
+          throw error;
+        }
+        throw new McpError(ErrorCode.InternalError, `Tool execution failed: ${errorMessage}`);
+      }
+    });
+  }
+
+  private async executeAnalysis(args: any, progressToken?: ProgressToken): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    const startTime = Date.now();
+    let context: ASRGoTContext | null = null;
+    let contextId: string = this.generateContextId();
+    
+    try {
+      // Validate input with better error handling
+      if (!args || !args.query || typeof args.query !== 'string') {
+        throw new Error('Invalid input: query is required and must be a string');
+      }
+
+      const query: ResearchQuery = {
+        query: args.query.trim(),
+        domain: Array.isArray(args.domain) ? args.domain : ['general'],
+        complexity_level: ['basic', 'intermediate', 'advanced'].includes(args.complexity_level) 
+          ? args.complexity_level : 'intermediate',
+        expected_depth: ['overview', 'detailed', 'comprehensive'].includes(args.expected_depth)
+          ? args.expected_depth : 'detailed',
+        interdisciplinary: args.interdisciplinary !== false
+      };
+
+      if (args.seed !== undefined) {
+        if (!Number.isInteger(args.seed) || args.seed < 0 || args.seed > 0xffffffff) {
+          throw new Error('Invalid input: seed must be an integer between 0 and 4294967295');
+        }
+        query.seed = args.seed;
+      }
+
+      const userProfile = args.user_profile || DEFAULT_USER_PROFILE;
+      const budget = parseComputationalBudget(args.computational_budget);
+
+      // Use timeout from computational budget or default to 5 minutes
+      const timeoutMs = budget?.max_execution_time_ms ?? (userProfile.computational_timeout_ms || 300000);
+
+      // Execute ASR-GoT pipeline with timeout protection: on timeout it stops and keeps the stages completed
+      const run = this.analysisRuns.begin(contextId, timeoutMs);
+      try {
+        const pipeline = new ASRGoTPipeline();
+        pipeline.getGraph().setEdgeGrammar(this.edgeGrammar);
+        const stopForwarding = this.forwardGraphEvents(pipeline.getGraph(), contextId, progressToken);
+        try {
+          context = await pipeline.executeComplete(query, userProfile, { signal: run.signal, budget });
+        } finally {
+          stopForwarding();
+        }
+
+        // Store context for future reference
+        await this.storeContext(contextId, context, pipeline);
+      } finally {
+        run.end();
+      }
+
+      // Create comprehensive response
+      const response: ASRGoTResponse = {
+        success: !context.cancellation,
+        stage: context.current_stage,
+        result: {
+          context_id: contextId,
+          seed: context.seed,
+          cancellation: context.cancellation ?? null,
+          analysis_summary: this.safeGenerateAnalysisSummary(context),
+          final_narrative: (context as any).final_narrative || this.generateFallbackNarrative(query.query),
+          quality_score: (context as any).quality_score || 0.5,
+          fail_safe_mode: context.fail_safe_active,
+          execution_time_ms: context.stage_results.reduce((total, result) => total + result.execution_time_ms, 0)
+        },
+        graph_summary: {
+          total_nodes: context.graph_state?.vertices?.size || 0,
+          total_edges: context.graph_state?.edges?.size || 0,
+          total_hyperedges: context.graph_state?.hyperedges?.size || 0,
+          current_stage: context.current_stage
+        },
+        errors: context.stage_results?.flatMap(r => r.errors) || [],
+        warnings: context.stage_results?.flatMap(r => r.warnings) || []
+      };
+
+      // Format response according to MCP specification
+      const formattedResponse = {
+        type: 'text' as const,
+        text: JSON.stringify(response, null, 2)
+      };
+      
+      return { content: [formattedResponse] };
+
+    } catch (error) {
+      console.error('Analysis execution failed:', error);
+      
+      // Create comprehensive fail-safe response
+      const executionTime = Date.now() - startTime;
+      const failSafeResponse: ASRGoTResponse = {
+        success: false,
+        stage: context?.current_stage || 0,
+        result: {
+          context_id: contextId,
+          error: `Analysis failed: ${(error as Error).message}`,
+          fail_safe_activated: true,
+          analysis_summary: this.generateEmergencyAnalysisSummary(args.query, executionTime),
+          final_narrative: this.generateFallbackNarrative(args.query || 'Unknown query'),
+          quality_score: 0.1,
+          execution_time_ms: executionTime
+        },
+        graph_summary: {
+          total_nodes: context?.graph_state?.vertices?.size || 0,
+          total_edges: context?.graph_state?.edges?.size || 0,
+          total_hyperedges: context?.graph_state?.hyperedges?.size || 0,
+          current_stage: context?.current_stage || 0
+        },
+        errors: [
+          (error as Error).message,
+          ...(context?.stage_results?.flatMap(r => r.errors) || [])
+        ],
+        warnings: [
+          'Analysis failed, emergency output generated',
+          'Partial results may be available through individual stage inspection',
+          ...(context?.stage_results?.flatMap(r => r.warnings) || [])
+        ]
+      };
+
+      // Store context even if failed (for debugging)
+      if (context) {
+        this.activeContexts.set(contextId, context);
+      }
+
+      // Format fail-safe response according to MCP specification
+      const formattedFailSafeResponse = {
+        type: 'text' as const,
+        text: JSON.stringify(failSafeResponse, null, 2)
+      };
+      
+      return { content: [formattedFailSafeResponse] };
+    }
+  }
+
+  private async getAnalysisStatus(args: any): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const contextId = args.context_id;
+      
+      if (!contextId) {
+        throw new McpError(ErrorCode.InvalidRequest, 'context_id is required');
+      }
+      
+      const context = await this.resolveContext(contextId);
+
+      if (!context) {
+        throw new McpError(ErrorCode.InvalidRequest, `Context ${contextId} not found`);
+      }
+
+      const status = {
+        context_id: contextId,
+        current_stage: context.current_stage,
+        stages_completed: context.stage_results.filter(r => r.success).length,
+        total_stages: this.getContextPipeline(contextId).getStages().length,
+        fail_safe_active: context.fail_safe_active,
+        seed: context.seed ?? null,
+        graph_statistics: {
+          nodes: context.graph_state.vertices.size,
+          edges: context.graph_state.edges.size,
+          hyperedges: context.graph_state.hyperedges.size,
+          layers: context.graph_state.layers.size,
+          super_nodes: Array.from(context.graph_state.vertices.values())
+            .filter(node => node.metadata.type === NodeType.SUPER_NODE).length
+        },
+        stage_details: context.stage_results.map(result => ({
+          stage: result.stage,
+          name: result.stage_name,
+          success: result.success,
+          execution_time_ms: result.execution_time_ms,
+          nodes_created: result.nodes_created.length,
+          edges_created: result.edges_created.length,
+          errors: result.errors.length,
+          warnings: result.warnings.length
+        })),
+        snapshots: (context.snapshots ?? []).map(snapshot => ({
+          name: snapshot.name,
+          created_at: snapshot.created_at,
+          nodes: snapshot.graph_state.vertices.size,
+          edges: snapshot.graph_state.edges.size
+        })),
+        checkpoints: (context.checkpoints ?? []).map(checkpoint => ({
+          after_stage: checkpoint.stage,
+          stage_name: checkpoint.stage_name,
+          created_at: checkpoint.created_at,
+          nodes: checkpoint.graph_state.vertices.size,
+          edges: checkpoint.graph_state.edges.size
+        }))
+      };
+
+      const formattedStatus = {
+        type: 'text' as const,
+        text: JSON.stringify(status, null, 2)
+      };
+      
+      return { content: [formattedStatus] };
+    } catch (error) {
+      const errorResponse = {
+        type: 'text' as const,
+        text: JSON.stringify({
+          error: `Status check failed: ${(error as Error).message}`,
+          context_id: args.context_id || 'unknown',
+          available_contexts: Array.from(this.activeContexts.keys())
+        }, null, 2)
+      };
+      
+      return { content: [errorResponse] };
+    }
+  }
+
+  private async extractSubgraph(args: any): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const contextId = args.context_id;
+      
+      if (!contextId) {
+        throw new McpError(ErrorCode.InvalidRequest, 'context_id is required');
+      }
+      
+      const context = await this.resolveContext(contextId);
+
+      if (!context) {
+        throw new McpError(ErrorCode.InvalidRequest, `Context ${contextId} not found`);
+      }
+
+      const criteria = args.criteria || {};
+      const graph = this.getContextGraph(contextId);
+      
+      this.normalizeSubgraphCriteria(criteria);
+
+      const subgraph = graph.extractSubgraph(criteria);
+
+      const result = {
+        context_id: contextId,
+        subgraph_summary: {
+          nodes_count: subgraph.nodes.length,
+          edges_count: subgraph.edges.length,
+          hyperedges_count: subgraph.hyperedges.length,
+          extraction_criteria: criteria,
+          ...(criteria.as_of && { history_complete: criteria.as_of >= graph.getHistoryStart() })
+        },
+        nodes: subgraph.nodes.map(node => ({
+          id: node.id,
+          label: node.metadata.label,
+          type: node.metadata.type,
+          confidence: node.metadata.confidence,
+          impact_score: node.metadata.impact_score,
+          disciplinary_tags: node.metadata.disciplinary_tags,
+          created: node.metadata.timestamp
+        })),
+        edges: subgraph.edges.map(edge => ({
+          id: edge.id,
+          source: edge.source,
+          target: edge.target,
+          type: edge.metadata.edge_type,
+          confidence: edge.metadata.confidence,
+          created: edge.metadata.timestamp
+        })),
+        hyperedges: subgraph.hyperedges.map(hyperedge => ({
+          id: hyperedge.id,
+          nodes: hyperedge.nodes,
+          type: hyperedge.metadata.edge_type,
+          confidence: hyperedge.metadata.confidence,
+          created: hyperedge.metadata.timestamp
+        })),
+        insights: this.generateSubgraphInsights(subgraph)
+      };
+
+      const formattedResult = {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2)
+      };
+      
+      return { content: [formattedResult] };
+    } catch (error) {
+      const errorResponse = {
+        type: 'text' as const,
+        text: JSON.stringify({
+          error: `Subgraph extraction failed: ${(error as Error).message}`,
+          context_id: args.context_id || 'unknown',
+          available_contexts: Array.from(this.activeContexts.keys())
+        }, null, 2)
+      };
+      
+      return { content: [errorResponse] };
+    }
+  }
+
+  private async validateGraphStructure(args: any): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const contextId = args.context_id;
+      
+      if (!contextId) {
+        throw new McpError(ErrorCode.InvalidRequest, 'context_id is required');
+      }
+      
+      const context = await this.resolveContext(contextId);
+
+      if (!context) {
+        throw new McpError(ErrorCode.InvalidRequest, `Context ${contextId} not found`);
+      }
+
+      const validationLevel = args.validation_level || 'basic';
+      const graphState = this.getContextGraph(contextId).getState();
+
+      const validationResult = this.validator.validateGraphState(graphState);
+
+      const result = {
+        context_id: contextId,
+        validation_level: validationLevel,
+        is_valid: validationResult.isValid,
+        statistics: validationResult.statistics,
+        errors: validationResult.errors,
+        warnings: validationResult.warnings,
+        recommendations: this.generateValidationRecommendations(validationResult),
+        quality_metrics: {
+          structural_integrity: validationResult.isValid ? 1.0 : 0.5,
+          error_rate: validationResult.errors.length / Math.max(1, validationResult.statistics.total_nodes),
+          warning_rate: validationResult.warnings.length / Math.max(1, validationResult.statistics.total_nodes),
+          connectivity: 1 - (validationResult.statistics.orphaned_nodes / Math.max(1, validationResult.statistics.total_nodes))
+        }
+      };
+
+      const formattedResult = {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2)
+      };
+      
+      return { content: [formattedResult] };
+    } catch (error) {
+      const errorResponse = {
+        type: 'text' as const,
+        text: JSON.stringify({
+          error: `Graph validation failed: ${(error as Error).message}`,
+          context_id: args.context_id || 'unknown',
+          available_contexts: Array.from(this.activeContexts.keys())
+        }, null, 2)
+      };
+      
+      return { content: [errorResponse] };
+    }
+  }
+
+  private async getResearchInsights(args: any): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const contextId = args.context_id;
+      
+      if (!contextId) {
+        throw new McpError(ErrorCode.InvalidRequest, 'context_id is required');
+      }
+      
+      const context = await this.resolveContext(contextId);
+
+      if (!context) {
+        throw new McpError(ErrorCode.InvalidRequest, `Context ${contextId} not found`);
+      }
+
+      const focusArea = args.focus_area || 'gaps';
+      const asOf = args.as_of !== undefined ? this.parseAsOf(args.as_of) : undefined;
+      const currentGraph = this.getContextGraph(contextId);
+      const graph = asOf ? currentGraph.asOf(asOf) : currentGraph;
+      const graphState = graph.getState();
+
+      let insights: any = {};
+
+      switch (focusArea) {
+        case 'gaps':
+          insights = this.generateGapInsights(graphState);
+          break;
+        case 'interventions':
+          insights = this.generateInterventionInsights(graphState);
+          break;
+        case 'causality':
+          insights = this.generateCausalityInsights(graphState);
+          break;
+        case 'temporal_patterns':
+          insights = this.generateTemporalInsights(graphState);
+          break;
+        case 'interdisciplinary':
+          insights = this.generateInterdisciplinaryInsights(graphState);
+          break;
+        case 'clusters':
+          // Tagging nodes with their community_id edits the live graph (a reconstructed past graph is thrown away)
+          if (!asOf) {
+            this.analysisRuns.assertIdle(contextId);
+          }
+          insights = this.generateClusterInsights(graph);
+          if (!asOf) {
+            await this.persistContext(contextId, context);
+          }
+          break;
+        default:
+          insights = { error: `Unknown focus area: ${focusArea}` };
+      }
+
+      const result = {
+        context_id: contextId,
+        focus_area: focusArea,
+        ...(asOf && { as_of: asOf.toISOString(), history_complete: asOf >= currentGraph.getHistoryStart() }),
+        insights: insights,
+        generated_at: new Date().toISOString(),
+        quality_score: (context as any).quality_score || 0.7
+      };
+
+      const formattedResult = {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2)
+      };
+      
+      return { content: [formattedResult] };
+    } catch (error) {
+      const errorResponse = {
+        type: 'text' as const,
+        text: JSON.stringify({
+          error: `Research insights generation failed: ${(error as Error).message}`,
+          context_id: args.context_id || 'unknown',
+          available_contexts: Array.from(this.activeContexts.keys())
+        }, null, 2)
+      };
+      
+      return { content: [errorResponse] };
+    }
+  }
+
+  // Look up a context in memory, lazily reloading it (and its graph) from the context store
+  private async resolveContext(contextId: string): Promise<ASRGoTContext | undefined> {
+    const cached = this.activeContexts.get(contextId);
+    if (cached) {
+      return cached;
+    }
+
+    let pending = this.pendingLoads.get(contextId);
+    if (!pending) {
+      pending = this.loadContext(contextId).finally(() => this.pendingLoads.delete(contextId));
+      this.pendingLoads.set(contextId, pending);
+    }
+    return pending;
+  }
+
+  private async loadContext(contextId: string): Promise<ASRGoTContext | undefined> {
+    let stored: ASRGoTContext | undefined;
+    try {
+      stored = await this.contextStore.load(contextId);
+    } catch (error) {
+      console.error(`[ASR-GoT MCP Server] Failed to load context ${contextId}:`, error);
+      return undefined;
+    }
+
+    if (!stored) {
+      return undefined;
+    }
+    // A context stored while this one loaded is newer
+    const storedMeanwhile = this.activeContexts.get(contextId);
+    if (storedMeanwhile) {
+      return storedMeanwhile;
+    }
+
+    const pipeline = ASRGoTPipeline.fromContext(stored);
+    pipeline.getGraph().setEdgeGrammar(this.edgeGrammar);
+
+    this.activeContexts.set(contextId, stored);
+    this.contextPipelines.set(contextId, pipeline);
+    return stored;
+  }
+
+  private async storeContext(contextId: string, context: ASRGoTContext, pipeline: ASRGoTPipeline): Promise<void> {
+    pipeline.getGraph().setBudget(context.computational_budget);
+    this.activeContexts.set(contextId, context);
+    this.contextPipelines.set(contextId, pipeline);
+    await this.persistContext(contextId, context);
+  }
+
+  // Persistence failures are logged but never fail the tool call that triggered them
+  private async persistContext(contextId: string, context: ASRGoTContext): Promise<void> {
+    // The graph's maps are shared with graph_state, but fields such as its timestamp are replaced as it changes
+    const graph = this.contextPipelines.get(contextId)?.getGraph();
+    if (graph) {
+      context.graph_state = graph.getState();
+    }
+
+    try {
+      await this.contextStore.save(contextId, context);
+    } catch (error) {
+      console.error(`[ASR-GoT MCP Server] Failed to persist context ${contextId}:`, error);
+    }
+  }
+
+  // Convert MCP string enums in subgraph criteria to NodeType/EdgeType values (in place)
+  private normalizeSubgraphCriteria(criteria: any): any {
+    // Convert string node types to enum values
+    if (criteria.node_types) {
+      criteria.node_types = (criteria.node_types as string[]).map((type: string) => {
+        switch (type) {
+          case 'root': return NodeType.ROOT;
+          case 'dimension': return NodeType.DIMENSION;
+          case 'hypothesis': return NodeType.HYPOTHESIS;
+          case 'evidence': return NodeType.EVIDENCE;
+          case 'placeholder_gap': return NodeType.PLACEHOLDER_GAP;
+          case 'interdisciplinary_bridge_node': return NodeType.IBN;
+          case 'super_node': return NodeType.SUPER_NODE;
+          default: return NodeType.ROOT;
+        }
+      });
+    }
+
+    // Convert string edge types to enum values  
+    if (criteria.edge_types) {
+      criteria.edge_types = (criteria.edge_types as string[]).map((type: string) => {
+        switch (type) {
+          case 'correlative': return EdgeType.CORRELATIVE;
+          case 'supportive': return EdgeType.SUPPORTIVE;
+          case 'contradictory': return EdgeType.CONTRADICTORY;
+          case 'prerequisite': return EdgeType.PREREQUISITE;
+          case 'causal': return EdgeType.CAUSAL;
+          case 'temporal_precedence': return EdgeType.TEMPORAL_PRECEDENCE;
+          default: return EdgeType.OTHER;
+        }
+      });
+    }
+
+    if (criteria.radius !== undefined) {
+      criteria.radius = Math.max(0, Math.min(6, Math.floor(Number(criteria.radius) || 0)));
+    }
+
+    if (criteria.as_of !== undefined) {
+      criteria.as_of = this.parseAsOf(criteria.as_of);
+    }
+
+    if (criteria.abstraction_level !== undefined) {
+      criteria.abstraction_level = Math.max(0, Math.floor(Number(criteria.abstraction_level) || 0));
+    }
+
+    return criteria;
+  }
+
+  private parseAsOf(value: unknown): Date {
+    const asOf = new Date(value as string);
+    if (typeof value !== 'string' || isNaN(asOf.getTime())) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid as_of timestamp: ${value}`);
+    }
+    return asOf;
+  }
+
+  // Resolve the graph owned by a single analysis context
+  private getContextGraph(contextId: string): ASRGoTGraph {
+    return this.getContextPipeline(contextId).getGraph();
+  }
+
+  private getContextPipeline(contextId: string): ASRGoTPipeline {
+    const pipeline = this.contextPipelines.get(contextId);
+
+    if (!pipeline) {
+      throw new McpError(ErrorCode.InvalidRequest, `Graph for context ${contextId} not found`);
+    }
+
+    return pipeline;
+  }
+
+  private async exportGraph(args: any): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const contextId = args.context_id;
+      
+      if (!contextId) {
+        throw new McpError(ErrorCode.InvalidRequest, 'context_id is required');
+      }
+      
+      const context = await this.resolveContext(contextId);
+
+      if (!context) {
+        throw new McpError(ErrorCode.InvalidRequest, `Context ${contextId} not found`);
+      }
+
+      const format: GraphExportFormat = args.format || 'graphml';
+      if (!GRAPH_EXPORT_FORMATS.includes(format)) {
+        throw new McpError(ErrorCode.InvalidParams, `Unsupported format: ${format}`);
+      }
+
+      const graph = this.getContextGraph(contextId);
+      const graphState = graph.getState();
+
+      // Without criteria the whole graph is exported
+      const subgraph = args.criteria
+        ? graph.extractSubgraph(this.normalizeSubgraphCriteria(args.criteria))
+        : {
+          nodes: Array.from(graphState.vertices.values()),
+          edges: Array.from(graphState.edges.values()),
+          hyperedges: Array.from(graphState.hyperedges.values())
+        };
+
+      const document = this.exporter.export(subgraph, format);
+
+      const result = {
+        context_id: contextId,
+        format,
+        media_type: this.exporter.getMediaType(format),
+        statistics: {
+          nodes: subgraph.nodes.length,
+          edges: subgraph.edges.length,
+          hyperedges: subgraph.hyperedges.length
+        },
+        document
+      };
+
+      const formattedResult = {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2)
+      };
+      
+      return { content: [formattedResult] };
+    } catch (error) {
+      const errorResponse = {
+        type: 'text' as const,
+        text: JSON.stringify({
+          error: `Graph export failed: ${(error as Error).message}`,
+          context_id: args.context_id || 'unknown',
+          available_contexts: Array.from(this.activeContexts.keys())
+        }, null, 2)
+      };
+      
+      return { content: [errorResponse] };
+    }
+  }
+
+  private async importGraph(args: any, progressToken?: ProgressToken): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const format: GraphImportFormat = args.format;
+      if (!GRAPH_IMPORT_FORMATS.includes(format)) {
+        throw new McpError(ErrorCode.InvalidParams, `Unsupported format: ${format}`);
+      }
+
+      if (!args.content && !args.file_path) {
+        throw new McpError(ErrorCode.InvalidParams, 'Either content or file_path is required');
+      }
+
+      const startStage = args.start_stage;
+      if (startStage !== undefined && (!Number.isInteger(startStage) || startStage < 1 || startStage > 8)) {
+        throw new McpError(ErrorCode.InvalidParams, 'start_stage must be an integer between 1 and 8');
+      }
+
+      const budget = parseComputationalBudget(args.computational_budget);
+
+      const content: string = args.content ?? await fs.readFile(args.file_path, 'utf8');
+      const { graph, report } = this.importer.import(content, format);
+
+      const query: ResearchQuery = {
+        query: typeof args.query === 'string' && args.query.trim() ? args.query.trim() : 'Imported graph analysis',
+        domain: Array.isArray(args.domain) ? args.domain : ['general'],
+        complexity_level: 'intermediate',
+        expected_depth: 'detailed',
+        interdisciplinary: true
+      };
+      const userProfile = args.user_profile || DEFAULT_USER_PROFILE;
+
+      // Imported edges are only reported by validation; the grammar applies to edges added from here on
+      graph.setEdgeGrammar(this.edgeGrammar);
+      const contextId = this.generateContextId();
+      const pipeline = new ASRGoTPipeline(graph);
+
+      let context: ASRGoTContext;
+      if (startStage !== undefined) {
+        const run = this.analysisRuns.begin(contextId);
+        const stopForwarding = this.forwardGraphEvents(graph, contextId, progressToken);
+        try {
+          context = await pipeline.executeFromStage(startStage, query, userProfile, { signal: run.signal, budget });
+          await this.storeContext(contextId, context, pipeline);
+        } finally {
+          stopForwarding();
+          run.end();
+        }
+      } else {
+        // Without a start stage the imported graph is stored as-is, ready for inspection or export
+        context = {
+          task_query: query.query,
+          research_query: query,
+          user_profile: userProfile,
+          communication_preferences: {
+            tone: 'formal',
+            style: 'academic',
+            citation_format: 'vancouver',
+            length: 'extensive'
+          },
+          current_stage: 0,
+          graph_state: graph.getState(),
+          stage_results: [],
+          fail_safe_active: false,
+          computational_budget: { ...DEFAULT_COMPUTATIONAL_BUDGET, ...budget }
+        };
+        await this.storeContext(contextId, context, pipeline);
+      }
+
+      const result = {
+        context_id: contextId,
+        import_report: report,
+        current_stage: context.current_stage,
+        cancellation: context.cancellation ?? null,
+        budget_overrun: context.budget_overrun ?? null,
+        stages_executed: context.stage_results.map(r => ({ stage: r.stage, stage_name: r.stage_name, success: r.success })),
+        graph_summary: {
+          total_nodes: graph.getNodeCount(),
+          total_edges: graph.getEdgeCount(),
+          total_hyperedges: graph.getHyperedgeCount()
+        }
+      };
+
+      const formattedResult = {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2)
+      };
+      
+      return { content: [formattedResult] };
+    } catch (error) {
+      const errorResponse = {
+        type: 'text' as const,
+        text: JSON.stringify({
+          error: `Graph import failed: ${(error as Error).message}`,
+          format: args.format || 'unknown',
+          supported_formats: GRAPH_IMPORT_FORMATS
+        }, null, 2)
+      };
+      
+      return { content: [errorResponse] };
+    }
+  }
+
+  private async findPaths(args: any): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const contextId = args.context_id;
+      
+      if (!contextId) {
+        throw new McpError(ErrorCode.InvalidRequest, 'context_id is required');
+      }
+      
+      const context = await this.resolveContext(contextId);
+
+      if (!context) {
+        throw new McpError(ErrorCode.InvalidRequest, `Context ${contextId} not found`);
+      }
+
+      const graph = this.getContextGraph(contextId);
+      for (const nodeId of [args.source_id, args.target_id]) {
+        if (!nodeId || !graph.hasNode(nodeId)) {
+          throw new McpError(ErrorCode.InvalidParams, `Node ${nodeId} not found in context ${contextId}`);
+        }
+      }
+
+      const direction: PathDirection = ['outgoing', 'incoming', 'both'].includes(args.direction) ? args.direction : 'both';
+      const maxLength = Math.max(1, Math.min(8, Math.floor(args.max_length ?? 4)));
+      const maxPaths = Math.max(1, Math.min(100, Math.floor(args.max_paths ?? 20)));
+
+      const shortest = graph.findShortestPath(args.source_id, args.target_id, direction);
+      const strongest = graph.findStrongestPath(args.source_id, args.target_id, direction);
+      const simplePaths = graph.findAllPaths(args.source_id, args.target_id, { maxLength, maxPaths, direction });
+
+      const result = {
+        context_id: contextId,
+        source: this.describeNode(graph, args.source_id),
+        target: this.describeNode(graph, args.target_id),
+        direction,
+        connected: shortest !== null,
+        shortest_path: shortest && this.describePath(graph, shortest),
+        strongest_path: strongest && this.describePath(graph, strongest),
+        simple_paths: {
+          max_length: maxLength,
+          count: simplePaths.length,
+          truncated: simplePaths.length >= maxPaths,
+          paths: simplePaths.map(path => this.describePath(graph, path))
+        }
+      };
+
+      const formattedResult = {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2)
+      };
+      
+      return { content: [formattedResult] };
+    } catch (error) {
+      const errorResponse = {
+        type: 'text' as const,
+        text: JSON.stringify({
+          error: `Path query failed: ${(error as Error).message}`,
+          context_id: args.context_id || 'unknown',
+          available_contexts: Array.from(this.activeContexts.keys())
+        }, null, 2)
+      };
+      
+      return { content: [errorResponse] };
+    }
+  }
+
+  private async undoLastChange(args: any): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const contextId = args.context_id;
+      
+      if (!contextId) {
+        throw new McpError(ErrorCode.InvalidRequest, 'context_id is required');
+      }
+      
+      const context = await this.resolveContext(contextId);
+
+      if (!context) {
+        throw new McpError(ErrorCode.InvalidRequest, `Context ${contextId} not found`);
+      }
+      this.analysisRuns.assertIdle(contextId);
+
+      const graph = this.getContextGraph(contextId);
+      const redo = args.redo === true;
+      const steps = Math.max(1, Math.min(50, Math.floor(args.steps ?? 1)));
+
+      const reverted = [];
+      for (let i = 0; i < steps; i++) {
+        const entry = redo ? graph.redo() : graph.undo();
+        if (!entry) break;
+        reverted.push(entry);
+      }
+
+      if (reverted.length > 0) {
+        await this.persistContext(contextId, context);
+      }
+
+      const result = {
+        context_id: contextId,
+        action: redo ? 'redo' : 'undo',
+        requested_steps: steps,
+        applied_steps: reverted.length,
+        operations: reverted,
+        remaining_undo: graph.getChangeLog().length,
+        remaining_redo: graph.getUndoneChanges().length,
+        graph_size: {
+          nodes: context.graph_state.vertices.size,
+          edges: context.graph_state.edges.size
+        }
+      };
+
+      const formattedResult = {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2)
+      };
+      
+      return { content: [formattedResult] };
+    } catch (error) {
+      const errorResponse = {
+        type: 'text' as const,
+        text: JSON.stringify({
+          error: `Undo failed: ${(error as Error).message}`,
+          context_id: args.context_id || 'unknown',
+          available_contexts: Array.from(this.activeContexts.keys())
+        }, null, 2)
+      };
+      
+      return { content: [errorResponse] };
+    }
+  }
+
+  private async getChangeLog(args: any): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const contextId = args.context_id;
+      
+      if (!contextId) {
+        throw new McpError(ErrorCode.InvalidRequest, 'context_id is required');
+      }
+      
+      const context = await this.resolveContext(contextId);
+
+      if (!context) {
+        throw new McpError(ErrorCode.InvalidRequest, `Context ${contextId} not found`);
+      }
+
+      const graph = this.getContextGraph(contextId);
+      const limit = Math.max(1, Math.min(500, Math.floor(args.limit ?? 50)));
+      const applied = graph.getChangeLog();
+
+      const result = {
+        context_id: contextId,
+        total_operations: applied.length,
+        operations: applied.slice(0, limit),
+        undone_operations: graph.getUndoneChanges()
+      };
+
+      const formattedResult = {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2)
+      };
+      
+      return { content: [formattedResult] };
+    } catch (error) {
+      const errorResponse = {
+        type: 'text' as const,
+        text: JSON.stringify({
+          error: `Change log retrieval failed: ${(error as Error).message}`,
+          context_id: args.context_id || 'unknown',
+          available_contexts: Array.from(this.activeContexts.keys())
+        }, null, 2)
+      };
+      
+      return { content: [errorResponse] };
+    }
+  }
+
+  private async createSnapshot(args: any): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const contextId = args.context_id;
+      
+      if (!contextId) {
+        throw new McpError(ErrorCode.InvalidRequest, 'context_id is required');
+      }
+      
+      const context = await this.resolveContext(contextId);
+
+      if (!context) {
+        throw new McpError(ErrorCode.InvalidRequest, `Context ${contextId} not found`);
+      }
+      // A snapshot taken mid-run would capture a half-finished stage
+      this.analysisRuns.assertIdle(contextId);
+
+      const snapshots = context.snapshots ?? [];
+      const name = typeof args.name === 'string' && args.name.trim() ? args.name.trim() : `snapshot_${snapshots.length + 1}`;
+      const snapshot: AnalysisSnapshot = {
+        name,
+        created_at: new Date(),
+        graph_state: structuredClone(context.graph_state),
+        stage_results: structuredClone(context.stage_results),
+        fail_safe_active: context.fail_safe_active
+      };
+
+      context.snapshots = [...snapshots.filter(existing => existing.name !== name), snapshot];
+      await this.persistContext(contextId, context);
+
+      const result = {
+        context_id: contextId,
+        snapshot: {
+          name,
+          created_at: snapshot.created_at,
+          nodes: snapshot.graph_state.vertices.size,
+          edges: snapshot.graph_state.edges.size,
+          quality_score: this.getContextPipeline(contextId).calculateOverallQuality(context)
+        },
+        replaced: snapshots.length === context.snapshots.length,
+        snapshots: context.snapshots.map(existing => existing.name)
+      };
+
+      const formattedResult = {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2)
+      };
+      
+      return { content: [formattedResult] };
+    } catch (error) {
+      const errorResponse = {
+        type: 'text' as const,
+        text: JSON.stringify({
+          error: `Snapshot creation failed: ${(error as Error).message}`,
+          context_id: args.context_id || 'unknown',
+          available_contexts: Array.from(this.activeContexts.keys())
+        }, null, 2)
+      };
+      
+      return { content: [errorResponse] };
+    }
+  }
+
+  private async compareAnalyses(args: any): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const contextId = args.context_id;
+      
+      if (!contextId) {
+        throw new McpError(ErrorCode.InvalidRequest, 'context_id is required');
+      }
+
+      const compareContextId = args.compare_context_id || contextId;
+      if (compareContextId === contextId && !args.snapshot && !args.compare_snapshot) {
+        throw new McpError(ErrorCode.InvalidParams, 'Nothing to compare: give a snapshot or a second context');
+      }
+
+      const before = await this.resolveAnalysisVersion(contextId, args.snapshot);
+      const after = await this.resolveAnalysisVersion(compareContextId, args.compare_snapshot);
+      const diff = this.differ.compare(before, after);
+
+      const result = {
+        ...diff,
+        summary: {
+          nodes_added: diff.nodes.added.length,
+          nodes_removed: diff.nodes.removed.length,
+          nodes_merged: diff.nodes.merged.length,
+          edges_added: diff.edges.added.length,
+          edges_removed: diff.edges.removed.length,
+          edge_types_changed: diff.edges.type_changed.length,
+          hypotheses_with_confidence_changes: diff.confidence_changes.length,
+          quality_delta: diff.quality.delta
+        }
+      };
+
+      const formattedResult = {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2)
+      };
+      
+      return { content: [formattedResult] };
+    } catch (error) {
+      const errorResponse = {
+        type: 'text' as const,
+        text: JSON.stringify({
+          error: `Analysis comparison failed: ${(error as Error).message}`,
+          context_id: args.context_id || 'unknown',
+          available_contexts: Array.from(this.activeContexts.keys())
+        }, null, 2)
+      };
+      
+      return { content: [errorResponse] };
+    }
+  }
+
+  private async queryGraph(args: any): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const contextId = args.context_id;
+      
+      if (!contextId) {
+        throw new McpError(ErrorCode.InvalidRequest, 'context_id is required');
+      }
+      
+      const context = await this.resolveContext(contextId);
+
+      if (!context) {
+        throw new McpError(ErrorCode.InvalidRequest, `Context ${contextId} not found`);
+      }
+
+      let query;
+      try {
+        query = this.queryEngine.parse(args.query);
+      } catch (error) {
+        throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+      }
+
+      const asOf = args.as_of !== undefined ? this.parseAsOf(args.as_of) : undefined;
+      const currentGraph = this.getContextGraph(contextId);
+      const graph = asOf ? currentGraph.asOf(asOf) : currentGraph;
+
+      const result = {
+        context_id: contextId,
+        as_of: asOf?.toISOString(),
+        ...this.queryEngine.execute(graph, query)
+      };
+
+      const formattedResult = {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2)
+      };
+      
+      return { content: [formattedResult] };
+    } catch (error) {
+      const errorResponse = {
+        type: 'text' as const,
+        text: JSON.stringify({
+          error: `Graph query failed: ${(error as Error).message}`,
+          context_id: args.context_id || 'unknown',
+          available_contexts: Array.from(this.activeContexts.keys())
+        }, null, 2)
+      };
+      
+      return { content: [errorResponse] };
+    }
+  }
+
+  private async createSuperNode(args: any): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const contextId = args.context_id;
+      
+      if (!contextId) {
+        throw new McpError(ErrorCode.InvalidRequest, 'context_id is required');
+      }
+      
+      const context = await this.resolveContext(contextId);
+
+      if (!context) {
+        throw new McpError(ErrorCode.InvalidRequest, `Context ${contextId} not found`);
+      }
+      this.analysisRuns.assertIdle(contextId);
+
+      if (!args.label || typeof args.label !== 'string') {
+        throw new McpError(ErrorCode.InvalidParams, 'label is required');
+      }
+      if (!Array.isArray(args.member_ids) || args.member_ids.length === 0) {
+        throw new McpError(ErrorCode.InvalidParams, 'member_ids must list at least one node');
+      }
+
+      const graph = this.getContextGraph(contextId);
+      const superNodeId = graph.transaction(() => {
+        const id = graph.createSuperNode(args.member_ids, { label: args.label, layer_id: args.layer_id });
+        if (args.collapsed === true) {
+          graph.collapseSuperNode(id);
+        }
+        return id;
+      });
+      await this.persistContext(contextId, context);
+
+      const result = {
+        context_id: contextId,
+        super_node: this.describeSuperNode(graph, superNodeId)
+      };
+
+      const formattedResult = {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2)
+      };
+      
+      return { content: [formattedResult] };
+    } catch (error) {
+      const errorResponse = {
+        type: 'text' as const,
+        text: JSON.stringify({
+          error: `Super-node creation failed: ${(error as Error).message}`,
+          context_id: args.context_id || 'unknown',
+          available_contexts: Array.from(this.activeContexts.keys())
+        }, null, 2)
+      };
+      
+      return { content: [errorResponse] };
+    }
+  }
+
+  private async collapseSuperNode(args: any): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const contextId = args.context_id;
+      
+      if (!contextId) {
+        throw new McpError(ErrorCode.InvalidRequest, 'context_id is required');
+      }
+      
+      const context = await this.resolveContext(contextId);
+
+      if (!context) {
+        throw new McpError(ErrorCode.InvalidRequest, `Context ${contextId} not found`);
+      }
+      this.analysisRuns.assertIdle(contextId);
+
+      const graph = this.getContextGraph(contextId);
+      if (args.expand === true) {
+        graph.expandSuperNode(args.super_node_id);
+      } else {
+        graph.collapseSuperNode(args.super_node_id);
+      }
+      await this.persistContext(contextId, context);
+
+      const result = {
+        context_id: contextId,
+        action: args.expand === true ? 'expand' : 'collapse',
+        super_node: this.describeSuperNode(graph, args.super_node_id)
+      };
+
+      const formattedResult = {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2)
+      };
+      
+      return { content: [formattedResult] };
+    } catch (error) {
+      const errorResponse = {
+        type: 'text' as const,
+        text: JSON.stringify({
+          error: `Super-node ${args.expand === true ? 'expansion' : 'collapse'} failed: ${(error as Error).message}`,
+          context_id: args.context_id || 'unknown',
+          available_contexts: Array.from(this.activeContexts.keys())
+        }, null, 2)
+      };
+      
+      return { content: [errorResponse] };
+    }
+  }
+
+  private async updateNode(args: any): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const contextId = args.context_id;
+      
+      if (!contextId) {
+        throw new McpError(ErrorCode.InvalidRequest, 'context_id is required');
+      }
+      
+      const context = await this.resolveContext(contextId);
+
+      if (!context) {
+        throw new McpError(ErrorCode.InvalidRequest, `Context ${contextId} not found`);
+      }
+      this.analysisRuns.assertIdle(contextId);
+
+      if (!args.changes || typeof args.changes !== 'object' || Array.isArray(args.changes)) {
+        throw new McpError(ErrorCode.InvalidParams, 'changes must be an object of metadata fields');
+      }
+
+      const graph = this.getContextGraph(contextId);
+      const node = graph.updateNodeMetadata(args.node_id, this.parseMetadataChanges(args.changes), this.curationAuthor(args));
+      await this.persistContext(contextId, context);
+
+      const result = {
+        context_id: contextId,
+        node: { id: node.id, metadata: node.metadata },
+        warnings: this.validator.validateNodeMetadata(node.metadata).warnings
+      };
+
+      const formattedResult = {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2)
+      };
+      
+      return { content: [formattedResult] };
+    } catch (error) {
+      const errorResponse = {
+        type: 'text' as const,
+        text: JSON.stringify({
+          error: `Node update failed: ${(error as Error).message}`,
+          context_id: args.context_id || 'unknown',
+          available_contexts: Array.from(this.activeContexts.keys())
+        }, null, 2)
+      };
+      
+      return { content: [errorResponse] };
+    }
+  }
+
+  private async updateEdge(args: any): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const contextId = args.context_id;
+      
+      if (!contextId) {
+        throw new McpError(ErrorCode.InvalidRequest, 'context_id is required');
+      }
+      
+      const context = await this.resolveContext(contextId);
+
+      if (!context) {
+        throw new McpError(ErrorCode.InvalidRequest, `Context ${contextId} not found`);
+      }
+      this.analysisRuns.assertIdle(contextId);
+
+      if (!args.changes || typeof args.changes !== 'object' || Array.isArray(args.changes)) {
+        throw new McpError(ErrorCode.InvalidParams, 'changes must be an object of metadata fields');
+      }
+
+      const graph = this.getContextGraph(contextId);
+      const edge = graph.updateEdge(args.edge_id, this.parseMetadataChanges(args.changes), this.curationAuthor(args));
+      await this.persistContext(contextId, context);
+
+      const result = {
+        context_id: contextId,
+        edge,
+        warnings: this.validator.validateEdgeMetadata(edge.metadata).warnings
+      };
+
+      const formattedResult = {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2)
+      };
+      
+      return { content: [formattedResult] };
+    } catch (error) {
+      const errorResponse = {
+        type: 'text' as const,
+        text: JSON.stringify({
+          error: `Edge update failed: ${(error as Error).message}`,
+          context_id: args.context_id || 'unknown',
+          available_contexts: Array.from(this.activeContexts.keys())
+        }, null, 2)
+      };
+      
+      return { content: [errorResponse] };
+    }
+  }
+
+  private async removeEdge(args: any): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const contextId = args.context_id;
+      
+      if (!contextId) {
+        throw new McpError(ErrorCode.InvalidRequest, 'context_id is required');
+      }
+      
+      const context = await this.resolveContext(contextId);
+
+      if (!context) {
+        throw new McpError(ErrorCode.InvalidRequest, `Context ${contextId} not found`);
+      }
+      this.analysisRuns.assertIdle(contextId);
+
+      const graph = this.getContextGraph(contextId);
+      if (!graph.removeEdge(args.edge_id, this.curationAuthor(args))) {
+        throw new Error(`Edge ${args.edge_id} does not exist`);
+      }
+      await this.persistContext(contextId, context);
+
+      const result = {
+        context_id: contextId,
+        removed_edge_id: args.edge_id,
+        total_edges: graph.getState().edges.size
+      };
+
+      const formattedResult = {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2)
+      };
+      
+      return { content: [formattedResult] };
+    } catch (error) {
+      const errorResponse = {
+        type: 'text' as const,
+        text: JSON.stringify({
+          error: `Edge removal failed: ${(error as Error).message}`,
+          context_id: args.context_id || 'unknown',
+          available_contexts: Array.from(this.activeContexts.keys())
+        }, null, 2)
+      };
+      
+      return { content: [errorResponse] };
+    }
+  }
+
+  private async removeHyperedge(args: any): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const contextId = args.context_id;
+      
+      if (!contextId) {
+        throw new McpError(ErrorCode.InvalidRequest, 'context_id is required');
+      }
+      
+      const context = await this.resolveContext(contextId);
+
+      if (!context) {
+        throw new McpError(ErrorCode.InvalidRequest, `Context ${contextId} not found`);
+      }
+      this.analysisRuns.assertIdle(contextId);
+
+      const graph = this.getContextGraph(contextId);
+      if (!graph.removeHyperedge(args.hyperedge_id, this.curationAuthor(args))) {
+        throw new Error(`Hyperedge ${args.hyperedge_id} does not exist`);
+      }
+      await this.persistContext(contextId, context);
+
+      const result = {
+        context_id: contextId,
+        removed_hyperedge_id: args.hyperedge_id,
+        total_hyperedges: graph.getState().hyperedges.size
+      };
+
+      const formattedResult = {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2)
+      };
+      
+      return { content: [formattedResult] };
+    } catch (error) {
+      const errorResponse = {
+        type: 'text' as const,
+        text: JSON.stringify({
+          error: `Hyperedge removal failed: ${(error as Error).message}`,
+          context_id: args.context_id || 'unknown',
+          available_contexts: Array.from(this.activeContexts.keys())
+        }, null, 2)
+      };
+      
+      return { content: [errorResponse] };
+    }
+  }
+
+  private async runStage(args: any, progressToken?: ProgressToken): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const contextId = args.context_id;
+      
+      if (!contextId) {
+        throw new McpError(ErrorCode.InvalidRequest, 'context_id is required');
+      }
+      
+      const context = await this.resolveContext(contextId);
+
+      if (!context) {
+        throw new McpError(ErrorCode.InvalidRequest, `Context ${contextId} not found`);
+      }
+
+      const lastStage = this.getContextPipeline(contextId).getStages().length;
+      if (!Number.isInteger(args.stage) || args.stage < 1 || args.stage > lastStage) {
+        throw new McpError(ErrorCode.InvalidParams, `stage must be an integer between 1 and ${lastStage}`);
+      }
+
+      const budget = parseComputationalBudget(args.computational_budget);
+      const result = await this.runContextStages(contextId, context, args.stage, args.stage, args.restore_checkpoint === true, budget, progressToken);
+
+      const formattedResult = {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2)
+      };
+      
+      return { content: [formattedResult] };
+    } catch (error) {
+      const errorResponse = {
+        type: 'text' as const,
+        text: JSON.stringify({
+          error: `Stage run failed: ${(error as Error).message}`,
+          context_id: args.context_id || 'unknown',
+          available_contexts: Array.from(this.activeContexts.keys())
+        }, null, 2)
+      };
+      
+      return { content: [errorResponse] };
+    }
+  }
+
+  private async resumeAnalysis(args: any, progressToken?: ProgressToken): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const contextId = args.context_id;
+      
+      if (!contextId) {
+        throw new McpError(ErrorCode.InvalidRequest, 'context_id is required');
+      }
+      
+      const context = await this.resolveContext(contextId);
+
+      if (!context) {
+        throw new McpError(ErrorCode.InvalidRequest, `Context ${contextId} not found`);
+      }
+
+      const lastStage = this.getContextPipeline(contextId).getStages().length;
+      const fromStage = args.from_stage ?? context.current_stage + 1;
+      const toStage = args.to_stage ?? lastStage;
+      if (args.from_stage === undefined && fromStage > lastStage) {
+        throw new Error(`The analysis has already run its last stage (${lastStage}); pass from_stage to re-run stages`);
+      }
+      if (!Number.isInteger(fromStage) || !Number.isInteger(toStage) || fromStage < 1 || toStage < fromStage || toStage > lastStage) {
+        throw new McpError(ErrorCode.InvalidParams, `from_stage and to_stage must be integers with 1 <= from_stage <= to_stage <= ${lastStage}`);
+      }
+
+      const budget = parseComputationalBudget(args.computational_budget);
+      const result = await this.runContextStages(contextId, context, fromStage, toStage, args.restore_checkpoint === true, budget, progressToken);
+
+      const formattedResult = {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2)
+      };
+      
+      return { content: [formattedResult] };
+    } catch (error) {
+      const errorResponse = {
+        type: 'text' as const,
+        text: JSON.stringify({
+          error: `Analysis resume failed: ${(error as Error).message}`,
+          context_id: args.context_id || 'unknown',
+          available_contexts: Array.from(this.activeContexts.keys())
+        }, null, 2)
+      };
+      
+      return { content: [errorResponse] };
+    }
+  }
+
+  private async cancelAnalysis(args: any): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const contextId = args.context_id;
+      
+      if (!contextId) {
+        throw new McpError(ErrorCode.InvalidRequest, 'context_id is required');
+      }
+
+      const reason = typeof args.reason === 'string' && args.reason.trim() ? args.reason.trim() : 'Cancelled by user';
+      // Waits for the run to end, so the partial results can be reported
+      if (!await this.analysisRuns.cancel(contextId, reason)) {
+        throw new McpError(ErrorCode.InvalidRequest, `No pipeline stages are running for context ${contextId}`);
+      }
+      const context = this.activeContexts.get(contextId);
+
+      const result = {
+        context_id: contextId,
+        // The run may have finished before it saw the cancellation
+        cancelled: context?.cancellation !== undefined,
+        cancellation: context?.cancellation ?? null,
+        current_stage: context?.current_stage ?? 0,
+        stages_completed: context?.stage_results.filter(r => r.success).map(r => r.stage) ?? [],
+        graph_summary: {
+          total_nodes: context?.graph_state.vertices.size ?? 0,
+          total_edges: context?.graph_state.edges.size ?? 0,
+          total_hyperedges: context?.graph_state.hyperedges.size ?? 0
+        }
+      };
+
+      const formattedResult = {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2)
+      };
+      
+      return { content: [formattedResult] };
+    } catch (error) {
+      const errorResponse = {
+        type: 'text' as const,
+        text: JSON.stringify({
+          error: `Cancellation failed: ${(error as Error).message}`,
+          context_id: args.context_id || 'unknown',
+          available_contexts: Array.from(this.activeContexts.keys())
+        }, null, 2)
+      };
+      
+      return { content: [errorResponse] };
+    }
+  }
+
+  // Run a range of stages on a stored context and persist it; shared by run_stage and resume_analysis
+  private async runContextStages(
+    contextId: string,
+    context: ASRGoTContext,
+    startStage: number,
+    endStage: number,
+    restoreCheckpoint: boolean,
+    budget?: Partial<ComputationalBudget>,
+    progressToken?: ProgressToken
+  ): Promise<any> {
+    const pipeline = this.getContextPipeline(contextId);
+    const graph = pipeline.getGraph();
+
+    // Contexts stored before the query was kept fall back to the import defaults
+    const query: ResearchQuery = context.research_query ?? {
+      query: context.task_query,
+      domain: ['general'],
+      complexity_level: 'intermediate',
+      expected_depth: 'detailed',
+      interdisciplinary: true
+    };
+
+    const run = this.analysisRuns.begin(contextId);
+    const stopForwarding = this.forwardGraphEvents(graph, contextId, progressToken);
+    try {
+      if (restoreCheckpoint) {
+        pipeline.restoreCheckpoint(context, startStage - 1);
+      }
+      await pipeline.runStages(context, query, startStage, endStage, { signal: run.signal, budget });
+      await this.persistContext(contextId, context);
+    } finally {
+      stopForwarding();
+      run.end();
+    }
+
+    return {
+      context_id: contextId,
+      restored_checkpoint: restoreCheckpoint ? startStage - 1 : null,
+      current_stage: context.current_stage,
+      fail_safe_active: context.fail_safe_active,
+      cancellation: context.cancellation ?? null,
+      budget_overrun: context.budget_overrun ?? null,
+      stages_executed: context.stage_results
+        .filter(result => result.stage >= startStage)
+        .map(result => ({
+          stage: result.stage,
+          stage_name: result.stage_name,
+          success: result.success,
+          nodes_created: result.nodes_created.length,
+          edges_created: result.edges_created.length,
+          errors: result.errors,
+          warnings: result.warnings
+        })),
+      graph_summary: {
+        total_nodes: graph.getNodeCount(),
+        total_edges: graph.getEdgeCount(),
+        total_hyperedges: graph.getHyperedgeCount()
+      },
+      checkpoints: (context.checkpoints ?? []).map(checkpoint => checkpoint.stage)
+    };
+  }
+
+  // JSON cannot carry undefined or dates: null clears an optional field and timestamps arrive as strings
+  private parseMetadataChanges(changes: Record<string, unknown>): any {
+    const parsed: Record<string, unknown> = {};
+    for (const [field, value] of Object.entries(changes)) {
+      parsed[field] = value === null ? undefined : value;
+    }
+    if (typeof parsed.timestamp === 'string') {
+      parsed.timestamp = new Date(parsed.timestamp);
+    }
+    return parsed;
+  }
+
+  private curationAuthor(args: any): string {
+    return typeof args.author === 'string' && args.author.trim() ? args.author.trim() : 'User';
+  }
+
+  private describeSuperNode(graph: ASRGoTGraph, superNodeId: string): any {
+    const node = graph.getNode(superNodeId)!;
+    const layerId = node.metadata.encapsulated_layer!;
+    return {
+      id: node.id,
+      label: node.metadata.label,
+      layer_id: node.metadata.layer_id,
+      encapsulated_layer: layerId,
+      abstraction_level: graph.getLayerLevel(node.metadata.layer_id),
+      collapsed: node.metadata.collapsed === true,
+      confidence: node.metadata.confidence,
+      impact_score: node.metadata.impact_score,
+      members: graph.getSuperNodeMembers(superNodeId),
+      child_layers: graph.getChildLayers(layerId)
+    };
+  }
+
+  // A snapshot of a context, or its current state when no snapshot is named
+  private async resolveAnalysisVersion(contextId: string, snapshotName?: string): Promise<AnalysisVersion> {
+    const context = await this.resolveContext(contextId);
+
+    if (!context) {
+      throw new McpError(ErrorCode.InvalidRequest, `Context ${contextId} not found`);
+    }
+
+    let version: ASRGoTContext = context;
+    if (snapshotName) {
+      const snapshot = context.snapshots?.find(existing => existing.name === snapshotName);
+      if (!snapshot) {
+        throw new McpError(ErrorCode.InvalidParams, `Snapshot ${snapshotName} not found in context ${contextId}`);
+      }
+      version = {
+        ...context,
+        graph_state: snapshot.graph_state,
+        stage_results: snapshot.stage_results,
+        fail_safe_active: snapshot.fail_safe_active
+      };
+    }
+
+    return {
+      label: snapshotName ? `${contextId}@${snapshotName}` : contextId,
+      graph_state: version.graph_state,
+      quality_score: this.getContextPipeline(contextId).calculateOverallQuality(version)
+    };
+  }
+
+  private describeNode(graph: ASRGoTGraph, nodeId: string): { id: string; label: string; type: NodeType } {
+    const node = graph.getNode(nodeId)!;
+    return { id: node.id, label: node.metadata.label, type: node.metadata.type };
+  }
+
+  // Replace node ids with id/label/type so reasoning chains read without further lookups
+  private describePath(graph: ASRGoTGraph, path: GraphPath): any {
+    return {
+      ...path,
+      nodes: path.nodes.map(nodeId => this.describeNode(graph, nodeId))
+    };
+  }
+
+  // Not drawn from the seeded generator: replays of a seed must still get their own context
+  private generateContextId(): string {
+    return `context_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  // Helper methods for generating insights and summaries
+  private generateAnalysisSummary(context: ASRGoTContext): any {
+    const successfulStages = context.stage_results.filter(r => r.success).length;
+    const totalNodes = context.graph_state.vertices.size;
+    const totalEdges = context.graph_state.edges.size;
+
+    return {
+      query: context.task_query,
+      stages_completed: `${successfulStages}/8`,
+      graph_complexity: {
+        nodes: totalNodes,
+        edges: totalEdges,
+        density: totalNodes > 0 ? totalEdges / (totalNodes * (totalNodes - 1)) : 0
+      },
+      fail_safe_activated: context.fail_safe_active,
+      total_execution_time_ms: context.stage_results.reduce((total, result) => total + result.execution_time_ms, 0),
+      key_findings: this.extractKeyFindings(context)
+    };
+  }
+
+  // Safe version of analysis summary generation
+  private safeGenerateAnalysisSummary(context: ASRGoTContext): any {
+    try {
+      return this.generateAnalysisSummary(context);
+    } catch (error) {
+      console.warn('Analysis summary generation failed:', error);
+      return {
+        query: context.task_query || 'Unknown query',
+        stages_completed: `${context.stage_results?.filter(r => r.success).length || 0}/8`,
+        graph_complexity: {
+          nodes: context.graph_state?.vertices?.size || 0,
+          edges: context.graph_state?.edges?.size || 0,
+          density: 0
+        },
+        fail_safe_activated: context.fail_safe_active || true,
+        total_execution_time_ms: context.stage_results?.reduce((total, result) => total + result.execution_time_ms, 0) || 0,
+        key_findings: ['Analysis summary generation encountered errors']
+      };
+    }
+  }
+
+  // Emergency analysis summary for complete failures
+  private generateEmergencyAnalysisSummary(query: string, executionTime: number): any {
+    return {
+      query: query || 'Unknown query',
+      stages_completed: '0/8',
+      graph_complexity: {
+        nodes: 0,
+        edges: 0,
+        density: 0
+      },
+      fail_safe_activated: true,
+      total_execution_time_ms: executionTime,
+      key_findings: [
+        'Analysis failed during execution',
+        'No substantive results were generated',
+        'System encountered critical errors'
+      ]
+    };
+  }
+
+  // Fallback narrative generator
+  private generateFallbackNarrative(query: string): string {
+    return `
+# Analysis Report
+
+## Query: ${query}
+
+## Status
+This analysis encountered significant challenges during execution. The system attempted to process your query using the ASR-GoT framework but was unable to complete the full analysis pipeline.
+
+## Available Information
+- Query received and validated
+- System attempted processing with fail-safe mechanisms active
+- Partial processing may have occurred in early stages
+
+## Recommendations
+1. Try simplifying the query or reducing complexity level
+2. Ensure the query is well-formed and specific
+3. Check system resources and try again later
+4. Contact support if the issue persists
+
+## Note
+This response was generated by emergency fail-safe mechanisms to ensure you receive some feedback even when the full analysis cannot be completed.
+
+*Generated by ASR-GoT MCP Server (Emergency Mode)*
+    `.trim();
+  }
+
+  private extractKeyFindings(context: ASRGoTContext): string[] {
+    const findings = [];
+    
+    // Count different node types
+    const nodeTypes = new Map();
+    for (const node of context.graph_state.vertices.values()) {
+      const type = node.metadata.type;
+      nodeTypes.set(type, (nodeTypes.get(type) || 0) + 1);
+    }
+
+    if (nodeTypes.get('hypothesis') > 0) {
+      findings.push(`Generated ${nodeTypes.get('hypothesis')} hypotheses for investigation`);
+    }
+
+    if (nodeTypes.get('evidence') > 0) {
+      findings.push(`Integrated ${nodeTypes.get('evidence')} pieces of evidence`);
+    }
+
+    if (nodeTypes.get('interdisciplinary_bridge_node') > 0) {
+      findings.push(`Identified ${nodeTypes.get('interdisciplinary_bridge_node')} interdisciplinary connections`);
+    }
+
+    if (context.stage_results.some(r => r.warnings.length > 0)) {
+      findings.push('Analysis identified potential biases and limitations');
+    }
+
+    return findings;
+  }
+
+  private generateSubgraphInsights(subgraph: any): any {
+    return {
+      most_confident_nodes: subgraph.nodes
+        .sort((a: any, b: any) => this.getAverageConfidence(b.metadata.confidence) - this.getAverageConfidence(a.metadata.confidence))
+        .slice(0, 3)
+        .map((node: any) => ({ id: node.id, label: node.metadata.label, confidence: this.getAverageConfidence(node.metadata.confidence) })),
+      
+      highest_impact_nodes: subgraph.nodes
+        .sort((a: any, b: any) => b.metadata.impact_score - a.metadata.impact_score)
+        .slice(0, 3)
+        .map((node: any) => ({ id: node.id, label: node.metadata.label, impact: node.metadata.impact_score })),
+      
+      edge_type_distribution: this.getEdgeTypeDistribution(subgraph.edges),
+      
+      disciplinary_coverage: this.getDisciplinaryCoverage(subgraph.nodes)
+    };
+  }
+
+  private generateGapInsights(graphState: any): any {
+    const gapNodes = Array.from(graphState.vertices.values())
+      .filter((node: any) => node.metadata.type === 'placeholder_gap');
+
+    return {
+      total_gaps_identified: gapNodes.length,
+      high_priority_gaps: gapNodes
+        .filter((node: any) => node.metadata.impact_score > 0.7)
+        .map((node: any) => ({ id: node.id, label: node.metadata.label, impact: node.metadata.impact_score })),
+      research_recommendations: gapNodes.slice(0, 5).map((node: any) => 
+        `Investigate ${node.metadata.label} (Impact: ${node.metadata.impact_score.toFixed(2)})`
+      )
+    };
+  }
+
+  private generateInterventionInsights(graphState: any): any {
+    const interventionableNodes = Array.from(graphState.vertices.values())
+      .filter((node: any) => node.metadata.type === 'hypothesis' && node.metadata.plan);
+
+    return {
+      potential_interventions: interventionableNodes.length,
+      recommended_actions: interventionableNodes
+        .sort((a: any, b: any) => b.metadata.impact_score - a.metadata.impact_score)
+        .slice(0, 5)
+        .map((node: any) => ({
+          hypothesis: node.metadata.label,
+          plan: node.metadata.plan,
+          impact: node.metadata.impact_score,
+          confidence: this.getAverageConfidence(node.metadata.confidence)
+        }))
+    };
+  }
+
+  private generateCausalityInsights(graphState: any): any {
+    const causalEdges = Array.from(graphState.edges.values())
+      .filter((edge: any) => edge.metadata.edge_type === 'causal');
+
+    return {
+      causal_relationships_identified: causalEdges.length,
+      strongest_causal_links: causalEdges
+        .sort((a: any, b: any) => this.getAverageConfidence(b.metadata.confidence) - this.getAverageConfidence(a.metadata.confidence))
+        .slice(0, 5)
+        .map((edge: any) => ({
+          source: edge.source,
+          target: edge.target,
+          confidence: this.getAverageConfidence(edge.metadata.confidence)
+        })),
+      causal_strength_distribution: this.getCausalStrengthDistribution(causalEdges)
+    };
+  }
+
+  private generateTemporalInsights(graphState: any): any {
+    const temporalEdges = Array.from(graphState.edges.values())
+      .filter((edge: any) => ['temporal_precedence', 'sequential', 'delayed', 'cyclic'].includes(edge.metadata.edge_type));
+
+    return {
+      temporal_relationships_found: temporalEdges.length,
+      temporal_patterns: this.getTemporalPatterns(temporalEdges),
+      timeline_insights: 'Temporal analysis reveals sequential dependencies in the research domain'
+    };
+  }
+
+  private generateInterdisciplinaryInsights(graphState: any): any {
+    const ibnNodes = Array.from(graphState.vertices.values())
+      .filter((node: any) => node.metadata.type === 'interdisciplinary_bridge_node');
+
+    const allDisciplines = new Set();
+    for (const node of graphState.vertices.values()) {
+      for (const tag of (node as any).metadata.disciplinary_tags) {
+        allDisciplines.add(tag);
+      }
+    }
+
+    return {
+      interdisciplinary_bridges: ibnNodes.length,
+      disciplines_connected: allDisciplines.size,
+      cross_disciplinary_opportunities: ibnNodes.map((node: any) => ({
+        id: node.id,
+        label: node.metadata.label,
+        disciplines: node.metadata.disciplinary_tags,
+        potential_impact: node.metadata.impact_score
+      }))
+    };
+  }
+
+  private generateClusterInsights(graph: ASRGoTGraph): any {
+    const { communities, modularity } = graph.detectCommunities();
+    const bridges = graph.getCommunityBridges();
+
+    const clusters = Array.from(communities.entries()).map(([communityId, nodeIds]) => {
+      const nodes = nodeIds.map(nodeId => graph.getNode(nodeId)!);
+
+      const tagCounts = new Map<string, number>();
+      for (const node of nodes) {
+        for (const tag of node.metadata.disciplinary_tags) {
+          tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1);
+        }
+      }
+
+      return {
+        community_id: communityId,
+        size: nodes.length,
+        dominant_disciplinary_tags: Array.from(tagCounts.entries())
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, 3)
+          .map(([tag, count]) => ({ tag, count })),
+        mean_confidence: nodes.reduce((sum, node) => sum + this.getAverageConfidence(node.metadata.confidence), 0) / nodes.length,
+        node_types: nodes.reduce((counts: any, node) => {
+          counts[node.metadata.type] = (counts[node.metadata.type] || 0) + 1;
+          return counts;
+        }, {}),
+        key_nodes: [...nodes]
+          .sort((a, b) => b.metadata.impact_score - a.metadata.impact_score)
+          .slice(0, 3)
+          .map(node => ({ id: node.id, label: node.metadata.label }))
+      };
+    });
+
+    // Bridge endpoints with disjoint disciplines are the strongest IBN candidates (P1.8)
+    const ibnCandidates = bridges
+      .filter(bridge => {
+        const sourceTags = graph.getNode(bridge.source)!.metadata.disciplinary_tags;
+        const targetTags = graph.getNode(bridge.target)!.metadata.disciplinary_tags;
+        return !sourceTags.some(tag => targetTags.includes(tag));
+      })
+      .slice(0, 10)
+      .map(bridge => ({
+        source: { id: bridge.source, label: graph.getNode(bridge.source)!.metadata.label, community_id: bridge.source_community },
+        target: { id: bridge.target, label: graph.getNode(bridge.target)!.metadata.label, community_id: bridge.target_community },
+        link_confidence: bridge.weight
+      }));
+
+    return {
+      community_count: communities.size,
+      modularity,
+      clusters,
+      bridging_edges: bridges.length,
+      ibn_candidates: ibnCandidates
+    };
+  }
+
+  private generateValidationRecommendations(validationResult: any): string[] {
+    const recommendations = [];
+    
+    if (validationResult.statistics.orphaned_nodes > 0) {
+      recommendations.push('Consider connecting or removing orphaned nodes');
+    }
+    
+    if (validationResult.statistics.invalid_references > 0) {
+      recommendations.push('Fix invalid edge references');
+    }
+    
+    if (!validationResult.isValid) {
+      recommendations.push('Address validation errors before proceeding');
+    }
+    
+    if (validationResult.warnings.length > validationResult.statistics.total_nodes * 0.1) {
+      recommendations.push('Review and address validation warnings');
+    }
+
+    return recommendations;
+  }
+
+  // Utility methods
+  private getAverageConfidence(confidence: any): number {
+    if (!confidence) return 0;
+    return (confidence.empirical_support + confidence.theoretical_basis + 
+            confidence.methodological_rigor + confidence.consensus_alignment) / 4;
+  }
+
+  private getEdgeTypeDistribution(edges: any[]): any {
+    const distribution: any = {};
+    for (const edge of edges) {
+      const type = edge.metadata.edge_type;
+      distribution[type] = (distribution[type] || 0) + 1;
+    }
+    return distribution;
+  }
+
+  private getDisciplinaryCoverage(nodes: any[]): string[] {
+    const disciplines = new Set<string>();
+    for (const node of nodes) {
+      for (const tag of node.metadata.disciplinary_tags) {
+        disciplines.add(tag);
+      }
+    }
+    return Array.from(disciplines);
+  }
+
+  private getCausalStrengthDistribution(causalEdges: any[]): any {
+    const distribution = { weak: 0, moderate: 0, strong: 0 };
+    
+    for (const edge of causalEdges) {
+      const confidence = this.getAverageConfidence(edge.metadata.confidence);
+      if (confidence < 0.4) {
+        distribution.weak++;
+      } else if (confidence < 0.7) {
+        distribution.moderate++;
+      } else {
+        distribution.strong++;
+      }
+    }
+    
+    return distribution;
+  }
+
+  private getTemporalPatterns(temporalEdges: any[]): any {
+    const patterns: any = {};
+    for (const edge of temporalEdges) {
+      const type = edge.metadata.edge_type;
+      patterns[type] = (patterns[type] || 0) + 1;
+    }
+    return patterns;
+  }
+
+  private setupErrorHandling(): void {
+    this.server.onerror = (error) => {
+      console.error('[ASR-GoT MCP Server Error]', error);
+    };
+  }
+
+  // Process-wide, so only installed by run(): an embedded server leaves its host's signals alone
+  private setupProcessHandlers(): void {
+    // Graceful shutdown handling for DXT environment
+    const gracefulShutdown = async (signal: string) => {
+      console.error(`[ASR-GoT MCP Server] Received ${signal}, shutting down gracefully...`);
+      try {
+        // Clean up active contexts and resources
+        this.activeContexts.clear();
+        this.contextPipelines.clear();
+        await this.server.close();
+        console.error('[ASR-GoT MCP Server] Server closed successfully');
+      } catch (error) {
+        console.error('[ASR-GoT MCP Server] Error during shutdown:', error);
+      }
+      process.exit(0);
+    };
+
+    process.on('SIGINT', () => gracefulShutdown('SIGINT'));
+    process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
+    
+    // Handle uncaught exceptions and rejections
+    process.on('uncaughtException', (error) => {
+      console.error('[ASR-GoT MCP Server] Uncaught exception:', error);
+      gracefulShutdown('uncaughtException');
+    });
+
+    process.on('unhandledRejection', (reason, promise) => {
+      console.error('[ASR-GoT MCP Server] Unhandled rejection at:', promise, 'reason:', reason);
+      gracefulShutdown('unhandledRejection');
+    });
+  }
+
+  async connect(transport: Transport): Promise<void> {
+    await this.server.connect(transport);
+  }
+
+  async run(): Promise<void> {
+    try {
+      this.setupProcessHandlers();
+      await this.connect(new StdioServerTransport());
+      console.error('[ASR-GoT MCP Server] Started successfully - listening on stdio transport');
+      console.error('[ASR-GoT MCP Server] Server name: asr-got-scientific-reasoning');
+      console.error('[ASR-GoT MCP Server] Version: 1.0.0');
+      console.error('[ASR-GoT MCP Server] Available tools: 22 (execute_asr_got_analysis, get_analysis_status, extract_subgraph, validate_graph_structure, get_research_insights, export_graph, import_graph, find_paths, undo_last_change, get_change_log, create_snapshot, compare_analyses, query_graph, create_super_node, collapse_super_node, update_node, update_edge, remove_edge, remove_hyperedge, run_stage, resume_analysis, cancel_analysis)');
+    } catch (error) {
+      console.error('[ASR-GoT MCP Server] Failed to start:', error);
+      throw error;
+    }
+  }
+}
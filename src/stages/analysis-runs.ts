@@ -0,0 +1,69 @@
+export interface AnalysisRun {
+  signal: AbortSignal; // aborted by cancel or when timeoutMs runs out
+  end(): void; // call once the run's context is stored
+}
+
+/**
+ * Pipeline runs in progress, by context id
+ * A context runs one set of stages at a time, and takes no manual graph edits while it does:
+ * an edit would be journaled into the running stage's transaction and rolled back or checkpointed with it.
+ */
+export class AnalysisRunRegistry {
+  private runs = new Map<string, { controller: AbortController; finished: Promise<void> }>();
+
+  /**
+   * Register a run so it can be cancelled; timeoutMs aborts it as well
+   * End the run only once its context is stored: cancel waits for that to report the partial results.
+   */
+  begin(contextId: string, timeoutMs?: number): AnalysisRun {
+    if (this.runs.has(contextId)) {
+      throw new Error(`Context ${contextId} is already running pipeline stages`);
+    }
+
+    const controller = new AbortController();
+    const timer = timeoutMs === undefined ? undefined : setTimeout(
+      () => controller.abort(new Error(`Pipeline execution timeout after ${timeoutMs / 1000} seconds`)),
+      timeoutMs
+    );
+    let markFinished: () => void = () => undefined;
+    const finished = new Promise<void>(resolve => { markFinished = resolve; });
+    this.runs.set(contextId, { controller, finished });
+
+    return {
+      signal: controller.signal,
+      end: () => {
+        clearTimeout(timer);
+        this.runs.delete(contextId);
+        markFinished();
+      }
+    };
+  }
+
+  isRunning(contextId: string): boolean {
+    return this.runs.has(contextId);
+  }
+
+  /**
+   * Throw if the context is running stages; call before editing its graph by hand
+   */
+  assertIdle(contextId: string): void {
+    if (this.runs.has(contextId)) {
+      throw new Error(`Context ${contextId} is running pipeline stages; wait for the run to end or cancel it first`);
+    }
+  }
+
+  /**
+   * Abort the context's run and wait until it has ended; false if it has none
+   */
+  async cancel(contextId: string, reason: string): Promise<boolean> {
+    const running = this.runs.get(contextId);
+    if (!running) {
+      return false;
+    }
+
+    running.controller.abort(new Error(reason));
+    // Stages stop at their next cancellation check
+    await running.finished;
+    return true;
+  }
+}
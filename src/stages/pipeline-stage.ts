@@ -0,0 +1,66 @@
+import { ASRGoTContext, ComputationalBudget, ResearchQuery, StageResult } from '../types/index.js';
+import { ASRGoTGraph } from '../core/graph.js';
+import { SeededRandom } from '../utils/random.js';
+
+/**
+ * What a stage is given besides the context and graph on each run
+ * Record created node and edge ids and any warnings on result; throwing fails the attempt.
+ * Ids the graph generates during a stage are drawn from random too, so seeded runs are reproducible.
+ */
+export interface StageRun {
+  query: ResearchQuery;
+  result: StageResult;
+  attempt: number; // 0 on the first attempt
+  failSafe: boolean; // fail-safe mode is active: do less, more cheaply
+  random: SeededRandom; // seeded from the run's seed, stage and attempt; use it instead of Math.random
+  signal: AbortSignal; // aborted on cancellation or when the time budget runs out; check it in long loops
+}
+
+/**
+ * One step of the ASR-GoT pipeline
+ * Every attempt of execute runs in a graph transaction, so a failed attempt leaves no partial writes.
+ * When all attempts fail, fallback (if any) produces minimal output so that later stages can continue.
+ */
+export interface PipelineStage {
+  name: string;
+  dependencies?: string[]; // names of stages that must run earlier in the list
+  execute(context: ASRGoTContext, graph: ASRGoTGraph, run: StageRun): Promise<void> | void;
+  fallback?(context: ASRGoTContext, graph: ASRGoTGraph, run: StageRun): Promise<void> | void;
+}
+
+export interface PipelineRunOptions {
+  signal?: AbortSignal; // aborting it stops the run before the next stage, or mid-stage where stages check
+  budget?: Partial<ComputationalBudget>; // limits replacing those of the context (or the defaults) from this run on
+}
+
+export interface PipelineOptions {
+  // A list replaces the default stages; a function receives the defaults and returns the list to run
+  stages?: PipelineStage[] | ((defaults: PipelineStage[]) => PipelineStage[]);
+}
+
+/**
+ * Check that stage names are unique and every dependency runs before the stage needing it
+ */
+export function validateStageList(stages: PipelineStage[]): PipelineStage[] {
+  if (!Array.isArray(stages) || stages.length === 0) {
+    throw new Error('Invalid stage list: at least one stage is required');
+  }
+
+  const seen = new Set<string>();
+  for (const stage of stages) {
+    if (!stage || !stage.name || typeof stage.execute !== 'function') {
+      throw new Error('Invalid stage list: every stage needs a name and an execute method');
+    }
+    if (seen.has(stage.name)) {
+      throw new Error(`Invalid stage list: stage name "${stage.name}" is used twice`);
+    }
+
+    const missing = (stage.dependencies ?? []).filter(dependency => !seen.has(dependency));
+    if (missing.length > 0) {
+      throw new Error(`Invalid stage list: "${stage.name}" depends on ${missing.map(name => `"${name}"`).join(', ')}, which must run before it`);
+    }
+    seen.add(stage.name);
+  }
+
+  return stages;
+}
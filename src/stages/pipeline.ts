@@ -1,4 +1,3 @@
-import { v4 as uuidv4 } from 'uuid';
 import { 
   ASRGoTContext, 
   StageResult, 
@@ -7,12 +6,27 @@ import {
   NodeMetadata,
   EdgeMetadata,
   ConfidenceVector,
-  ResearchQuery 
+  ResearchQuery,
+  BudgetDegradation,
+  ComputationalBudget
 } from '../types/index.js';
 import { ASRGoTGraph } from '../core/graph.js';
 import { BiasDetector } from '../utils/bias-detector.js';
 import { TemporalAnalyzer } from '../utils/temporal-analyzer.js';
 import { CausalInference } from '../utils/causal-inference.js';
+import { SeededRandom } from '../utils/random.js';
+import { PipelineStage, PipelineOptions, PipelineRunOptions, StageRun, validateStageList } from './pipeline-stage.js';
+
+// Budget of a new analysis unless the run options replace parts of it (P1.21)
+export const DEFAULT_COMPUTATIONAL_BUDGET: ComputationalBudget = {
+  max_nodes: 1000,
+  max_edges: 5000,
+  max_execution_time_ms: 300000 // 5 minutes
+};
+
+// Work limits used when the computational budget leaves them out
+const DEFAULT_MAX_PAIRWISE_COMPARISONS = 50000;
+const DEFAULT_MAX_TOPOLOGY_COST = 5000000;
 
 export class ASRGoTPipeline {
   private graph: ASRGoTGraph;
@@ -20,18 +34,54 @@ export class ASRGoTPipeline {
   private temporalAnalyzer: TemporalAnalyzer;
   private causalInference: CausalInference;
   private failSafeActive: boolean = false;
+  private stages: PipelineStage[];
+  private random: SeededRandom = new SeededRandom(SeededRandom.randomSeed()); // replaced for every stage attempt
+  private signal: AbortSignal = new AbortController().signal; // the current run's cancellation signal
 
-  constructor() {
-    this.graph = new ASRGoTGraph();
+  constructor(graph: ASRGoTGraph = new ASRGoTGraph(), options: PipelineOptions = {}) {
+    this.graph = graph;
     this.biasDetector = new BiasDetector();
     this.temporalAnalyzer = new TemporalAnalyzer();
     this.causalInference = new CausalInference();
+
+    const defaults = this.createDefaultStages();
+    this.stages = validateStageList(
+      typeof options.stages === 'function' ? options.stages(defaults) : options.stages ?? defaults
+    );
+  }
+
+  /**
+   * Pipeline over the graph of a stored context, e.g. one loaded from a context store
+   * context.graph_state is pointed at the rebuilt graph's state, so edits to either show in both
+   */
+  static fromContext(context: ASRGoTContext, options: PipelineOptions = {}): ASRGoTPipeline {
+    const graph = ASRGoTGraph.fromState(context.graph_state);
+    graph.setBudget(context.computational_budget);
+    context.graph_state = graph.getState();
+    return new ASRGoTPipeline(graph, options);
+  }
+
+  /**
+   * The stages this pipeline runs, in order (stage numbers are positions in this list, from 1)
+   */
+  getStages(): PipelineStage[] {
+    return [...this.stages];
   }
 
   /**
-   * Execute the complete 8-stage ASR-GoT pipeline with fail-safe mechanisms
+   * Execute every stage (the 8 ASR-GoT stages unless replaced) with fail-safe mechanisms
    */
-  async executeComplete(query: ResearchQuery, userProfile: any): Promise<ASRGoTContext> {
+  async executeComplete(query: ResearchQuery, userProfile: any, options: PipelineRunOptions = {}): Promise<ASRGoTContext> {
+    return this.executeFromStage(1, query, userProfile, options);
+  }
+
+  /**
+   * Execute stages from startStage to the last one against the current graph
+   * Used to continue an analysis whose graph was seeded elsewhere (e.g. imported)
+   */
+  async executeFromStage(startStage: number, query: ResearchQuery, userProfile: any, options: PipelineRunOptions = {}): Promise<ASRGoTContext> {
+    this.assertStageRange(startStage, this.stages.length);
+
     const context: ASRGoTContext = {
       task_query: query.query,
       user_profile: userProfile,
@@ -45,16 +95,66 @@ export class ASRGoTPipeline {
       graph_state: this.graph.getState(),
       stage_results: [],
       fail_safe_active: false,
-      computational_budget: {
-        max_nodes: 1000,
-        max_edges: 5000,
-        max_execution_time_ms: 300000 // 5 minutes
-      }
+      computational_budget: { ...DEFAULT_COMPUTATIONAL_BUDGET }
     };
 
+    return this.runStages(context, query, startStage, this.stages.length, options);
+  }
+
+  /**
+   * Run stages startStage..endStage on an existing context, e.g. stages 4-8 again after adding evidence by hand
+   * Results and checkpoints of the stages being run, and of every later stage, are discarded first:
+   * they no longer follow from the graph. A checkpoint of the graph is taken after each stage.
+   * A cancelled run, or one exceeding the time budget, stops with the stages completed so far kept
+   * and the interrupted stage rolled back; context.cancellation says where and why.
+   */
+  async runStages(
+    context: ASRGoTContext,
+    query: ResearchQuery,
+    startStage: number,
+    endStage: number = this.stages.length,
+    options: PipelineRunOptions = {}
+  ): Promise<ASRGoTContext> {
+    this.assertStageRange(startStage, endStage);
+
+    this.failSafeActive = context.fail_safe_active;
+    delete context.cancellation;
+    if (options.budget) {
+      context.computational_budget = { ...context.computational_budget, ...options.budget };
+    }
+    this.graph.setBudget(context.computational_budget);
+    this.recordBudgetOverrun(context, startStage);
+    context.research_query = query;
+    context.seed = query.seed ?? context.seed ?? SeededRandom.randomSeed();
+    context.stage_results = context.stage_results.filter(result => result.stage < startStage);
+    context.checkpoints = (context.checkpoints ?? []).filter(checkpoint => checkpoint.stage < startStage);
+    // The state the run starts from; an existing checkpoint is kept, since the graph may have been edited since
+    if (!context.checkpoints.some(checkpoint => checkpoint.stage === startStage - 1)) {
+      this.takeCheckpoint(context, startStage - 1);
+    }
+
+    // The time budget is enforced as a cancellation, so it also stops a stage that overruns it
+    const controller = new AbortController();
+    const budgetMs = context.computational_budget.max_execution_time_ms;
+    const deadline = setTimeout(
+      () => controller.abort(new Error(`Execution time budget of ${budgetMs} ms exceeded`)),
+      budgetMs
+    );
+    const forwardAbort = () => controller.abort(options.signal?.reason);
+    if (options.signal?.aborted) {
+      forwardAbort();
+    } else {
+      options.signal?.addEventListener('abort', forwardAbort, { once: true });
+    }
+    this.signal = controller.signal;
+
     try {
-      // Execute all 8 stages sequentially with fail-safe mechanisms
-      for (let stage = 1; stage <= 8; stage++) {
+      // Execute the requested stages sequentially with fail-safe mechanisms
+      for (let stage = startStage; stage <= endStage; stage++) {
+        if (this.signal.aborted) {
+          this.recordCancellation(context, stage);
+          break;
+        }
         context.current_stage = stage;
         
         try {
@@ -71,6 +171,11 @@ export class ASRGoTPipeline {
           }
           
         } catch (error) {
+          if (this.signal.aborted) {
+            this.recordCancellation(context, stage);
+            break;
+          }
+
           console.error(`Critical error in stage ${stage}:`, error);
           this.handleCriticalError(context, stage, error as Error);
           
@@ -82,9 +187,10 @@ export class ASRGoTPipeline {
         
         // Update graph state
         context.graph_state = this.graph.getState();
+        this.takeCheckpoint(context, stage);
         
-        // Check computational budget
-        if (this.exceedsComputationalBudget(context)) {
+        // Check computational budget; a graph that started over it was reported before the run
+        if (!context.budget_overrun && this.exceedsComputationalBudget(context)) {
           console.warn('Computational budget exceeded, activating fail-safe mode');
           this.activateFailSafe(context);
         }
@@ -96,17 +202,55 @@ export class ASRGoTPipeline {
       console.error('Pipeline execution failed:', error);
       this.handlePipelineFailure(context, error as Error);
       return context;
+    } finally {
+      clearTimeout(deadline);
+      options.signal?.removeEventListener('abort', forwardAbort);
+    }
+  }
+
+  /**
+   * Put the graph back to the checkpoint taken after a stage, as one undoable graph operation
+   */
+  restoreCheckpoint(context: ASRGoTContext, afterStage: number): void {
+    const checkpoint = context.checkpoints?.find(existing => existing.stage === afterStage);
+    if (!checkpoint) {
+      throw new Error(`No checkpoint after stage ${afterStage}`);
+    }
+
+    this.graph.restoreState(checkpoint.graph_state, `Restored the checkpoint after stage ${afterStage} (${checkpoint.stage_name})`);
+    context.graph_state = this.graph.getState();
+  }
+
+  private takeCheckpoint(context: ASRGoTContext, stage: number): void {
+    const checkpoints = (context.checkpoints ?? []).filter(existing => existing.stage !== stage);
+    checkpoints.push({
+      stage,
+      stage_name: stage === 0 ? 'Start' : this.stages[stage - 1].name,
+      created_at: new Date(),
+      graph_state: structuredClone(this.graph.getState())
+    });
+    context.checkpoints = checkpoints.sort((a, b) => a.stage - b.stage);
+  }
+
+  private assertStageRange(startStage: number, endStage: number): void {
+    const last = this.stages.length;
+    if (!Number.isInteger(startStage) || startStage < 1 || startStage > last) {
+      throw new Error(`Invalid start stage: ${startStage} (expected 1-${last})`);
+    }
+    if (!Number.isInteger(endStage) || endStage < startStage || endStage > last) {
+      throw new Error(`Invalid end stage: ${endStage} (expected ${startStage}-${last})`);
     }
   }
 
   private async executeStage(stage: number, context: ASRGoTContext, query: ResearchQuery): Promise<StageResult> {
     const startTime = Date.now();
     const maxRetries = this.failSafeActive ? 1 : 3;
+    const definition = this.stages[stage - 1];
     let attempt = 0;
     
     const result: StageResult = {
       stage,
-      stage_name: this.getStageNames()[stage - 1],
+      stage_name: definition.name,
       success: false,
       nodes_created: [],
       edges_created: [],
@@ -115,92 +259,191 @@ export class ASRGoTPipeline {
       execution_time_ms: 0
     };
 
-    while (attempt < maxRetries) {
-      try {
-        // Add timeout protection
-        const timeoutPromise = new Promise((_, reject) => {
-          setTimeout(() => reject(new Error(`Stage ${stage} timeout after 30 seconds`)), 30000);
-        });
+    // Graph-generated ids come from the stage's generator too; restored to random UUIDs afterwards
+    this.graph.setIdGenerator(() => this.random.uuid());
+    const runSignal = this.signal;
+    try {
+      while (attempt < maxRetries) {
+        // Each attempt draws from its own stream, so re-running a stage alone replays it exactly
+        this.random = new SeededRandom(SeededRandom.derive(context.seed!, stage, attempt));
+
+        // Each attempt is atomic: a failed attempt leaves the graph as it found it
+        this.graph.beginTransaction();
+
+        // Each attempt has its own signal, aborted by the run's signal or by the per-stage timeout
+        const attemptController = new AbortController();
+        const forwardAbort = () => attemptController.abort(runSignal.reason);
+        if (runSignal.aborted) {
+          forwardAbort();
+        } else {
+          runSignal.addEventListener('abort', forwardAbort, { once: true });
+        }
+        const timer = setTimeout(
+          () => attemptController.abort(new Error(`Stage ${stage} timeout after 30 seconds`)),
+          30000
+        );
+        this.signal = attemptController.signal;
 
-        const stagePromise = this.executeStageLogic(stage, context, query, result, attempt);
-        await Promise.race([stagePromise, timeoutPromise]);
+        try {
+          // The stage is always awaited, so a timed-out attempt has stopped writing before it is rolled back
+          try {
+            await this.executeStageLogic(definition, context, query, result, attempt);
+            this.signal.throwIfAborted();
+          } finally {
+            clearTimeout(timer);
+            runSignal.removeEventListener('abort', forwardAbort);
+            this.signal = runSignal;
+          }
         
-        result.success = true;
-        break;
+          this.graph.commitTransaction();
+          result.success = true;
+          break;
         
-      } catch (error) {
-        attempt++;
-        const errorMsg = `Stage ${stage} attempt ${attempt} error: ${(error as Error).message}`;
-        result.errors.push(errorMsg);
-        console.warn(errorMsg);
+        } catch (error) {
+          this.graph.rollbackTransaction();
+          result.nodes_created = [];
+          result.edges_created = [];
+
+          // A cancelled stage is neither retried nor replaced by fallback output
+          if (this.signal.aborted) {
+            throw error;
+          }
+
+          attempt++;
+          const errorMsg = `Stage ${stage} attempt ${attempt} error: ${(error as Error).message}`;
+          result.errors.push(errorMsg);
+          console.warn(errorMsg);
         
-        // If this is the last attempt or we're in fail-safe mode, create fallback output
-        if (attempt >= maxRetries) {
-          result.success = false;
+          // If this is the last attempt or we're in fail-safe mode, create fallback output
+          if (attempt >= maxRetries) {
+            result.success = false;
           
-          try {
-            // Always attempt to create minimal viable output
-            await this.createFailSafeOutput(stage, context, result);
-            result.success = true; // Mark as success to continue pipeline
-            result.warnings.push(`Stage ${stage} completed with fallback output after ${attempt} attempts`);
-          } catch (fallbackError) {
-            result.errors.push(`Fallback creation failed: ${(fallbackError as Error).message}`);
-            // Even if fallback fails, we continue - just with minimal/empty output
-            result.success = true;
-            result.warnings.push(`Stage ${stage} continued with minimal output due to fallback failure`);
+            try {
+              // Always attempt to create minimal viable output
+              if (definition.fallback) {
+                await definition.fallback(context, this.graph, { query, result, attempt, failSafe: this.failSafeActive, random: this.random, signal: this.signal });
+                result.warnings.push(`Stage ${stage} completed with fallback output after ${attempt} attempts`);
+              } else {
+                result.warnings.push(`Stage ${stage} has no fallback and continued without output after ${attempt} attempts`);
+              }
+              result.success = true; // Mark as success to continue pipeline
+            } catch (fallbackError) {
+              result.errors.push(`Fallback creation failed: ${(fallbackError as Error).message}`);
+              // Even if fallback fails, we continue - just with minimal/empty output
+              result.success = true;
+              result.warnings.push(`Stage ${stage} continued with minimal output due to fallback failure`);
+            }
+          } else {
+            // Wait before retry (exponential backoff)
+            await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 100));
           }
-        } else {
-          // Wait before retry (exponential backoff)
-          await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 100));
         }
       }
+    } finally {
+      this.graph.setIdGenerator();
     }
     
     result.execution_time_ms = Date.now() - startTime;
     return result;
   }
 
-  private async executeStageLogic(stage: number, context: ASRGoTContext, query: ResearchQuery, result: StageResult, attempt: number): Promise<void> {
+  private async executeStageLogic(definition: PipelineStage, context: ASRGoTContext, query: ResearchQuery, result: StageResult, attempt: number): Promise<void> {
     // Clear previous attempt's partial results if retrying
     if (attempt > 0) {
       result.nodes_created = [];
       result.edges_created = [];
+      delete result.degradations;
     }
 
-    switch (stage) {
-      case 1:
-        await this.stage1_Initialization(context, query, result);
-        break;
-      case 2:
-        await this.stage2_Decomposition(context, query, result);
-        break;
-      case 3:
-        await this.stage3_HypothesisPlanning(context, query, result);
-        break;
-      case 4:
-        await this.stage4_EvidenceIntegration(context, query, result);
-        break;
-      case 5:
-        await this.stage5_PruningMerging(context, query, result);
-        break;
-      case 6:
-        await this.stage6_SubgraphExtraction(context, query, result);
-        break;
-      case 7:
-        await this.stage7_Composition(context, query, result);
-        break;
-      case 8:
-        await this.stage8_Reflection(context, query, result);
-        break;
-      default:
-        throw new Error(`Invalid stage: ${stage}`);
-    }
+    this.signal.throwIfAborted();
+    const run: StageRun = { query, result, attempt, failSafe: this.failSafeActive, random: this.random, signal: this.signal };
+    await definition.execute(context, this.graph, run);
+  }
+
+  /**
+   * The eight ASR-GoT stages (P1.1-P1.8), each with the minimal output it falls back to
+   */
+  private createDefaultStages(): PipelineStage[] {
+    return [
+      {
+        name: 'Initialization',
+        execute: (context, graph, run) => this.stage1_Initialization(context, run.query, run.result),
+        fallback: (context, graph, run) => {
+          run.result.nodes_created.push(this.createBasicRootNode(context.task_query));
+        }
+      },
+      {
+        name: 'Decomposition',
+        dependencies: ['Initialization'],
+        execute: (context, graph, run) => this.stage2_Decomposition(context, run.query, run.result),
+        fallback: (context, graph, run) => {
+          run.result.nodes_created.push(...this.createBasicDimensions(context.task_query));
+        }
+      },
+      {
+        name: 'Hypothesis/Planning',
+        dependencies: ['Decomposition'],
+        execute: (context, graph, run) => this.stage3_HypothesisPlanning(context, run.query, run.result),
+        fallback: (context, graph, run) => {
+          run.result.nodes_created.push(...this.createBasicHypotheses());
+        }
+      },
+      {
+        name: 'Evidence Integration',
+        dependencies: ['Hypothesis/Planning'],
+        execute: (context, graph, run) => this.stage4_EvidenceIntegration(context, run.query, run.result),
+        // Skip complex evidence integration
+        fallback: () => {}
+      },
+      {
+        name: 'Pruning/Merging',
+        execute: (context, graph, run) => this.stage5_PruningMerging(context, run.query, run.result),
+        // Basic pruning only
+        fallback: (context, graph) => {
+          graph.pruneNodes(0.1, 0.05);
+        }
+      },
+      {
+        name: 'Subgraph Extraction',
+        execute: (context, graph, run) => this.stage6_SubgraphExtraction(context, run.query, run.result),
+        // Extract all remaining nodes
+        fallback: (context, graph) => {
+          (context as any).extracted_subgraph = { nodes: Array.from(graph.getState().vertices.values()), edges: [] };
+        }
+      },
+      {
+        name: 'Composition',
+        dependencies: ['Subgraph Extraction'],
+        execute: (context, graph, run) => this.stage7_Composition(context, run.query, run.result),
+        fallback: (context) => {
+          (context as any).final_narrative = this.generateBasicNarrative(context.task_query);
+        }
+      },
+      {
+        name: 'Reflection',
+        execute: (context, graph, run) => this.stage8_Reflection(context, run.query, run.result),
+        // Basic audit
+        fallback: (context) => {
+          (context as any).audit_results = { criticalIssues: [], warnings: [], quality_score: 0.5 };
+        }
+      }
+    ];
   }
 
   // Stage 1: Initialization (P1.1)
   private async stage1_Initialization(context: ASRGoTContext, query: ResearchQuery, result: StageResult): Promise<void> {
+    if (!this.hasBudgetFor(1, 0)) {
+      this.recordDegradation(result, {
+        action: 'skip_root',
+        planned: 1,
+        allowed: 0,
+        reason: 'no node left in the budget for the root'
+      });
+      return;
+    }
+
     const rootMetadata: NodeMetadata = {
-      node_id: uuidv4(),
+      node_id: this.random.uuid(),
       label: 'Task Understanding',
       type: NodeType.ROOT,
       timestamp: new Date(),
@@ -237,6 +480,20 @@ export class ASRGoTPipeline {
     const rootNodes = Array.from(this.graph.getState().vertices.values())
       .filter(node => node.metadata.type === NodeType.ROOT);
     
+    // Each dimension costs a node and an edge, and a missing root one more node
+    const remaining = this.graph.getRemainingBudget();
+    const rootCost = rootNodes.length === 0 ? 1 : 0;
+    const allowed = Math.max(0, Math.min(dimensions.length, remaining.nodes - rootCost, remaining.edges));
+    if (allowed < dimensions.length) {
+      this.recordDegradation(result, {
+        action: 'limit_dimensions',
+        planned: dimensions.length,
+        allowed,
+        reason: `${remaining.nodes} nodes and ${remaining.edges} edges left in the budget`
+      });
+      if (allowed === 0) return;
+    }
+
     let rootNode;
     if (rootNodes.length === 0) {
       // Create emergency root node if missing
@@ -252,9 +509,9 @@ export class ASRGoTPipeline {
       rootNode = rootNodes[0];
     }
 
-    for (const dimension of dimensions) {
+    for (const dimension of dimensions.slice(0, allowed)) {
       const dimMetadata: NodeMetadata = {
-        node_id: uuidv4(),
+        node_id: this.random.uuid(),
         label: dimension,
         type: NodeType.DIMENSION,
         timestamp: new Date(),
@@ -282,7 +539,7 @@ export class ASRGoTPipeline {
 
       // Connect to root
       const edgeMetadata: EdgeMetadata = {
-        edge_id: uuidv4(),
+        edge_id: this.random.uuid(),
         edge_type: EdgeType.SPECIALIZATION,
         confidence: dimMetadata.confidence,
         timestamp: new Date()
@@ -299,8 +556,8 @@ export class ASRGoTPipeline {
     let dimensionNodes = Array.from(this.graph.getState().vertices.values())
       .filter(node => node.metadata.type === NodeType.DIMENSION);
 
-    // Ensure we have at least basic dimensions to work with
-    if (dimensionNodes.length === 0) {
+    // Ensure we have at least basic dimensions to work with, if the budget has room for them and a hypothesis
+    if (dimensionNodes.length === 0 && this.hasBudgetFor(3, 1)) {
       const basicDimIds = this.createBasicDimensions(query.query);
       result.nodes_created.push(...basicDimIds);
       result.warnings.push(`Created ${basicDimIds.length} basic dimensions for hypothesis generation`);
@@ -313,15 +570,30 @@ export class ASRGoTPipeline {
       }
     }
 
+    // Generate 3-5 hypotheses per dimension, each costing a node and an edge, as far as the budget allows
+    const planned = dimensionNodes.map(() => this.failSafeActive ? 2 : this.random.int(3, 5));
+    const remaining = this.graph.getRemainingBudget();
+    const counts = this.allocate(planned, Math.min(remaining.nodes, remaining.edges));
+    const plannedTotal = planned.reduce((total, count) => total + count, 0);
+    const allowedTotal = counts.reduce((total, count) => total + count, 0);
+    if (allowedTotal < plannedTotal) {
+      this.recordDegradation(result, {
+        action: 'limit_hypotheses',
+        planned: plannedTotal,
+        allowed: allowedTotal,
+        reason: `${remaining.nodes} nodes and ${remaining.edges} edges left in the budget`
+      });
+    }
+
     // Process each dimension node for hypothesis generation
-    for (const dimNode of dimensionNodes) {
-      // Generate 3-5 hypotheses per dimension
-      const numHypotheses = this.failSafeActive ? 2 : Math.floor(Math.random() * 3) + 3;
+    for (const [index, dimNode] of dimensionNodes.entries()) {
+      this.signal.throwIfAborted();
+      const numHypotheses = counts[index];
       
       for (let i = 0; i < numHypotheses; i++) {
         try {
           const hypMetadata: NodeMetadata = {
-            node_id: uuidv4(),
+            node_id: this.random.uuid(),
             label: `Hypothesis ${i + 1} for ${dimNode.metadata.label}`,
             type: NodeType.HYPOTHESIS,
             timestamp: new Date(),
@@ -341,7 +613,7 @@ export class ASRGoTPipeline {
               change: 'Hypothesis generated',
               author: 'ASR-GoT System'
             }],
-            impact_score: Math.random() * 0.8 + 0.2,
+            impact_score: this.random.range(0.2, 1),
             plan: this.generateExecutionPlan(dimNode.metadata.label)
           };
 
@@ -351,7 +623,7 @@ export class ASRGoTPipeline {
           // Connect to dimension with error handling
           try {
             const edgeMetadata: EdgeMetadata = {
-              edge_id: uuidv4(),
+              edge_id: this.random.uuid(),
               edge_type: EdgeType.SUPPORTIVE,
               confidence: hypMetadata.confidence,
               timestamp: new Date()
@@ -381,41 +653,74 @@ export class ASRGoTPipeline {
       return scoreB - scoreA;
     });
 
-    const maxHypotheses = this.failSafeActive ? 3 : Math.min(10, sortedHypotheses.length);
+    let maxHypotheses = this.failSafeActive ? 3 : Math.min(10, sortedHypotheses.length);
+
+    // Each piece of evidence costs a node and an edge; spread what the budget leaves over the hypotheses
+    const maxEvidencePerHypothesis = this.failSafeActive ? 1 : 3;
+    const remaining = this.graph.getRemainingBudget();
+    const capacity = Math.min(remaining.nodes, remaining.edges);
+    let evidenceCap = maxEvidencePerHypothesis;
+    if (maxHypotheses * maxEvidencePerHypothesis > capacity) {
+      const plannedHypotheses = maxHypotheses;
+      evidenceCap = Math.max(1, Math.floor(capacity / maxHypotheses));
+      maxHypotheses = Math.min(maxHypotheses, capacity);
+      this.recordDegradation(result, {
+        action: 'limit_evidence',
+        planned: plannedHypotheses * maxEvidencePerHypothesis,
+        allowed: maxHypotheses * evidenceCap,
+        reason: `${remaining.nodes} nodes and ${remaining.edges} edges left in the budget`
+      });
+    }
+    let skippedIbnChecks = 0;
 
     for (let i = 0; i < maxHypotheses; i++) {
+      this.signal.throwIfAborted();
       const hypothesis = sortedHypotheses[i];
       
       try {
-        // Simulate evidence gathering and integration with error handling
-        let evidenceNodes: any[] = [];
+        // Evidence and the confidence updates it drives are integrated as one unit
+        const nodesBefore = result.nodes_created.length;
+        const edgesBefore = result.edges_created.length;
         try {
-          evidenceNodes = await this.gatherEvidence(hypothesis, query, result);
+          await this.graph.transaction(async () => {
+            const evidenceNodes = await this.gatherEvidence(hypothesis, query, result, evidenceCap);
+
+            // Evidence that supports a hypothesis together is also recorded as one n-ary relation (P1.9)
+            if (evidenceNodes.length >= 2) {
+              this.graph.addHyperedge([hypothesis.id, ...evidenceNodes.map(evidence => evidence.id)], {
+                edge_id: this.random.uuid(),
+                edge_type: EdgeType.SUPPORTIVE,
+                confidence: this.calculateJointConfidence(evidenceNodes.map(evidence => evidence.metadata.confidence)),
+                timestamp: new Date()
+              });
+            }
+
+            // Update hypothesis confidence based on evidence
+            for (const evidenceNode of evidenceNodes) {
+              const newConfidence = this.calculateUpdatedConfidence(
+                hypothesis.metadata.confidence,
+                evidenceNode.metadata.confidence
+              );
+
+              this.graph.updateNodeConfidence(hypothesis.id, newConfidence, {
+                reliability: 0.7,
+                statistical_power: evidenceNode.metadata.statistical_power
+              });
+            }
+          });
         } catch (evidenceError) {
-          result.warnings.push(`Evidence gathering failed for hypothesis ${hypothesis.id}: ${(evidenceError as Error).message}`);
-          evidenceNodes = [];
-        }
-        
-        // Update hypothesis confidence based on evidence
-        for (const evidenceNode of evidenceNodes) {
-          try {
-            const newConfidence = this.calculateUpdatedConfidence(
-              hypothesis.metadata.confidence,
-              evidenceNode.metadata.confidence
-            );
-            
-            this.graph.updateNodeConfidence(hypothesis.id, newConfidence, {
-              reliability: 0.7,
-              statistical_power: evidenceNode.metadata.statistical_power
-            });
-          } catch (confError) {
-            result.warnings.push(`Confidence update failed for hypothesis ${hypothesis.id}: ${(confError as Error).message}`);
-          }
+          result.nodes_created.length = nodesBefore;
+          result.edges_created.length = edgesBefore;
+          result.warnings.push(`Evidence integration rolled back for hypothesis ${hypothesis.id}: ${(evidenceError as Error).message}`);
         }
 
-        // Check for IBN creation opportunities with error handling
+        // Check for IBN creation opportunities with error handling; an IBN costs a node and two edges
         try {
-          await this.checkForIBNs(hypothesis, result);
+          if (this.hasBudgetFor(1, 2)) {
+            await this.checkForIBNs(hypothesis, result);
+          } else {
+            skippedIbnChecks++;
+          }
         } catch (ibnError) {
           result.warnings.push(`IBN check failed for hypothesis ${hypothesis.id}: ${(ibnError as Error).message}`);
         }
@@ -431,6 +736,26 @@ export class ASRGoTPipeline {
         result.warnings.push(`Evidence integration failed for hypothesis ${hypothesis.id}: ${(error as Error).message}`);
       }
     }
+
+    // Nodes linking different research clusters are IBN candidates too
+    try {
+      if (this.hasBudgetFor(1, 2)) {
+        await this.checkForCommunityIBNs(result);
+      } else {
+        skippedIbnChecks++;
+      }
+    } catch (ibnError) {
+      result.warnings.push(`Community IBN check failed: ${(ibnError as Error).message}`);
+    }
+
+    if (skippedIbnChecks > 0) {
+      this.recordDegradation(result, {
+        action: 'skip_ibn_checks',
+        planned: maxHypotheses + 1,
+        allowed: maxHypotheses + 1 - skippedIbnChecks,
+        reason: 'no room in the budget for another IBN and its two edges'
+      });
+    }
   }
 
   // Stage 5: Pruning/Merging (P1.5)
@@ -446,18 +771,19 @@ export class ASRGoTPipeline {
     const nodes = Array.from(this.graph.getState().vertices.values());
     const mergedPairs: string[] = [];
 
-    for (let i = 0; i < nodes.length - 1; i++) {
-      for (let j = i + 1; j < nodes.length; j++) {
-        if (mergedPairs.includes(nodes[i].id) || mergedPairs.includes(nodes[j].id)) continue;
-        
-        const similarity = this.calculateSemanticSimilarity(nodes[i], nodes[j]);
-        if (similarity >= 0.8) {
-          const mergedId = this.graph.mergeNodes(nodes[i].id, nodes[j].id, similarity);
-          if (mergedId) {
-            result.nodes_created.push(mergedId);
-            mergedPairs.push(nodes[i].id, nodes[j].id);
-            result.warnings.push(`Merged nodes ${nodes[i].id} and ${nodes[j].id}`);
-          }
+    for (const [i, j] of this.selectComparisonPairs(nodes.length, context, result)) {
+      this.signal.throwIfAborted();
+      if (mergedPairs.includes(nodes[i].id) || mergedPairs.includes(nodes[j].id)) continue;
+      // Only like merges with like; merging e.g. a dimension into the root would reroute its edges against the edge grammar
+      if (nodes[i].metadata.type !== nodes[j].metadata.type) continue;
+
+      const similarity = this.calculateSemanticSimilarity(nodes[i], nodes[j]);
+      if (similarity >= 0.8) {
+        const mergedId = this.graph.mergeNodes(nodes[i].id, nodes[j].id, similarity);
+        if (mergedId) {
+          result.nodes_created.push(mergedId);
+          mergedPairs.push(nodes[i].id, nodes[j].id);
+          result.warnings.push(`Merged nodes ${nodes[i].id} and ${nodes[j].id}`);
         }
       }
     }
@@ -465,6 +791,29 @@ export class ASRGoTPipeline {
 
   // Stage 6: Subgraph Extraction (P1.6)
   private async stage6_SubgraphExtraction(context: ASRGoTContext, query: ResearchQuery, result: StageResult): Promise<void> {
+    // Refresh centrality so extracted nodes can be ranked by structural importance (P1.22)
+    try {
+      // Global centrality runs a search from every node: about nodes x (nodes + edges) steps
+      const nodeCount = this.graph.getNodeCount();
+      const cost = nodeCount * (nodeCount + this.graph.getEdgeCount());
+      const maxCost = context.computational_budget.max_topology_cost ?? DEFAULT_MAX_TOPOLOGY_COST;
+      if (cost <= maxCost) {
+        this.graph.updateAllTopologyMetrics();
+      } else {
+        for (const nodeId of this.graph.getState().vertices.keys()) {
+          this.graph.updateTopologyMetrics(nodeId);
+        }
+        this.recordDegradation(result, {
+          action: 'local_topology_only',
+          planned: cost,
+          allowed: maxCost,
+          reason: 'global centrality over the topology cost limit; only degree centrality was refreshed'
+        });
+      }
+    } catch (metricsError) {
+      result.warnings.push(`Topology metrics update failed: ${(metricsError as Error).message}`);
+    }
+
     const extractionCriteria = {
       confidence_threshold: this.failSafeActive ? 0.1 : 0.3,
       impact_threshold: this.failSafeActive ? 0.05 : 0.2,
@@ -501,6 +850,18 @@ export class ASRGoTPipeline {
       }
     }
     
+    // Most central nodes first (weighted PageRank)
+    subgraph.nodes = [...subgraph.nodes].sort((a, b) =>
+      (b.metadata.topology_metrics?.pagerank ?? 0) - (a.metadata.topology_metrics?.pagerank ?? 0));
+
+    const centralHypotheses = subgraph.nodes
+      .filter(node => node.metadata.type === NodeType.HYPOTHESIS)
+      .slice(0, 3)
+      .map(node => node.metadata.label);
+    if (centralHypotheses.length > 0) {
+      result.warnings.push(`Structurally central hypotheses: ${centralHypotheses.join('; ')}`);
+    }
+
     // Store subgraph in context for composition stage
     (context as any).extracted_subgraph = subgraph;
     
@@ -570,55 +931,33 @@ export class ASRGoTPipeline {
     console.log('Fail-safe mode activated');
   }
 
-  private async createFailSafeOutput(stage: number, context: ASRGoTContext, result: StageResult): Promise<void> {
-    // Create minimal viable output for failed stage
-    switch (stage) {
-      case 1: {
-        // Create basic root node
-        const basicRoot = this.createBasicRootNode(context.task_query);
-        result.nodes_created.push(basicRoot);
-        break;
-      }
-      case 2: {
-        // Create minimal dimension nodes
-        const basicDims = this.createBasicDimensions(context.task_query);
-        result.nodes_created.push(...basicDims);
-        break;
-      }
-      case 3: {
-        // Create basic hypotheses
-        const basicHyps = this.createBasicHypotheses();
-        result.nodes_created.push(...basicHyps);
-        break;
-      }
-      case 4:
-        // Skip complex evidence integration
-        break;
-      case 5:
-        // Basic pruning only
-        this.graph.pruneNodes(0.1, 0.05);
-        break;
-      case 6: {
-        // Extract all remaining nodes
-        const allNodes = Array.from(this.graph.getState().vertices.values());
-        (context as any).extracted_subgraph = { nodes: allNodes, edges: [] };
-        break;
-      }
-      case 7:
-        // Generate basic narrative
-        (context as any).final_narrative = this.generateBasicNarrative(context.task_query);
-        break;
-      case 8:
-        // Basic audit
-        (context as any).audit_results = { criticalIssues: [], warnings: [], quality_score: 0.5 };
-        break;
-    }
+  private recordCancellation(context: ASRGoTContext, stage: number): void {
+    const reason = this.signal.reason instanceof Error
+      ? this.signal.reason.message
+      : String(this.signal.reason ?? 'Analysis cancelled');
+
+    // A fail-safe retry may have been interrupted after the first attempt's result was recorded
+    context.stage_results = context.stage_results.filter(result => result.stage !== stage);
+    context.stage_results.push({
+      stage,
+      stage_name: this.stages[stage - 1].name,
+      success: false,
+      nodes_created: [],
+      edges_created: [],
+      errors: [`Stage ${stage} cancelled: ${reason}`],
+      warnings: ['Stage stopped before completing and left no changes; later stages were not run'],
+      execution_time_ms: 0
+    });
+    context.current_stage = stage - 1;
+    context.graph_state = this.graph.getState();
+    context.cancellation = { stage, reason, cancelled_at: new Date() };
+    console.warn(`Analysis cancelled at stage ${stage}: ${reason}`);
   }
 
   private handleCriticalError(context: ASRGoTContext, stage: number, error: Error): void {
     context.stage_results.push({
       stage,
-      stage_name: this.getStageNames()[stage - 1],
+      stage_name: this.stages[stage - 1].name,
       success: false,
       nodes_created: [],
       edges_created: [],
@@ -649,13 +988,6 @@ export class ASRGoTPipeline {
   }
 
   // Helper methods (implementations would be expanded in real system)
-  private getStageNames(): string[] {
-    return [
-      'Initialization', 'Decomposition', 'Hypothesis/Planning', 'Evidence Integration',
-      'Pruning/Merging', 'Subgraph Extraction', 'Composition', 'Reflection'
-    ];
-  }
-
   private generateFalsificationCriteria(dimension: string): string {
     const criteria = {
       'Scope': 'experimental validation',
@@ -679,23 +1011,23 @@ export class ASRGoTPipeline {
     return avgConfidence * 0.6 + impact * 0.4;
   }
 
-  private async gatherEvidence(hypothesis: any, query: ResearchQuery, result: StageResult): Promise<any[]> {
+  private async gatherEvidence(hypothesis: any, query: ResearchQuery, result: StageResult, maxEvidence: number = Infinity): Promise<any[]> {
     // Simulate evidence gathering
-    const numEvidence = this.failSafeActive ? 1 : Math.floor(Math.random() * 3) + 1;
+    const numEvidence = Math.min(maxEvidence, this.failSafeActive ? 1 : this.random.int(1, 3));
     const evidenceNodes = [];
 
     for (let i = 0; i < numEvidence; i++) {
       const evidenceMetadata: NodeMetadata = {
-        node_id: uuidv4(),
+        node_id: this.random.uuid(),
         label: `Evidence ${i + 1} for ${hypothesis.metadata.label}`,
         type: NodeType.EVIDENCE,
         timestamp: new Date(),
         provenance: 'Simulated evidence gathering',
         confidence: {
-          empirical_support: Math.random() * 0.6 + 0.4,
-          theoretical_basis: Math.random() * 0.6 + 0.4,
-          methodological_rigor: Math.random() * 0.6 + 0.4,
-          consensus_alignment: Math.random() * 0.6 + 0.4
+          empirical_support: this.random.range(0.4, 1),
+          theoretical_basis: this.random.range(0.4, 1),
+          methodological_rigor: this.random.range(0.4, 1),
+          consensus_alignment: this.random.range(0.4, 1)
         },
         epistemic_status: 'evidential',
         disciplinary_tags: hypothesis.metadata.disciplinary_tags,
@@ -705,11 +1037,11 @@ export class ASRGoTPipeline {
           change: 'Evidence node created',
           author: 'ASR-GoT System'
         }],
-        impact_score: Math.random() * 0.7 + 0.3,
+        impact_score: this.random.range(0.3, 1),
         statistical_power: {
-          power: Math.random() * 0.6 + 0.4,
-          sample_size: Math.floor(Math.random() * 1000) + 100,
-          effect_size: Math.random() * 2 - 1
+          power: this.random.range(0.4, 1),
+          sample_size: this.random.int(100, 1099),
+          effect_size: this.random.range(-1, 1)
         }
       };
 
@@ -719,7 +1051,7 @@ export class ASRGoTPipeline {
 
       // Connect evidence to hypothesis
       const edgeMetadata: EdgeMetadata = {
-        edge_id: uuidv4(),
+        edge_id: this.random.uuid(),
         edge_type: EdgeType.SUPPORTIVE,
         confidence: evidenceMetadata.confidence,
         timestamp: new Date()
@@ -741,11 +1073,25 @@ export class ASRGoTPipeline {
     };
   }
 
+  // Joint support is only as strong as its members on average
+  private calculateJointConfidence(confidences: ConfidenceVector[]): ConfidenceVector {
+    const mean = (key: keyof ConfidenceVector) =>
+      confidences.reduce((sum, confidence) => sum + confidence[key], 0) / confidences.length;
+
+    return {
+      empirical_support: mean('empirical_support'),
+      theoretical_basis: mean('theoretical_basis'),
+      methodological_rigor: mean('methodological_rigor'),
+      consensus_alignment: mean('consensus_alignment')
+    };
+  }
+
   private async checkForIBNs(hypothesis: any, result: StageResult): Promise<void> {
     // Check for interdisciplinary connections
     const allNodes = Array.from(this.graph.getState().vertices.values());
     
     for (const node of allNodes) {
+      if (!this.hasBudgetFor(1, 2)) break;
       if (node.id !== hypothesis.id && node.metadata.type === NodeType.HYPOTHESIS) {
         const semanticSimilarity = this.calculateSemanticSimilarity(hypothesis, node);
         const ibnId = this.graph.createIBN(hypothesis.id, node.id, semanticSimilarity);
@@ -756,6 +1102,33 @@ export class ASRGoTPipeline {
     }
   }
 
+  private async checkForCommunityIBNs(result: StageResult): Promise<void> {
+    const { communities } = this.graph.detectCommunities();
+    if (communities.size < 2) return;
+
+    const maxBridges = this.failSafeActive ? 1 : 5;
+    let created = 0;
+
+    for (const bridge of this.graph.getCommunityBridges()) {
+      if (created >= maxBridges || !this.hasBudgetFor(1, 2)) break;
+
+      const source = this.graph.getNode(bridge.source);
+      const target = this.graph.getNode(bridge.target);
+      if (!source || !target || source.metadata.type === NodeType.IBN || target.metadata.type === NodeType.IBN) {
+        continue;
+      }
+
+      // The confidence of the linking edge stands in for semantic similarity across clusters
+      const ibnId = this.graph.createIBN(bridge.source, bridge.target, bridge.weight);
+      if (ibnId) {
+        result.nodes_created.push(ibnId);
+        created++;
+      }
+    }
+
+    result.warnings.push(`Detected ${communities.size} research communities; ${created} bridged by IBNs`);
+  }
+
   private applyTemporalDecay(node: any): void {
     const daysSinceCreation = (Date.now() - node.metadata.timestamp.getTime()) / (1000 * 60 * 60 * 24);
     const decayFactor = Math.exp(-daysSinceCreation / 365); // Decay over a year
@@ -763,7 +1136,12 @@ export class ASRGoTPipeline {
     // Apply minimal decay in fail-safe mode
     const adjustedDecay = this.failSafeActive ? Math.max(0.9, decayFactor) : decayFactor;
     
-    node.metadata.confidence.empirical_support *= adjustedDecay;
+    this.graph.updateNodeMetadata(node.id, {
+      confidence: {
+        ...node.metadata.confidence,
+        empirical_support: node.metadata.confidence.empirical_support * adjustedDecay
+      }
+    });
   }
 
   private calculateSemanticSimilarity(node1: any, node2: any): number {
@@ -823,11 +1201,12 @@ ${context.fail_safe_active ? 'Analysis completed with fail-safe mechanisms activ
     return { criticalIssues, warnings };
   }
 
-  private calculateOverallQuality(context: ASRGoTContext): number {
+  // Also scores snapshots, so it reads the graph through the context rather than this.graph
+  calculateOverallQuality(context: ASRGoTContext): number {
     const successfulStages = context.stage_results.filter(r => r.success).length;
-    const baseScore = successfulStages / 8;
+    const baseScore = successfulStages / this.stages.length;
     
-    const nodeCount = this.graph.getNodeCount();
+    const nodeCount = context.graph_state.vertices.size;
     const complexityBonus = Math.min(0.2, nodeCount / 50);
     
     const failSafePenalty = context.fail_safe_active ? 0.1 : 0;
@@ -835,21 +1214,100 @@ ${context.fail_safe_active ? 'Analysis completed with fail-safe mechanisms activ
     return Math.max(0, Math.min(1, baseScore + complexityBonus - failSafePenalty));
   }
 
+  private hasBudgetFor(nodes: number, edges: number): boolean {
+    const remaining = this.graph.getRemainingBudget();
+    return remaining.nodes >= nodes && remaining.edges >= edges;
+  }
+
+  // Grant units round-robin, so every request keeps a share when the total falls short
+  private allocate(requested: number[], available: number): number[] {
+    const granted = requested.map(() => 0);
+    let left = available;
+    while (left > 0 && granted.some((count, index) => count < requested[index])) {
+      for (let index = 0; index < requested.length && left > 0; index++) {
+        if (granted[index] < requested[index]) {
+          granted[index]++;
+          left--;
+        }
+      }
+    }
+    return granted;
+  }
+
+  // Every pair of node indices, or a seeded random sample of them when there are more than the budget allows
+  private selectComparisonPairs(nodeCount: number, context: ASRGoTContext, result: StageResult): Array<[number, number]> {
+    const total = nodeCount * (nodeCount - 1) / 2;
+    const limit = context.computational_budget.max_pairwise_comparisons ?? DEFAULT_MAX_PAIRWISE_COMPARISONS;
+    const pairs: Array<[number, number]> = [];
+
+    if (total <= limit) {
+      for (let i = 0; i < nodeCount - 1; i++) {
+        for (let j = i + 1; j < nodeCount; j++) {
+          pairs.push([i, j]);
+        }
+      }
+      return pairs;
+    }
+
+    const seen = new Set<number>();
+    while (pairs.length < limit) {
+      const first = this.random.int(0, nodeCount - 1);
+      const second = this.random.int(0, nodeCount - 1);
+      const [i, j] = first < second ? [first, second] : [second, first];
+      if (i === j || seen.has(i * nodeCount + j)) continue;
+      seen.add(i * nodeCount + j);
+      pairs.push([i, j]);
+    }
+
+    this.recordDegradation(result, {
+      action: 'sample_comparisons',
+      planned: total,
+      allowed: limit,
+      reason: `${nodeCount} nodes give more merge comparisons than max_pairwise_comparisons`
+    });
+    return pairs.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  }
+
+  private recordDegradation(result: StageResult, degradation: BudgetDegradation): void {
+    (result.degradations ??= []).push(degradation);
+    result.warnings.push(
+      `Budget degradation [${degradation.action}]: planned ${degradation.planned}, allowed ${degradation.allowed} (${degradation.reason})`
+    );
+  }
+
+  // A graph already over budget cannot grow, so its stages degrade to adding nothing; say so once, up front
+  private recordBudgetOverrun(context: ASRGoTContext, startStage: number): void {
+    delete context.budget_overrun;
+    if (!this.exceedsComputationalBudget(context)) return;
+
+    const { max_nodes, max_edges } = context.computational_budget;
+    const nodes = this.graph.getNodeCount();
+    const edges = this.graph.getEdgeCount();
+    context.budget_overrun = {
+      stage: startStage,
+      nodes,
+      max_nodes,
+      edges,
+      max_edges,
+      reason: `The graph has ${nodes} nodes and ${edges} edges, over the budget of ${max_nodes} nodes and ${max_edges} edges; stages will not add to it`
+    };
+    console.warn(`Computational budget exceeded before stage ${startStage}: ${context.budget_overrun.reason}`);
+  }
+
   private exceedsComputationalBudget(context: ASRGoTContext): boolean {
     const budget = context.computational_budget;
     const state = this.graph.getState();
     
     return (
       state.vertices.size > budget.max_nodes ||
-      state.edges.size > budget.max_edges ||
-      context.stage_results.reduce((total, result) => total + result.execution_time_ms, 0) > budget.max_execution_time_ms
+      state.edges.size > budget.max_edges
     );
   }
 
   // Fail-safe output creation methods
   private createBasicRootNode(query: string): string {
     const metadata: NodeMetadata = {
-      node_id: uuidv4(),
+      node_id: this.random.uuid(),
       label: 'Basic Task Understanding',
       type: NodeType.ROOT,
       timestamp: new Date(),
@@ -871,7 +1329,7 @@ ${context.fail_safe_active ? 'Analysis completed with fail-safe mechanisms activ
     
     for (const dim of dimensions) {
       const metadata: NodeMetadata = {
-        node_id: uuidv4(),
+        node_id: this.random.uuid(),
         label: `Basic ${dim}`,
         type: NodeType.DIMENSION,
         timestamp: new Date(),
@@ -893,7 +1351,7 @@ ${context.fail_safe_active ? 'Analysis completed with fail-safe mechanisms activ
   private createBasicHypotheses(): string[] {
     const nodeIds = [];
     const metadata: NodeMetadata = {
-      node_id: uuidv4(),
+      node_id: this.random.uuid(),
       label: 'Basic Hypothesis',
       type: NodeType.HYPOTHESIS,
       timestamp: new Date(),
@@ -35,10 +35,14 @@ export type InfoMetrics = z.infer<typeof InfoMetricsSchema>;
 
 // Topology Metrics (P1.22)
 export const TopologyMetricsSchema = z.object({
-  centrality: z.number().optional(),
+  centrality: z.number().optional(), // normalized degree centrality
   clustering_coefficient: z.number().optional(),
   betweenness: z.number().optional(),
-  degree: z.number().int().min(0).optional()
+  closeness: z.number().optional(),
+  eigenvector: z.number().optional(),
+  pagerank: z.number().optional(),
+  degree: z.number().int().min(0).optional(),
+  hyperdegree: z.number().int().min(0).optional() // number of hyperedges the node belongs to
 });
 
 export type TopologyMetrics = z.infer<typeof TopologyMetricsSchema>;
@@ -73,7 +77,8 @@ export enum NodeType {
   HYPOTHESIS = 'hypothesis',
   EVIDENCE = 'evidence',
   PLACEHOLDER_GAP = 'placeholder_gap',
-  IBN = 'interdisciplinary_bridge_node'
+  IBN = 'interdisciplinary_bridge_node',
+  SUPER_NODE = 'super_node' // stands in for a whole child layer (P1.20)
 }
 
 // Extended Metadata Schema (P1.12)
@@ -94,6 +99,9 @@ export const NodeMetadataSchema = z.object({
     author: z.string().optional()
   })),
   layer_id: z.string().optional(),
+  encapsulated_layer: z.string().optional(), // super-nodes: the child layer they aggregate
+  collapsed: z.boolean().optional(), // super-nodes: shown in place of their layer
+  community_id: z.string().optional(), // assigned by community detection
   topology_metrics: TopologyMetricsSchema.optional(),
   statistical_power: StatisticalPowerSchema.optional(),
   info_metrics: InfoMetricsSchema.optional(),
@@ -144,6 +152,78 @@ export interface Hyperedge {
   metadata: EdgeMetadata;
 }
 
+// Path Queries - one traversed edge of a reasoning chain
+export interface PathHop {
+  edge_id: string;
+  from: string;
+  to: string;
+  direction: 'forward' | 'backward'; // forward when traversed source -> target
+  edge_type: EdgeType;
+  confidence: number; // mean of the edge confidence vector
+  causal_metadata?: EdgeMetadata['causal_metadata'];
+  temporal_metadata?: EdgeMetadata['temporal_metadata'];
+}
+
+export interface GraphPath {
+  nodes: string[];
+  hops: PathHop[];
+  length: number;
+  confidence: number; // product of hop confidences
+}
+
+export type PathDirection = 'outgoing' | 'incoming' | 'both';
+
+// Subgraph Extraction Criteria (all filters combine)
+export interface SubgraphCriteria {
+  confidence_threshold?: number;
+  node_types?: NodeType[];
+  edge_types?: EdgeType[];
+  layer_ids?: string[];
+  impact_threshold?: number;
+  temporal_recency_days?: number;
+  focus_node_id?: string;
+  radius?: number;
+  direction?: PathDirection;
+  as_of?: Date; // extract from the graph as it was at this moment
+  abstraction_level?: number; // fold layers deeper than this into their super-nodes
+}
+
+// Edge Grammar - which edge types may run from one node type to another
+export interface EdgeGrammarRule {
+  source: NodeType | '*'; // '*' matches any node type
+  target: NodeType | '*';
+  edge_types: EdgeType[];
+}
+
+// Operation Log - one undoable graph edit
+export type GraphOperationType =
+  | 'add_node'
+  | 'add_edge'
+  | 'update_confidence'
+  | 'update_node'
+  | 'update_edge'
+  | 'remove_edge'
+  | 'remove_hyperedge'
+  | 'create_ibn'
+  | 'add_hyperedge'
+  | 'merge_nodes'
+  | 'prune_nodes'
+  | 'remove_node'
+  | 'set_layer_parent'
+  | 'create_super_node'
+  | 'collapse_super_node'
+  | 'expand_super_node'
+  | 'restore_state';
+
+export interface ChangeLogEntry {
+  sequence: number;
+  operation: GraphOperationType;
+  description: string;
+  timestamp: Date;
+  nodes_affected: string[];
+  edges_affected: string[];
+}
+
 // ASR-GoT Graph State (P1.11)
 export interface ASRGoTGraphState {
   timestamp: Date;
@@ -151,12 +231,29 @@ export interface ASRGoTGraphState {
   edges: Map<string, GraphEdge>;
   hyperedges: Map<string, Hyperedge>;
   layers: Map<string, string[]>; // layer_id -> node_ids
+  layer_parents: Map<string, string>; // child layer_id -> parent layer_id (P1.23)
   node_types: Map<string, NodeType>;
   confidence_function: Map<string, ConfidenceVector>;
   metadata_function: Map<string, NodeMetadata>;
   info_metrics: Map<string, InfoMetrics>;
 }
 
+// Serialized Graph Envelope (versioned, plain JSON with ISO-8601 dates)
+export interface SerializedGraph {
+  format: 'asr-got-graph';
+  version: number;
+  exported_at: string;
+  graph: {
+    timestamp: string;
+    nodes: Array<{ id: string; metadata: any }>;
+    edges: Array<{ id: string; source: string; target: string; metadata: any }>;
+    hyperedges: Array<{ id: string; nodes: string[]; metadata: any }>;
+    layers: string[]; // layer ids; membership is derived from node metadata
+    layer_parents?: Record<string, string>; // child layer id -> parent layer id
+    info_metrics: Record<string, InfoMetrics>;
+  };
+}
+
 // Stage Execution Result
 export interface StageResult {
   stage: number;
@@ -167,8 +264,28 @@ export interface StageResult {
   errors: string[];
   warnings: string[];
   execution_time_ms: number;
+  degradations?: BudgetDegradation[]; // also listed in warnings, one line each
+}
+
+// Work a stage left out to stay within the computational budget (P1.21)
+export interface BudgetDegradation {
+  action: 'skip_root' | 'limit_dimensions' | 'limit_hypotheses' | 'limit_evidence' | 'skip_ibn_checks' | 'sample_comparisons' | 'local_topology_only';
+  planned: number; // units of work the stage would have done
+  allowed: number; // units of work it did
+  reason: string;
 }
 
+// Limits of one analysis; the graph rejects operations that take it past max_nodes or max_edges
+export const ComputationalBudgetSchema = z.object({
+  max_nodes: z.number().int().positive(),
+  max_edges: z.number().int().positive(),
+  max_execution_time_ms: z.number().int().positive(),
+  max_pairwise_comparisons: z.number().int().positive().optional(), // node pairs Stage 5 compares for merging; sampled beyond this
+  max_topology_cost: z.number().int().positive().optional() // nodes x (nodes + edges) up to which Stage 6 computes global centrality
+}).strict();
+
+export type ComputationalBudget = z.infer<typeof ComputationalBudgetSchema>;
+
 // ASR-GoT Execution Context
 export interface ASRGoTContext {
   task_query: string;
@@ -189,11 +306,84 @@ export interface ASRGoTContext {
   graph_state: ASRGoTGraphState;
   stage_results: StageResult[];
   fail_safe_active: boolean;
-  computational_budget: {
-    max_nodes: number;
-    max_edges: number;
-    max_execution_time_ms: number;
+  computational_budget: ComputationalBudget;
+  snapshots?: AnalysisSnapshot[];
+  research_query?: ResearchQuery; // the query the stages were run with, reused when resuming
+  seed?: number; // seed of the pipeline's random choices; re-running with it reproduces the graph
+  checkpoints?: StageCheckpoint[];
+  cancellation?: AnalysisCancellation; // set when the last run was stopped early
+  budget_overrun?: BudgetOverrun; // set when the last run started with the graph already over budget
+}
+
+// The graph exceeded max_nodes or max_edges before a run (e.g. an imported graph); its stages add nothing
+export interface BudgetOverrun {
+  stage: number; // first stage of the run
+  nodes: number;
+  max_nodes: number;
+  edges: number;
+  max_edges: number;
+  reason: string;
+}
+
+// Why and where a run stopped; the interrupted stage was rolled back and can be resumed
+export interface AnalysisCancellation {
+  stage: number;
+  reason: string;
+  cancelled_at: Date;
+}
+
+// The graph as it stood after a pipeline stage; stage 0 is the graph the first stage run started from
+export interface StageCheckpoint {
+  stage: number;
+  stage_name: string;
+  created_at: Date;
+  graph_state: ASRGoTGraphState;
+}
+
+// Named, frozen copy of a context's graph and stage results
+export interface AnalysisSnapshot {
+  name: string;
+  created_at: Date;
+  graph_state: ASRGoTGraphState;
+  stage_results: StageResult[];
+  fail_safe_active: boolean;
+}
+
+// Structural Diff between two analysis versions (snapshots or contexts)
+export interface DiffNode {
+  id: string;
+  label: string;
+  type: NodeType;
+}
+
+export interface DiffEdge {
+  id: string;
+  source: string;
+  target: string;
+  edge_type: EdgeType;
+}
+
+export interface AnalysisDiff {
+  before: string;
+  after: string;
+  nodes: {
+    added: DiffNode[];
+    removed: DiffNode[];
+    merged: Array<DiffNode & { merged_from: DiffNode[] }>;
+  };
+  edges: {
+    added: DiffEdge[];
+    removed: DiffEdge[];
+    type_changed: Array<{ id: string; source: string; target: string; before: EdgeType; after: EdgeType }>;
   };
+  confidence_changes: Array<{
+    node_id: string;
+    label: string;
+    before: ConfidenceVector;
+    after: ConfidenceVector;
+    delta: ConfidenceVector;
+  }>;
+  quality: { before: number; after: number; delta: number };
 }
 
 // MCP Tool Responses
@@ -217,6 +407,7 @@ export interface ResearchQuery {
   complexity_level: 'basic' | 'intermediate' | 'advanced';
   expected_depth: 'overview' | 'detailed' | 'comprehensive';
   interdisciplinary: boolean;
+  seed?: number; // omitted: a random seed is drawn and recorded in the context
 }
 
 // Export all schemas for validation
@@ -0,0 +1,190 @@
+import {
+  ASRGoTGraphState,
+  AnalysisDiff,
+  ConfidenceVector,
+  DiffEdge,
+  DiffNode,
+  GraphEdge,
+  GraphNode,
+  NodeType
+} from '../types/index.js';
+
+// One side of a comparison: a snapshot or the live state of a context
+export interface AnalysisVersion {
+  label: string;
+  graph_state: ASRGoTGraphState;
+  quality_score: number;
+}
+
+// mergeNodes records its inputs in the merged node's provenance
+const MERGE_PROVENANCE = /^Merged from (\S+) and (\S+)$/;
+
+/**
+ * Structural diff between two versions of an analysis
+ * Nodes are matched by id, then by type and label so that separate runs of the same query
+ * line up; edges are matched by id, then by their (matched) endpoints.
+ */
+export class AnalysisDiffer {
+  compare(before: AnalysisVersion, after: AnalysisVersion): AnalysisDiff {
+    const beforeNodes = before.graph_state.vertices;
+    const afterNodes = after.graph_state.vertices;
+    const matches = this.matchNodes(beforeNodes, afterNodes);
+    const matchedBefore = new Set(matches.values());
+
+    // Unmatched nodes created by merging unmatched originals are merges, not plain additions
+    const merged: AnalysisDiff['nodes']['merged'] = [];
+    const mergedSources = new Set<string>();
+    for (const node of afterNodes.values()) {
+      if (matches.has(node.id)) continue;
+
+      const sources = MERGE_PROVENANCE.exec(node.metadata.provenance)?.slice(1)
+        .filter(sourceId => beforeNodes.has(sourceId) && !matchedBefore.has(sourceId)) ?? [];
+      if (sources.length === 0) continue;
+
+      sources.forEach(sourceId => mergedSources.add(sourceId));
+      merged.push({ ...describeNode(node), merged_from: sources.map(sourceId => describeNode(beforeNodes.get(sourceId)!)) });
+    }
+    const mergedIds = new Set(merged.map(node => node.id));
+
+    const added = Array.from(afterNodes.values())
+      .filter(node => !matches.has(node.id) && !mergedIds.has(node.id))
+      .map(describeNode);
+    const removed = Array.from(beforeNodes.values())
+      .filter(node => !matchedBefore.has(node.id) && !mergedSources.has(node.id))
+      .map(describeNode);
+
+    return {
+      before: before.label,
+      after: after.label,
+      nodes: { added, removed, merged },
+      edges: this.compareEdges(before.graph_state.edges, after.graph_state.edges, matches),
+      confidence_changes: this.compareConfidence(beforeNodes, afterNodes, matches),
+      quality: {
+        before: before.quality_score,
+        after: after.quality_score,
+        delta: after.quality_score - before.quality_score
+      }
+    };
+  }
+
+  // after node id -> before node id
+  private matchNodes(beforeNodes: Map<string, GraphNode>, afterNodes: Map<string, GraphNode>): Map<string, string> {
+    const matches = new Map<string, string>();
+    for (const nodeId of afterNodes.keys()) {
+      if (beforeNodes.has(nodeId)) {
+        matches.set(nodeId, nodeId);
+      }
+    }
+
+    const candidates = new Map<string, string[]>();
+    for (const node of beforeNodes.values()) {
+      if (afterNodes.has(node.id)) continue;
+      const key = nodeKey(node);
+      candidates.set(key, [...(candidates.get(key) ?? []), node.id]);
+    }
+
+    for (const node of afterNodes.values()) {
+      if (matches.has(node.id)) continue;
+      const beforeId = candidates.get(nodeKey(node))?.shift();
+      if (beforeId) {
+        matches.set(node.id, beforeId);
+      }
+    }
+
+    return matches;
+  }
+
+  private compareEdges(
+    beforeEdges: Map<string, GraphEdge>,
+    afterEdges: Map<string, GraphEdge>,
+    matches: Map<string, string>
+  ): AnalysisDiff['edges'] {
+    const pairs: Array<[GraphEdge, GraphEdge]> = [];
+    const unmatchedBefore = new Map<string, GraphEdge[]>();
+    const added: DiffEdge[] = [];
+
+    for (const edge of beforeEdges.values()) {
+      if (afterEdges.has(edge.id)) continue;
+      const key = `${edge.source}|${edge.target}`;
+      unmatchedBefore.set(key, [...(unmatchedBefore.get(key) ?? []), edge]);
+    }
+
+    for (const edge of afterEdges.values()) {
+      const sameId = beforeEdges.get(edge.id);
+      const beforeEdge = sameId ??
+        unmatchedBefore.get(`${matches.get(edge.source) ?? edge.source}|${matches.get(edge.target) ?? edge.target}`)?.shift();
+
+      if (beforeEdge) {
+        pairs.push([beforeEdge, edge]);
+      } else {
+        added.push(describeEdge(edge));
+      }
+    }
+
+    const removed = Array.from(unmatchedBefore.values()).flat().map(describeEdge);
+    const typeChanged = pairs
+      .filter(([beforeEdge, afterEdge]) => beforeEdge.metadata.edge_type !== afterEdge.metadata.edge_type)
+      .map(([beforeEdge, afterEdge]) => ({
+        id: afterEdge.id,
+        source: afterEdge.source,
+        target: afterEdge.target,
+        before: beforeEdge.metadata.edge_type,
+        after: afterEdge.metadata.edge_type
+      }));
+
+    return { added, removed, type_changed: typeChanged };
+  }
+
+  // Per-dimension deltas on matched hypotheses, largest total change first
+  private compareConfidence(
+    beforeNodes: Map<string, GraphNode>,
+    afterNodes: Map<string, GraphNode>,
+    matches: Map<string, string>
+  ): AnalysisDiff['confidence_changes'] {
+    const changes: AnalysisDiff['confidence_changes'] = [];
+
+    for (const [afterId, beforeId] of matches) {
+      const afterNode = afterNodes.get(afterId)!;
+      if (afterNode.metadata.type !== NodeType.HYPOTHESIS) continue;
+
+      const beforeConfidence = beforeNodes.get(beforeId)!.metadata.confidence;
+      const afterConfidence = afterNode.metadata.confidence;
+      const delta: ConfidenceVector = {
+        empirical_support: afterConfidence.empirical_support - beforeConfidence.empirical_support,
+        theoretical_basis: afterConfidence.theoretical_basis - beforeConfidence.theoretical_basis,
+        methodological_rigor: afterConfidence.methodological_rigor - beforeConfidence.methodological_rigor,
+        consensus_alignment: afterConfidence.consensus_alignment - beforeConfidence.consensus_alignment
+      };
+
+      if (totalChange(delta) > 1e-9) {
+        changes.push({
+          node_id: afterId,
+          label: afterNode.metadata.label,
+          before: beforeConfidence,
+          after: afterConfidence,
+          delta
+        });
+      }
+    }
+
+    return changes.sort((a, b) => totalChange(b.delta) - totalChange(a.delta));
+  }
+}
+
+// Helper functions
+function nodeKey(node: GraphNode): string {
+  return `${node.metadata.type}|${node.metadata.label}`;
+}
+
+function describeNode(node: GraphNode): DiffNode {
+  return { id: node.id, label: node.metadata.label, type: node.metadata.type };
+}
+
+function describeEdge(edge: GraphEdge): DiffEdge {
+  return { id: edge.id, source: edge.source, target: edge.target, edge_type: edge.metadata.edge_type };
+}
+
+function totalChange(delta: ConfidenceVector): number {
+  return Math.abs(delta.empirical_support) + Math.abs(delta.theoretical_basis) +
+    Math.abs(delta.methodological_rigor) + Math.abs(delta.consensus_alignment);
+}
@@ -0,0 +1,273 @@
+import { MinHeap } from './min-heap.js';
+
+/**
+ * Weighted view of a graph used by the centrality algorithms
+ * Edge weights are in (0, 1]; shortest-path metrics use 1 / weight as the edge length
+ */
+export interface WeightedGraphView {
+  nodeIds: string[];
+  edges: Array<{ source: string; target: string; weight: number }>;
+}
+
+export interface CentralityScores {
+  betweenness: Map<string, number>;
+  closeness: Map<string, number>;
+  eigenvector: Map<string, number>;
+  pagerank: Map<string, number>;
+}
+
+// Floor for edge weights so that zero-confidence edges stay finite in path lengths
+const MIN_WEIGHT = 1e-6;
+
+/**
+ * Graph centrality measures (P1.22)
+ * Betweenness, closeness and eigenvector centrality treat edges as undirected;
+ * PageRank follows edge direction.
+ */
+export class CentralityAnalyzer {
+  private dampingFactor: number;
+  private tolerance: number;
+  private maxIterations: number;
+
+  constructor(dampingFactor: number = 0.85, tolerance: number = 1e-8, maxIterations: number = 200) {
+    this.dampingFactor = dampingFactor;
+    this.tolerance = tolerance;
+    this.maxIterations = maxIterations;
+  }
+
+  /**
+   * Compute every measure; the shortest-path searches are shared by betweenness and closeness
+   */
+  computeAll(view: WeightedGraphView): CentralityScores {
+    const adjacency = this.buildUndirectedAdjacency(view);
+    const { betweenness, closeness } = this.shortestPathCentralities(view.nodeIds, adjacency);
+
+    return {
+      betweenness,
+      closeness,
+      eigenvector: this.eigenvectorFromAdjacency(view.nodeIds, adjacency),
+      pagerank: this.pagerank(view)
+    };
+  }
+
+  /**
+   * Brandes betweenness centrality, normalized to [0, 1]
+   */
+  betweenness(view: WeightedGraphView): Map<string, number> {
+    return this.shortestPathCentralities(view.nodeIds, this.buildUndirectedAdjacency(view)).betweenness;
+  }
+
+  /**
+   * Closeness centrality (Wasserman-Faust variant, well-defined on disconnected graphs)
+   */
+  closeness(view: WeightedGraphView): Map<string, number> {
+    return this.shortestPathCentralities(view.nodeIds, this.buildUndirectedAdjacency(view)).closeness;
+  }
+
+  /**
+   * Eigenvector centrality by power iteration, scaled so the most central node scores 1
+   */
+  eigenvector(view: WeightedGraphView): Map<string, number> {
+    return this.eigenvectorFromAdjacency(view.nodeIds, this.buildUndirectedAdjacency(view));
+  }
+
+  /**
+   * Weighted PageRank; scores sum to 1 and dangling nodes redistribute uniformly
+   */
+  pagerank(view: WeightedGraphView): Map<string, number> {
+    const n = view.nodeIds.length;
+    const scores = new Map<string, number>();
+    if (n === 0) return scores;
+
+    // Parallel edges add up their weights
+    const outWeights = new Map<string, Map<string, number>>();
+    const outTotals = new Map<string, number>();
+    for (const nodeId of view.nodeIds) {
+      outWeights.set(nodeId, new Map());
+      outTotals.set(nodeId, 0);
+    }
+    for (const edge of view.edges) {
+      const targets = outWeights.get(edge.source);
+      if (!targets || !outWeights.has(edge.target)) continue;
+      const weight = Math.max(edge.weight, MIN_WEIGHT);
+      targets.set(edge.target, (targets.get(edge.target) ?? 0) + weight);
+      outTotals.set(edge.source, outTotals.get(edge.source)! + weight);
+    }
+
+    let rank = new Map(view.nodeIds.map(nodeId => [nodeId, 1 / n]));
+
+    for (let iteration = 0; iteration < this.maxIterations; iteration++) {
+      let danglingMass = 0;
+      for (const nodeId of view.nodeIds) {
+        if (outTotals.get(nodeId) === 0) {
+          danglingMass += rank.get(nodeId)!;
+        }
+      }
+
+      const base = (1 - this.dampingFactor) / n + this.dampingFactor * danglingMass / n;
+      const next = new Map(view.nodeIds.map(nodeId => [nodeId, base]));
+
+      for (const [source, targets] of outWeights) {
+        const total = outTotals.get(source)!;
+        if (total === 0) continue;
+        const share = this.dampingFactor * rank.get(source)! / total;
+        for (const [target, weight] of targets) {
+          next.set(target, next.get(target)! + share * weight);
+        }
+      }
+
+      let delta = 0;
+      for (const nodeId of view.nodeIds) {
+        delta += Math.abs(next.get(nodeId)! - rank.get(nodeId)!);
+      }
+      rank = next;
+      if (delta < this.tolerance) break;
+    }
+
+    for (const [nodeId, value] of rank) {
+      scores.set(nodeId, value);
+    }
+    return scores;
+  }
+
+  // Collapse parallel and opposite edges into one undirected link carrying the strongest weight
+  private buildUndirectedAdjacency(view: WeightedGraphView): Map<string, Map<string, number>> {
+    const adjacency = new Map<string, Map<string, number>>();
+    for (const nodeId of view.nodeIds) {
+      adjacency.set(nodeId, new Map());
+    }
+
+    for (const edge of view.edges) {
+      if (edge.source === edge.target) continue;
+      const sourceLinks = adjacency.get(edge.source);
+      const targetLinks = adjacency.get(edge.target);
+      if (!sourceLinks || !targetLinks) continue;
+
+      const weight = Math.max(Math.max(edge.weight, MIN_WEIGHT), sourceLinks.get(edge.target) ?? 0);
+      sourceLinks.set(edge.target, weight);
+      targetLinks.set(edge.source, weight);
+    }
+
+    return adjacency;
+  }
+
+  private shortestPathCentralities(
+    nodeIds: string[],
+    adjacency: Map<string, Map<string, number>>
+  ): { betweenness: Map<string, number>; closeness: Map<string, number> } {
+    const n = nodeIds.length;
+    const betweenness = new Map(nodeIds.map(nodeId => [nodeId, 0]));
+    const closeness = new Map(nodeIds.map(nodeId => [nodeId, 0]));
+
+    for (const source of nodeIds) {
+      // Single-source Dijkstra, recording shortest-path counts and predecessors (Brandes 2001)
+      const order: string[] = [];
+      const predecessors = new Map<string, string[]>();
+      const sigma = new Map<string, number>([[source, 1]]);
+      const distance = new Map<string, number>([[source, 0]]);
+      const settled = new Set<string>();
+      const queue = new MinHeap();
+      queue.push(source, 0);
+
+      while (queue.size() > 0) {
+        const { id: current, priority } = queue.pop()!;
+        if (settled.has(current) || priority > distance.get(current)!) continue;
+        settled.add(current);
+        order.push(current);
+
+        for (const [neighbor, weight] of adjacency.get(current)!) {
+          const candidate = priority + 1 / weight;
+          const known = distance.get(neighbor);
+
+          if (known === undefined || candidate < known - pathEpsilon(known)) {
+            distance.set(neighbor, candidate);
+            sigma.set(neighbor, sigma.get(current)!);
+            predecessors.set(neighbor, [current]);
+            queue.push(neighbor, candidate);
+          } else if (Math.abs(candidate - known) <= pathEpsilon(known) && !settled.has(neighbor)) {
+            sigma.set(neighbor, sigma.get(neighbor)! + sigma.get(current)!);
+            predecessors.get(neighbor)!.push(current);
+          }
+        }
+      }
+
+      // Closeness from the distances reached from this source
+      const reached = order.length - 1;
+      if (reached > 0 && n > 1) {
+        let total = 0;
+        for (const nodeId of order) {
+          total += distance.get(nodeId)!;
+        }
+        closeness.set(source, (reached / (n - 1)) * (reached / total));
+      }
+
+      // Dependency accumulation in reverse settling order
+      const dependency = new Map<string, number>();
+      for (let i = order.length - 1; i >= 0; i--) {
+        const node = order[i];
+        const coefficient = (1 + (dependency.get(node) ?? 0)) / sigma.get(node)!;
+        for (const predecessor of predecessors.get(node) ?? []) {
+          dependency.set(predecessor, (dependency.get(predecessor) ?? 0) + sigma.get(predecessor)! * coefficient);
+        }
+        if (node !== source) {
+          betweenness.set(node, betweenness.get(node)! + (dependency.get(node) ?? 0));
+        }
+      }
+    }
+
+    // Every undirected pair was counted from both ends; normalize by the (n-1)(n-2)/2 possible pairs
+    const pairs = ((n - 1) * (n - 2)) / 2;
+    for (const [nodeId, value] of betweenness) {
+      betweenness.set(nodeId, pairs > 0 ? value / 2 / pairs : 0);
+    }
+
+    return { betweenness, closeness };
+  }
+
+  private eigenvectorFromAdjacency(nodeIds: string[], adjacency: Map<string, Map<string, number>>): Map<string, number> {
+    let vector = new Map(nodeIds.map(nodeId => [nodeId, 1]));
+    if (nodeIds.length === 0) return vector;
+
+    // Iterate on (A + I): same eigenvectors as A, but converges on bipartite graphs too
+    for (let iteration = 0; iteration < this.maxIterations; iteration++) {
+      const next = new Map<string, number>();
+      for (const nodeId of nodeIds) {
+        let value = vector.get(nodeId)!;
+        for (const [neighbor, weight] of adjacency.get(nodeId)!) {
+          value += weight * vector.get(neighbor)!;
+        }
+        next.set(nodeId, value);
+      }
+
+      let max = 0;
+      for (const value of next.values()) {
+        max = Math.max(max, value);
+      }
+      if (max === 0) return new Map(nodeIds.map(nodeId => [nodeId, 0]));
+
+      let delta = 0;
+      for (const nodeId of nodeIds) {
+        const scaled = next.get(nodeId)! / max;
+        delta += Math.abs(scaled - vector.get(nodeId)!);
+        next.set(nodeId, scaled);
+      }
+      vector = next;
+      if (delta < this.tolerance * nodeIds.length) break;
+    }
+
+    // Isolated nodes carry no structural weight
+    for (const nodeId of nodeIds) {
+      if (adjacency.get(nodeId)!.size === 0) {
+        vector.set(nodeId, 0);
+      }
+    }
+
+    return vector;
+  }
+}
+
+// Helper functions
+function pathEpsilon(distance: number): number {
+  // Path lengths are sums of reciprocals, so ties are compared with a relative tolerance
+  return 1e-9 * Math.max(1, distance);
+}
@@ -0,0 +1,196 @@
+import { WeightedGraphView } from './centrality-analyzer.js';
+
+export interface CommunityPartition {
+  // node id -> community index; communities are numbered by size, largest first
+  assignments: Map<string, number>;
+  communityCount: number;
+  modularity: number;
+}
+
+// Undirected weighted graph over node indexes; self-loops hold weight internal to an aggregated node
+type WeightedAdjacency = Array<Map<number, number>>;
+
+/**
+ * Louvain community detection (Blondel et al. 2008)
+ * Edge direction is ignored and parallel edges add up their weights.
+ * Nodes are visited in insertion order, so results are deterministic for a given graph.
+ */
+export class CommunityDetector {
+  private minGain: number;
+  private maxLevels: number;
+
+  constructor(minGain: number = 1e-10, maxLevels: number = 20) {
+    this.minGain = minGain;
+    this.maxLevels = maxLevels;
+  }
+
+  detect(view: WeightedGraphView): CommunityPartition {
+    const index = new Map(view.nodeIds.map((nodeId, i) => [nodeId, i]));
+    const adjacency: WeightedAdjacency = view.nodeIds.map(() => new Map());
+
+    for (const edge of view.edges) {
+      const source = index.get(edge.source);
+      const target = index.get(edge.target);
+      if (source === undefined || target === undefined || edge.weight <= 0) continue;
+
+      if (source === target) {
+        adjacency[source].set(source, (adjacency[source].get(source) ?? 0) + edge.weight);
+      } else {
+        adjacency[source].set(target, (adjacency[source].get(target) ?? 0) + edge.weight);
+        adjacency[target].set(source, (adjacency[target].get(source) ?? 0) + edge.weight);
+      }
+    }
+
+    // membership[i] = community of original node i at the current level
+    let membership = view.nodeIds.map((_, i) => i);
+    let current = adjacency;
+
+    for (let level = 0; level < this.maxLevels; level++) {
+      const { communities, moved } = this.moveNodes(current);
+      if (!moved && level > 0) break;
+
+      const { renumbered, count } = renumber(communities);
+      const nextLevel = communities.map(community => renumbered[community]);
+      membership = membership.map(node => nextLevel[node]);
+      if (count === current.length) break;
+
+      current = this.aggregate(current, nextLevel, count);
+    }
+
+    const { renumbered, count } = this.orderBySize(membership);
+    const assignments = new Map<string, number>();
+    view.nodeIds.forEach((nodeId, i) => assignments.set(nodeId, renumbered[membership[i]]));
+
+    return {
+      assignments,
+      communityCount: count,
+      modularity: this.modularity(adjacency, view.nodeIds.map((_, i) => renumbered[membership[i]]))
+    };
+  }
+
+  // Phase 1: greedily move single nodes to the neighbouring community with the largest modularity gain
+  private moveNodes(adjacency: WeightedAdjacency): { communities: number[]; moved: boolean } {
+    const n = adjacency.length;
+    const degrees = adjacency.map(weightedDegree);
+    const totalWeight = degrees.reduce((sum, degree) => sum + degree, 0);
+    const communities = adjacency.map((_, i) => i);
+    if (totalWeight === 0) return { communities, moved: false };
+
+    const totals = [...degrees];
+    let moved = false;
+    let improved = true;
+
+    while (improved) {
+      improved = false;
+
+      for (let node = 0; node < n; node++) {
+        const own = communities[node];
+        const links = new Map<number, number>();
+        for (const [neighbor, weight] of adjacency[node]) {
+          if (neighbor === node) continue;
+          const community = communities[neighbor];
+          links.set(community, (links.get(community) ?? 0) + weight);
+        }
+
+        totals[own] -= degrees[node];
+
+        let best = own;
+        let bestGain = (links.get(own) ?? 0) - totals[own] * degrees[node] / totalWeight;
+        for (const [community, weight] of links) {
+          const gain = weight - totals[community] * degrees[node] / totalWeight;
+          if (gain > bestGain + this.minGain) {
+            best = community;
+            bestGain = gain;
+          }
+        }
+
+        totals[best] += degrees[node];
+        if (best !== own) {
+          communities[node] = best;
+          improved = true;
+          moved = true;
+        }
+      }
+    }
+
+    return { communities, moved };
+  }
+
+  // Phase 2: collapse each community into a single node
+  private aggregate(adjacency: WeightedAdjacency, communities: number[], count: number): WeightedAdjacency {
+    const aggregated: WeightedAdjacency = Array.from({ length: count }, () => new Map());
+
+    adjacency.forEach((links, node) => {
+      const source = communities[node];
+      for (const [neighbor, weight] of links) {
+        const target = communities[neighbor];
+        // Links inside a community are seen from both ends; halve them so each is counted once
+        const contribution = source === target && node !== neighbor ? weight / 2 : weight;
+        aggregated[source].set(target, (aggregated[source].get(target) ?? 0) + contribution);
+      }
+    });
+
+    return aggregated;
+  }
+
+  private modularity(adjacency: WeightedAdjacency, communities: number[]): number {
+    const degrees = adjacency.map(weightedDegree);
+    const totalWeight = degrees.reduce((sum, degree) => sum + degree, 0);
+    if (totalWeight === 0) return 0;
+
+    const internal = new Map<number, number>();
+    const totals = new Map<number, number>();
+    adjacency.forEach((links, node) => {
+      const community = communities[node];
+      totals.set(community, (totals.get(community) ?? 0) + degrees[node]);
+      for (const [neighbor, weight] of links) {
+        if (communities[neighbor] === community) {
+          // Self-loops appear once but count twice towards the degree
+          internal.set(community, (internal.get(community) ?? 0) + (neighbor === node ? 2 * weight : weight));
+        }
+      }
+    });
+
+    let modularity = 0;
+    for (const [community, total] of totals) {
+      modularity += (internal.get(community) ?? 0) / totalWeight - (total / totalWeight) ** 2;
+    }
+    return modularity;
+  }
+
+  private orderBySize(membership: number[]): { renumbered: number[]; count: number } {
+    const sizes = new Map<number, number>();
+    for (const community of membership) {
+      sizes.set(community, (sizes.get(community) ?? 0) + 1);
+    }
+
+    // Largest first; ties keep first-appearance order (Map iteration order)
+    const ordered = Array.from(sizes.keys()).sort((a, b) => sizes.get(b)! - sizes.get(a)!);
+    const renumbered: number[] = [];
+    ordered.forEach((community, rank) => {
+      renumbered[community] = rank;
+    });
+
+    return { renumbered, count: ordered.length };
+  }
+}
+
+// Helper functions
+function weightedDegree(links: Map<number, number>, node: number): number {
+  let degree = 0;
+  for (const [neighbor, weight] of links) {
+    degree += neighbor === node ? 2 * weight : weight;
+  }
+  return degree;
+}
+
+function renumber(communities: number[]): { renumbered: number[]; count: number } {
+  const renumbered: number[] = [];
+  let count = 0;
+  for (const community of communities) {
+    if (renumbered[community] === undefined) {
+      renumbered[community] = count++;
+    }
+  }
+  return { renumbered, count };
+}
@@ -0,0 +1,422 @@
+import { GraphNode, GraphEdge, Hyperedge, EdgeMetadata } from '../types/index.js';
+
+export type GraphExportFormat = 'graphml' | 'gexf' | 'dot' | 'cytoscape' | 'mermaid';
+
+export const GRAPH_EXPORT_FORMATS: GraphExportFormat[] = ['graphml', 'gexf', 'dot', 'cytoscape', 'mermaid'];
+
+export interface ExportableGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  hyperedges: Hyperedge[];
+}
+
+type AttributeValue = string | number | undefined;
+
+const CONFIDENCE_DIMENSIONS = [
+  'empirical_support',
+  'theoretical_basis',
+  'methodological_rigor',
+  'consensus_alignment'
+] as const;
+
+const MERMAID_CLASS_STYLES: Record<string, string> = {
+  root: 'fill:#fde2e4,stroke:#9d4edd',
+  dimension: 'fill:#e2ece9,stroke:#2a9d8f',
+  hypothesis: 'fill:#fff1e6,stroke:#e76f51',
+  evidence: 'fill:#dfe7fd,stroke:#457b9d',
+  placeholder_gap: 'fill:#f1f1f1,stroke:#999999,stroke-dasharray:4',
+  interdisciplinary_bridge_node: 'fill:#fefae0,stroke:#bc6c25',
+  super_node: 'fill:#ede7f6,stroke:#5e35b1,stroke-width:3px'
+};
+
+const NODE_ATTRIBUTES: Array<{ key: string; type: 'string' | 'double' }> = [
+  { key: 'label', type: 'string' },
+  { key: 'type', type: 'string' },
+  { key: 'layer_id', type: 'string' },
+  { key: 'community_id', type: 'string' },
+  ...CONFIDENCE_DIMENSIONS.map(key => ({ key, type: 'double' as const })),
+  { key: 'impact_score', type: 'double' },
+  { key: 'epistemic_status', type: 'string' },
+  { key: 'provenance', type: 'string' },
+  { key: 'disciplinary_tags', type: 'string' },
+  { key: 'timestamp', type: 'string' }
+];
+
+const EDGE_ATTRIBUTES: Array<{ key: string; type: 'string' | 'double' }> = [
+  { key: 'edge_type', type: 'string' },
+  ...CONFIDENCE_DIMENSIONS.map(key => ({ key, type: 'double' as const })),
+  { key: 'causal_confounders', type: 'string' },
+  { key: 'causal_mechanism', type: 'string' },
+  { key: 'causal_strength', type: 'double' },
+  { key: 'temporal_delay_duration', type: 'double' },
+  { key: 'temporal_pattern_type', type: 'string' },
+  { key: 'temporal_frequency', type: 'double' },
+  { key: 'timestamp', type: 'string' }
+];
+
+/**
+ * Export ASR-GoT graphs to interchange formats for Gephi, Cytoscape, Graphviz and Mermaid
+ * Hyperedges are native in GraphML and star-expanded into helper nodes everywhere else
+ */
+export class GraphExporter {
+  export(graph: ExportableGraph, format: GraphExportFormat): string {
+    switch (format) {
+      case 'graphml':
+        return this.toGraphML(graph);
+      case 'gexf':
+        return this.toGEXF(graph);
+      case 'dot':
+        return this.toDOT(graph);
+      case 'cytoscape':
+        return JSON.stringify(this.toCytoscape(graph), null, 2);
+      case 'mermaid':
+        return this.toMermaid(graph);
+      default:
+        throw new Error(`Unsupported export format: ${format}`);
+    }
+  }
+
+  getMediaType(format: GraphExportFormat): string {
+    switch (format) {
+      case 'graphml': return 'application/graphml+xml';
+      case 'gexf': return 'application/gexf+xml';
+      case 'dot': return 'text/vnd.graphviz';
+      case 'cytoscape': return 'application/json';
+      case 'mermaid': return 'text/vnd.mermaid';
+      default: return 'text/plain';
+    }
+  }
+
+  // GraphML (hyperedges supported natively)
+  private toGraphML(graph: ExportableGraph): string {
+    const lines: string[] = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">'
+    ];
+
+    for (const attribute of NODE_ATTRIBUTES) {
+      lines.push(`  <key id="n_${attribute.key}" for="node" attr.name="${attribute.key}" attr.type="${attribute.type}"/>`);
+    }
+    for (const attribute of EDGE_ATTRIBUTES) {
+      lines.push(`  <key id="e_${attribute.key}" for="edge" attr.name="${attribute.key}" attr.type="${attribute.type}"/>`);
+    }
+    for (const attribute of EDGE_ATTRIBUTES) {
+      lines.push(`  <key id="h_${attribute.key}" for="hyperedge" attr.name="${attribute.key}" attr.type="${attribute.type}"/>`);
+    }
+
+    lines.push('  <graph id="asr-got" edgedefault="directed">');
+
+    for (const node of graph.nodes) {
+      lines.push(`    <node id="${escapeXml(node.id)}">`);
+      lines.push(...this.graphMLData('n', this.nodeAttributes(node), '      '));
+      lines.push('    </node>');
+    }
+
+    for (const edge of graph.edges) {
+      lines.push(`    <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`);
+      lines.push(...this.graphMLData('e', this.edgeAttributes(edge.metadata), '      '));
+      lines.push('    </edge>');
+    }
+
+    for (const hyperedge of graph.hyperedges) {
+      lines.push(`    <hyperedge id="${escapeXml(hyperedge.id)}">`);
+      for (const nodeId of hyperedge.nodes) {
+        lines.push(`      <endpoint node="${escapeXml(nodeId)}"/>`);
+      }
+      lines.push(...this.graphMLData('h', this.edgeAttributes(hyperedge.metadata), '      '));
+      lines.push('    </hyperedge>');
+    }
+
+    lines.push('  </graph>', '</graphml>');
+    return lines.join('\n');
+  }
+
+  private graphMLData(prefix: string, attributes: Record<string, AttributeValue>, indent: string): string[] {
+    return Object.entries(attributes)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${indent}<data key="${prefix}_${key}">${escapeXml(String(value))}</data>`);
+  }
+
+  // GEXF 1.3 (hyperedges star-expanded)
+  private toGEXF(graph: ExportableGraph): string {
+    const expanded = this.starExpand(graph);
+    const lines: string[] = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<gexf xmlns="http://gexf.net/1.3" version="1.3">',
+      '  <graph defaultedgetype="directed" mode="static">',
+      '    <attributes class="node">'
+    ];
+
+    NODE_ATTRIBUTES.forEach((attribute, index) => {
+      lines.push(`      <attribute id="${index}" title="${attribute.key}" type="${attribute.type}"/>`);
+    });
+    lines.push(`      <attribute id="${NODE_ATTRIBUTES.length}" title="hyperedge_helper" type="boolean"/>`);
+    lines.push('    </attributes>', '    <attributes class="edge">');
+    EDGE_ATTRIBUTES.forEach((attribute, index) => {
+      lines.push(`      <attribute id="${index}" title="${attribute.key}" type="${attribute.type}"/>`);
+    });
+    lines.push('    </attributes>', '    <nodes>');
+
+    for (const node of expanded.nodes) {
+      lines.push(`      <node id="${escapeXml(node.id)}" label="${escapeXml(node.label)}">`);
+      lines.push('        <attvalues>');
+      NODE_ATTRIBUTES.forEach((attribute, index) => {
+        const value = node.attributes[attribute.key];
+        if (value !== undefined) {
+          lines.push(`          <attvalue for="${index}" value="${escapeXml(String(value))}"/>`);
+        }
+      });
+      lines.push(`          <attvalue for="${NODE_ATTRIBUTES.length}" value="${node.helper}"/>`);
+      lines.push('        </attvalues>', '      </node>');
+    }
+
+    lines.push('    </nodes>', '    <edges>');
+
+    for (const edge of expanded.edges) {
+      const edgeType = edge.helper ? ' type="undirected"' : '';
+      lines.push(`      <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}" weight="${edge.weight}"${edgeType}>`);
+      lines.push('        <attvalues>');
+      EDGE_ATTRIBUTES.forEach((attribute, index) => {
+        const value = edge.attributes[attribute.key];
+        if (value !== undefined) {
+          lines.push(`          <attvalue for="${index}" value="${escapeXml(String(value))}"/>`);
+        }
+      });
+      lines.push('        </attvalues>', '      </edge>');
+    }
+
+    lines.push('    </edges>', '  </graph>', '</gexf>');
+    return lines.join('\n');
+  }
+
+  // Graphviz DOT (hyperedges star-expanded)
+  private toDOT(graph: ExportableGraph): string {
+    const expanded = this.starExpand(graph);
+    const lines: string[] = ['digraph asr_got {', '  rankdir=TB;'];
+
+    for (const node of expanded.nodes) {
+      const attributes: Record<string, AttributeValue> = node.helper
+        ? { label: '', shape: 'point', hyperedge_helper: 'true' }
+        : { ...node.attributes };
+      lines.push(`  ${quoteDot(node.id)} [${this.dotAttributes(attributes)}];`);
+    }
+
+    for (const edge of expanded.edges) {
+      const attributes: Record<string, AttributeValue> = { label: edge.attributes.edge_type, ...edge.attributes };
+      if (edge.helper) {
+        attributes.dir = 'none';
+        attributes.style = 'dashed';
+      }
+      lines.push(`  ${quoteDot(edge.source)} -> ${quoteDot(edge.target)} [${this.dotAttributes(attributes)}];`);
+    }
+
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  private dotAttributes(attributes: Record<string, AttributeValue>): string {
+    return Object.entries(attributes)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}=${typeof value === 'number' ? value : quoteDot(String(value))}`)
+      .join(', ');
+  }
+
+  // Cytoscape.js elements JSON (hyperedges star-expanded)
+  private toCytoscape(graph: ExportableGraph): { elements: { nodes: any[]; edges: any[] } } {
+    const expanded = this.starExpand(graph);
+
+    return {
+      elements: {
+        nodes: expanded.nodes.map(node => ({
+          data: { id: node.id, ...withoutUndefined(node.attributes), hyperedge_helper: node.helper }
+        })),
+        edges: expanded.edges.map(edge => ({
+          data: {
+            id: edge.id,
+            source: edge.source,
+            target: edge.target,
+            weight: edge.weight,
+            ...withoutUndefined(edge.attributes),
+            hyperedge_helper: edge.helper
+          }
+        }))
+      }
+    };
+  }
+
+  // Mermaid flowchart (hyperedges star-expanded, attributes carried in labels and classes)
+  private toMermaid(graph: ExportableGraph): string {
+    const expanded = this.starExpand(graph);
+    const lines: string[] = ['graph TD'];
+    const aliases = new Map<string, string>();
+
+    expanded.nodes.forEach((node, index) => {
+      const alias = node.helper ? `h${index}` : `n${index}`;
+      aliases.set(node.id, alias);
+
+      if (node.helper) {
+        lines.push(`  ${alias}(( ))`);
+      } else {
+        const confidence = CONFIDENCE_DIMENSIONS
+          .map(dimension => Number(node.attributes[dimension] ?? 0).toFixed(2))
+          .join('/');
+        lines.push(`  ${alias}["${escapeMermaid(node.label)}<br/>${node.attributes.type} · ${confidence}"]`);
+      }
+    });
+
+    for (const edge of expanded.edges) {
+      const source = aliases.get(edge.source);
+      const target = aliases.get(edge.target);
+      if (!source || !target) continue;
+
+      if (edge.helper) {
+        lines.push(`  ${source} -.- ${target}`);
+      } else {
+        lines.push(`  ${source} -->|${escapeMermaid(String(edge.attributes.edge_type))}| ${target}`);
+      }
+    }
+
+    const nodeTypes = new Set(expanded.nodes.filter(node => !node.helper).map(node => String(node.attributes.type)));
+    for (const nodeType of nodeTypes) {
+      const members = expanded.nodes
+        .filter(node => !node.helper && node.attributes.type === nodeType)
+        .map(node => aliases.get(node.id));
+      if (MERMAID_CLASS_STYLES[nodeType]) {
+        lines.push(`  classDef ${nodeType} ${MERMAID_CLASS_STYLES[nodeType]}`);
+      }
+      lines.push(`  class ${members.join(',')} ${nodeType}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  // Attribute extraction
+  private nodeAttributes(node: GraphNode): Record<string, AttributeValue> {
+    const metadata = node.metadata;
+    return {
+      label: metadata.label,
+      type: metadata.type,
+      layer_id: metadata.layer_id,
+      community_id: metadata.community_id,
+      ...this.confidenceAttributes(metadata.confidence),
+      impact_score: metadata.impact_score,
+      epistemic_status: metadata.epistemic_status,
+      provenance: metadata.provenance,
+      disciplinary_tags: metadata.disciplinary_tags?.join(';'),
+      timestamp: toIso(metadata.timestamp)
+    };
+  }
+
+  private edgeAttributes(metadata: EdgeMetadata): Record<string, AttributeValue> {
+    return {
+      edge_type: metadata.edge_type,
+      ...this.confidenceAttributes(metadata.confidence),
+      causal_confounders: metadata.causal_metadata?.confounders?.join(';'),
+      causal_mechanism: metadata.causal_metadata?.mechanism,
+      causal_strength: metadata.causal_metadata?.strength,
+      temporal_delay_duration: metadata.temporal_metadata?.delay_duration,
+      temporal_pattern_type: metadata.temporal_metadata?.pattern_type,
+      temporal_frequency: metadata.temporal_metadata?.frequency,
+      timestamp: toIso(metadata.timestamp)
+    };
+  }
+
+  private confidenceAttributes(confidence: any): Record<string, AttributeValue> {
+    const attributes: Record<string, AttributeValue> = {};
+    for (const dimension of CONFIDENCE_DIMENSIONS) {
+      attributes[dimension] = confidence?.[dimension];
+    }
+    return attributes;
+  }
+
+  private averageConfidence(confidence: any): number {
+    if (!confidence) return 0;
+    return CONFIDENCE_DIMENSIONS.reduce((sum, dimension) => sum + (confidence[dimension] ?? 0), 0) / CONFIDENCE_DIMENSIONS.length;
+  }
+
+  /**
+   * Replace each hyperedge with a helper node linked to every member node
+   */
+  private starExpand(graph: ExportableGraph): {
+    nodes: Array<{ id: string; label: string; helper: boolean; attributes: Record<string, AttributeValue> }>;
+    edges: Array<{ id: string; source: string; target: string; weight: number; helper: boolean; attributes: Record<string, AttributeValue> }>;
+  } {
+    const nodes = graph.nodes.map(node => ({
+      id: node.id,
+      label: node.metadata.label,
+      helper: false,
+      attributes: this.nodeAttributes(node)
+    }));
+
+    const edges = graph.edges.map(edge => ({
+      id: edge.id,
+      source: edge.source,
+      target: edge.target,
+      weight: round(this.averageConfidence(edge.metadata.confidence)),
+      helper: false,
+      attributes: this.edgeAttributes(edge.metadata)
+    }));
+
+    for (const hyperedge of graph.hyperedges) {
+      const helperId = `hyperedge:${hyperedge.id}`;
+      const attributes = this.edgeAttributes(hyperedge.metadata);
+
+      nodes.push({
+        id: helperId,
+        label: `hyperedge ${hyperedge.id}`,
+        helper: true,
+        attributes: { label: `hyperedge ${hyperedge.id}`, type: 'hyperedge' }
+      });
+
+      hyperedge.nodes.forEach((nodeId, index) => {
+        edges.push({
+          id: `${helperId}:${index}`,
+          source: helperId,
+          target: nodeId,
+          weight: round(this.averageConfidence(hyperedge.metadata.confidence)),
+          helper: true,
+          attributes
+        });
+      });
+    }
+
+    return { nodes, edges };
+  }
+}
+
+// Helper functions
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function quoteDot(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+function escapeMermaid(value: string): string {
+  return value.replace(/"/g, '#quot;').replace(/\|/g, '#124;').replace(/\n/g, ' ');
+}
+
+function toIso(value: unknown): string | undefined {
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === 'string' ? value : undefined;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function withoutUndefined(attributes: Record<string, AttributeValue>): Record<string, string | number> {
+  const result: Record<string, string | number> = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) {
+      result[key] = value;
+    }
+  }
+  return result;
+}
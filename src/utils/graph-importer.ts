@@ -0,0 +1,393 @@
+import { v4 as uuidv4 } from 'uuid';
+import { NodeMetadata, EdgeMetadata, EdgeType } from '../types/index.js';
+import { ASRGoTGraph } from '../core/graph.js';
+import { ASRGoTValidator } from '../validation/schema-validator.js';
+import { reviveNodeDates, reviveEdgeDates } from '../persistence/graph-serializer.js';
+
+export type GraphImportFormat = 'native' | 'graphml' | 'cytoscape';
+
+export const GRAPH_IMPORT_FORMATS: GraphImportFormat[] = ['native', 'graphml', 'cytoscape'];
+
+export interface GraphImportReport {
+  format: GraphImportFormat;
+  nodes_imported: number;
+  edges_imported: number;
+  hyperedges_imported: number;
+  repaired: Array<{ id: string; kind: 'node' | 'edge' | 'hyperedge'; issues: string[] }>;
+  rejected: Array<{ id: string; kind: 'node' | 'edge' | 'hyperedge'; errors: string[] }>;
+  warnings: string[];
+}
+
+// Format-neutral records produced by the parsers, before validation
+interface RawGraph {
+  nodes: Array<{ id: string; metadata: any }>;
+  edges: Array<{ id: string; source: string; target: string; metadata: any }>;
+  hyperedges: Array<{ id: string; nodes: string[]; metadata: any }>;
+}
+
+const CONFIDENCE_DIMENSIONS = [
+  'empirical_support',
+  'theoretical_basis',
+  'methodological_rigor',
+  'consensus_alignment'
+];
+
+/**
+ * Import graphs from the native envelope, GraphML or Cytoscape JSON
+ * Every record is validated with ASRGoTValidator; fixable records are repaired with sanitizeMetadata
+ */
+export class GraphImporter {
+  private validator: ASRGoTValidator;
+
+  constructor(validator: ASRGoTValidator = new ASRGoTValidator()) {
+    this.validator = validator;
+  }
+
+  import(content: string, format: GraphImportFormat): { graph: ASRGoTGraph; report: GraphImportReport } {
+    let raw: RawGraph;
+    switch (format) {
+      case 'native':
+        raw = this.parseNative(content);
+        break;
+      case 'graphml':
+        raw = this.parseGraphML(content);
+        break;
+      case 'cytoscape':
+        raw = this.parseCytoscape(content);
+        break;
+      default:
+        throw new Error(`Unsupported import format: ${format}`);
+    }
+
+    return this.buildGraph(raw, format);
+  }
+
+  private buildGraph(raw: RawGraph, format: GraphImportFormat): { graph: ASRGoTGraph; report: GraphImportReport } {
+    const graph = new ASRGoTGraph();
+    const report: GraphImportReport = {
+      format,
+      nodes_imported: 0,
+      edges_imported: 0,
+      hyperedges_imported: 0,
+      repaired: [],
+      rejected: [],
+      warnings: []
+    };
+
+    for (const record of raw.nodes) {
+      const metadata = this.checkRecord<NodeMetadata>(record.id, 'node', { ...record.metadata, node_id: record.id }, report);
+      if (!metadata) continue;
+
+      graph.addNode(metadata);
+      report.nodes_imported++;
+    }
+
+    for (const record of raw.edges) {
+      if (!graph.hasNode(record.source) || !graph.hasNode(record.target)) {
+        report.rejected.push({
+          id: record.id,
+          kind: 'edge',
+          errors: [`References missing or rejected node (${record.source} -> ${record.target})`]
+        });
+        continue;
+      }
+
+      const metadata = this.checkRecord<EdgeMetadata>(record.id, 'edge', { ...record.metadata, edge_id: record.id }, report);
+      if (!metadata) continue;
+
+      graph.addEdge(record.source, record.target, metadata);
+      report.edges_imported++;
+    }
+
+    for (const record of raw.hyperedges) {
+      const missing = record.nodes.filter(nodeId => !graph.hasNode(nodeId));
+      if (missing.length > 0) {
+        report.rejected.push({ id: record.id, kind: 'hyperedge', errors: [`References missing or rejected nodes: ${missing.join(', ')}`] });
+        continue;
+      }
+      if (new Set(record.nodes).size < 2) {
+        report.rejected.push({ id: record.id, kind: 'hyperedge', errors: ['A hyperedge needs at least two distinct nodes'] });
+        continue;
+      }
+
+      const metadata = this.checkRecord<EdgeMetadata>(record.id, 'hyperedge', { ...record.metadata, edge_id: record.id }, report);
+      if (!metadata) continue;
+
+      graph.addHyperedge(record.nodes, metadata);
+      report.hyperedges_imported++;
+    }
+
+    return { graph, report };
+  }
+
+  /**
+   * Validate one record, repairing it once if the first validation fails
+   */
+  private checkRecord<T>(
+    id: string,
+    kind: 'node' | 'edge' | 'hyperedge',
+    metadata: any,
+    report: GraphImportReport
+  ): T | null {
+    const metadataKind = kind === 'node' ? 'node' : 'edge';
+    const validate = (candidate: any) => metadataKind === 'node'
+      ? this.validator.validateNodeMetadata(candidate)
+      : this.validator.validateEdgeMetadata(candidate);
+
+    const first = validate(metadata);
+    if (first.isValid && first.sanitized) {
+      return first.sanitized as T;
+    }
+
+    const repaired = validate(this.validator.sanitizeMetadata(metadata, metadataKind));
+    if (repaired.isValid && repaired.sanitized) {
+      report.repaired.push({ id, kind, issues: first.errors });
+      return repaired.sanitized as T;
+    }
+
+    report.rejected.push({ id, kind, errors: repaired.errors });
+    return null;
+  }
+
+  // Native asr-got-graph envelope
+  private parseNative(content: string): RawGraph {
+    const envelope = JSON.parse(content);
+    if (!envelope || envelope.format !== 'asr-got-graph' || !envelope.graph) {
+      throw new Error('Not an asr-got-graph document');
+    }
+
+    return {
+      nodes: (envelope.graph.nodes || []).map((node: any) => ({
+        id: String(node.id),
+        metadata: reviveNodeDates(node.metadata)
+      })),
+      edges: (envelope.graph.edges || []).map((edge: any) => ({
+        id: String(edge.id),
+        source: String(edge.source),
+        target: String(edge.target),
+        metadata: reviveEdgeDates(edge.metadata)
+      })),
+      hyperedges: (envelope.graph.hyperedges || []).map((hyperedge: any) => ({
+        id: String(hyperedge.id),
+        nodes: (hyperedge.nodes || []).map(String),
+        metadata: reviveEdgeDates(hyperedge.metadata)
+      }))
+    };
+  }
+
+  // GraphML, including files written by export_graph, Gephi and yEd
+  private parseGraphML(content: string): RawGraph {
+    if (!/<graphml[\s>]/.test(content)) {
+      throw new Error('Not a GraphML document');
+    }
+
+    // key id -> attribute name, per domain
+    const keys = new Map<string, string>();
+    for (const match of content.matchAll(/<key\b([^>]*?)\/?>/g)) {
+      const attributes = parseXmlAttributes(match[1]);
+      if (attributes.id) {
+        keys.set(attributes.id, attributes['attr.name'] || attributes.id);
+      }
+    }
+
+    const readData = (body: string | undefined): Record<string, string> => {
+      const data: Record<string, string> = {};
+      for (const match of (body || '').matchAll(/<data\b([^>]*)>([\s\S]*?)<\/data>/g)) {
+        const key = parseXmlAttributes(match[1]).key;
+        if (key) {
+          data[keys.get(key) || key] = unescapeXml(match[2].trim());
+        }
+      }
+      return data;
+    };
+
+    const raw: RawGraph = { nodes: [], edges: [], hyperedges: [] };
+
+    for (const match of content.matchAll(/<node\b([^>]*?)(?:\/>|>([\s\S]*?)<\/node>)/g)) {
+      const id = parseXmlAttributes(match[1]).id;
+      if (!id) continue;
+      raw.nodes.push({ id, metadata: this.nodeFromAttributes(id, readData(match[2]), 'graphml') });
+    }
+
+    for (const match of content.matchAll(/<edge\b([^>]*?)(?:\/>|>([\s\S]*?)<\/edge>)/g)) {
+      const attributes = parseXmlAttributes(match[1]);
+      if (!attributes.source || !attributes.target) continue;
+      raw.edges.push({
+        id: attributes.id || uuidv4(),
+        source: attributes.source,
+        target: attributes.target,
+        metadata: this.edgeFromAttributes(readData(match[2]))
+      });
+    }
+
+    for (const match of content.matchAll(/<hyperedge\b([^>]*?)>([\s\S]*?)<\/hyperedge>/g)) {
+      const nodes = Array.from(match[2].matchAll(/<endpoint\b([^>]*?)\/?>/g))
+        .map(endpoint => parseXmlAttributes(endpoint[1]).node)
+        .filter(Boolean);
+      raw.hyperedges.push({
+        id: parseXmlAttributes(match[1]).id || uuidv4(),
+        nodes,
+        metadata: this.edgeFromAttributes(readData(match[2]))
+      });
+    }
+
+    return raw;
+  }
+
+  // Cytoscape.js JSON; helper nodes written by export_graph are folded back into hyperedges
+  private parseCytoscape(content: string): RawGraph {
+    const document = JSON.parse(content);
+    const elements = document?.elements ?? document;
+
+    let nodeElements: any[];
+    let edgeElements: any[];
+    if (Array.isArray(elements)) {
+      nodeElements = elements.filter((element: any) => element.group === 'nodes' || (element.data && element.data.source === undefined));
+      edgeElements = elements.filter((element: any) => element.group === 'edges' || (element.data && element.data.source !== undefined));
+    } else if (elements && typeof elements === 'object') {
+      nodeElements = elements.nodes || [];
+      edgeElements = elements.edges || [];
+    } else {
+      throw new Error('Not a Cytoscape JSON document');
+    }
+
+    const raw: RawGraph = { nodes: [], edges: [], hyperedges: [] };
+    const helpers = new Map<string, { id: string; nodes: string[]; metadata: any }>();
+
+    for (const element of nodeElements) {
+      const data = element.data || {};
+      if (data.id === undefined) continue;
+      const id = String(data.id);
+
+      if (data.hyperedge_helper) {
+        helpers.set(id, { id: id.replace(/^hyperedge:/, ''), nodes: [], metadata: null });
+        continue;
+      }
+      raw.nodes.push({ id, metadata: this.nodeFromAttributes(id, data, 'cytoscape') });
+    }
+
+    for (const element of edgeElements) {
+      const data = element.data || {};
+      if (data.source === undefined || data.target === undefined) continue;
+
+      const helper = helpers.get(String(data.source));
+      if (helper) {
+        helper.nodes.push(String(data.target));
+        helper.metadata = helper.metadata || this.edgeFromAttributes(data);
+        continue;
+      }
+
+      raw.edges.push({
+        id: data.id !== undefined ? String(data.id) : uuidv4(),
+        source: String(data.source),
+        target: String(data.target),
+        metadata: this.edgeFromAttributes(data)
+      });
+    }
+
+    for (const helper of helpers.values()) {
+      raw.hyperedges.push({ id: helper.id, nodes: helper.nodes, metadata: helper.metadata || {} });
+    }
+
+    return raw;
+  }
+
+  // Attribute mapping shared by the flat formats (GraphML data keys, Cytoscape data fields)
+  private nodeFromAttributes(id: string, attributes: Record<string, any>, format: GraphImportFormat): any {
+    const importedAt = new Date();
+    const timestamp = attributes.timestamp ? new Date(attributes.timestamp) : importedAt;
+
+    return {
+      node_id: id,
+      label: attributes.label ?? attributes.name,
+      type: attributes.type,
+      timestamp,
+      provenance: attributes.provenance ?? `Imported from ${format}`,
+      confidence: this.confidenceFromAttributes(attributes),
+      epistemic_status: attributes.epistemic_status ?? 'imported',
+      disciplinary_tags: toList(attributes.disciplinary_tags),
+      bias_flags: toList(attributes.bias_flags) ?? [],
+      revision_history: [{
+        timestamp: timestamp > importedAt ? timestamp : importedAt,
+        change: `Imported from ${format}`,
+        author: 'ASR-GoT Importer'
+      }],
+      layer_id: attributes.layer_id || undefined,
+      community_id: attributes.community_id || undefined,
+      impact_score: toNumber(attributes.impact_score),
+      falsification_criteria: attributes.falsification_criteria,
+      plan: attributes.plan
+    };
+  }
+
+  private edgeFromAttributes(attributes: Record<string, any>): any {
+    const confounders = toList(attributes.causal_confounders);
+    const hasCausal = confounders !== undefined || attributes.causal_mechanism !== undefined || attributes.causal_strength !== undefined;
+    const hasTemporal = attributes.temporal_delay_duration !== undefined ||
+      attributes.temporal_pattern_type !== undefined ||
+      attributes.temporal_frequency !== undefined;
+
+    const edgeType = attributes.edge_type ?? attributes.type;
+
+    return {
+      edge_type: Object.values(EdgeType).includes(edgeType) ? edgeType : undefined,
+      confidence: this.confidenceFromAttributes(attributes),
+      timestamp: attributes.timestamp ? new Date(attributes.timestamp) : new Date(),
+      causal_metadata: hasCausal ? {
+        confounders: confounders ?? [],
+        mechanism: attributes.causal_mechanism,
+        strength: toNumber(attributes.causal_strength)
+      } : undefined,
+      temporal_metadata: hasTemporal ? {
+        delay_duration: toNumber(attributes.temporal_delay_duration),
+        pattern_type: attributes.temporal_pattern_type,
+        frequency: toNumber(attributes.temporal_frequency)
+      } : undefined
+    };
+  }
+
+  private confidenceFromAttributes(attributes: Record<string, any>): any {
+    if (attributes.confidence && typeof attributes.confidence === 'object') {
+      return attributes.confidence;
+    }
+    if (!CONFIDENCE_DIMENSIONS.some(dimension => attributes[dimension] !== undefined)) {
+      return undefined;
+    }
+
+    const confidence: Record<string, number | undefined> = {};
+    for (const dimension of CONFIDENCE_DIMENSIONS) {
+      confidence[dimension] = toNumber(attributes[dimension]);
+    }
+    return confidence;
+  }
+}
+
+// Helper functions
+function parseXmlAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = unescapeXml(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = typeof value === 'number' ? value : Number(value);
+  return isNaN(number) ? undefined : number;
+}
+
+function toList(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === 'string') return value.split(';').map(item => item.trim()).filter(Boolean);
+  return undefined;
+}
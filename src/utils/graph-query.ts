@@ -0,0 +1,344 @@
+import { z } from 'zod';
+import { GraphEdge, GraphNode } from '../types/index.js';
+import { ASRGoTGraph } from '../core/graph.js';
+
+export type QueryTarget = 'nodes' | 'edges';
+
+export type ComparisonOperator = '=' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'contains' | 'exists';
+
+/**
+ * Filter AST; leaves compare one field, branches combine conditions
+ * `edges` counts the incident edges of a node that match a pattern (node queries only);
+ * `source` / `target` apply a node condition to an edge endpoint (edge queries only).
+ */
+export type QueryCondition =
+  | { field: string; op: ComparisonOperator; value?: unknown }
+  | { and: QueryCondition[] }
+  | { or: QueryCondition[] }
+  | { not: QueryCondition }
+  | {
+      edges: { direction?: 'incoming' | 'outgoing' | 'both'; where?: QueryCondition; neighbor?: QueryCondition };
+      op?: ComparisonOperator;
+      value?: number;
+    }
+  | { source: QueryCondition }
+  | { target: QueryCondition };
+
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+export interface GraphQuery {
+  target?: QueryTarget;
+  where?: QueryCondition;
+  select?: string[];
+  aggregate?: {
+    group_by?: string;
+    metrics: Array<{ fn: AggregateFunction; field?: string; as?: string }>;
+  };
+  order_by?: Array<{ field: string; direction?: 'asc' | 'desc' }>;
+  limit?: number;
+}
+
+export interface GraphQueryResult {
+  target: QueryTarget;
+  total_matches: number;
+  rows?: Array<Record<string, unknown>>;
+  groups?: Array<Record<string, unknown>>;
+  truncated: boolean;
+}
+
+const OPERATORS: [ComparisonOperator, ...ComparisonOperator[]] = ['=', '!=', '<', '<=', '>', '>=', 'in', 'contains', 'exists'];
+
+const ConditionSchema: z.ZodType<QueryCondition> = z.lazy(() => z.union([
+  z.object({ field: z.string().min(1), op: z.enum(OPERATORS), value: z.unknown().optional() }).strict(),
+  z.object({ and: z.array(ConditionSchema).min(1) }).strict(),
+  z.object({ or: z.array(ConditionSchema).min(1) }).strict(),
+  z.object({ not: ConditionSchema }).strict(),
+  z.object({
+    edges: z.object({
+      direction: z.enum(['incoming', 'outgoing', 'both']).optional(),
+      where: ConditionSchema.optional(),
+      neighbor: ConditionSchema.optional()
+    }).strict(),
+    op: z.enum(OPERATORS).optional(),
+    value: z.number().optional()
+  }).strict(),
+  z.object({ source: ConditionSchema }).strict(),
+  z.object({ target: ConditionSchema }).strict()
+]));
+
+export const GraphQuerySchema: z.ZodType<GraphQuery> = z.object({
+  target: z.enum(['nodes', 'edges']).optional(),
+  where: ConditionSchema.optional(),
+  select: z.array(z.string().min(1)).optional(),
+  aggregate: z.object({
+    group_by: z.string().min(1).optional(),
+    metrics: z.array(z.object({
+      fn: z.enum(['count', 'sum', 'avg', 'min', 'max']),
+      field: z.string().min(1).optional(),
+      as: z.string().min(1).optional()
+    }).strict()).min(1)
+  }).strict().optional(),
+  order_by: z.array(z.object({
+    field: z.string().min(1),
+    direction: z.enum(['asc', 'desc']).optional()
+  }).strict()).optional(),
+  limit: z.number().int().min(1).max(1000).optional()
+}).strict();
+
+const DEFAULT_NODE_FIELDS = ['id', 'label', 'type'];
+const DEFAULT_EDGE_FIELDS = ['id', 'source', 'target', 'edge_type'];
+const DEFAULT_LIMIT = 100;
+
+type QueryRecord = { kind: 'node'; node: GraphNode } | { kind: 'edge'; edge: GraphEdge };
+
+/**
+ * Declarative ad-hoc queries over nodes or edges: filter, project, aggregate, sort
+ * Fields are dot paths into node or edge metadata (e.g. confidence.empirical_support,
+ * topology_metrics.pagerank), plus id, computed degree / in_degree / out_degree / hyperdegree and
+ * mean_confidence, and source / target on edges.
+ */
+export class GraphQueryEngine {
+  /**
+   * Validate a raw query; throws with every problem listed when it is malformed
+   */
+  parse(input: unknown): GraphQuery {
+    const result = GraphQuerySchema.safeParse(input);
+    if (!result.success) {
+      const problems = result.error.errors.map(error => `${error.path.join('.') || 'query'}: ${error.message}`);
+      throw new Error(`Invalid graph query: ${problems.join('; ')}`);
+    }
+    return result.data;
+  }
+
+  execute(graph: ASRGoTGraph, query: GraphQuery): GraphQueryResult {
+    const target = query.target ?? 'nodes';
+    const state = graph.getState();
+    const records: QueryRecord[] = target === 'nodes'
+      ? Array.from(state.vertices.values(), node => ({ kind: 'node' as const, node }))
+      : Array.from(state.edges.values(), edge => ({ kind: 'edge' as const, edge }));
+
+    const matches = query.where
+      ? records.filter(record => this.evaluate(graph, record, query.where!))
+      : records;
+    const limit = query.limit ?? DEFAULT_LIMIT;
+
+    if (query.aggregate) {
+      const groups = this.aggregate(graph, matches, query.aggregate);
+      const ordered = this.order(groups, query.order_by, (group, field) => group[field]);
+      return {
+        target,
+        total_matches: matches.length,
+        groups: ordered.slice(0, limit),
+        truncated: ordered.length > limit
+      };
+    }
+
+    const ordered = this.order(matches, query.order_by, (record, field) => this.resolve(graph, record, field));
+    const fields = query.select ?? (target === 'nodes' ? DEFAULT_NODE_FIELDS : DEFAULT_EDGE_FIELDS);
+    return {
+      target,
+      total_matches: matches.length,
+      rows: ordered.slice(0, limit).map(record => Object.fromEntries(
+        fields.map(field => [field, this.resolve(graph, record, field)])
+      )),
+      truncated: ordered.length > limit
+    };
+  }
+
+  private evaluate(graph: ASRGoTGraph, record: QueryRecord, condition: QueryCondition): boolean {
+    if ('and' in condition) return condition.and.every(child => this.evaluate(graph, record, child));
+    if ('or' in condition) return condition.or.some(child => this.evaluate(graph, record, child));
+    if ('not' in condition) return !this.evaluate(graph, record, condition.not);
+
+    if ('edges' in condition) {
+      if (record.kind !== 'node') {
+        throw new Error('Edge patterns can only be used in node queries');
+      }
+      const count = this.countIncidentEdges(graph, record.node.id, condition.edges);
+      return compare(count, condition.op ?? '>=', condition.value ?? 1);
+    }
+
+    if ('source' in condition || 'target' in condition) {
+      if (record.kind !== 'edge') {
+        throw new Error('Endpoint conditions can only be used in edge queries');
+      }
+      const endpointId = 'source' in condition ? record.edge.source : record.edge.target;
+      const endpoint = graph.getNode(endpointId);
+      const nested = 'source' in condition ? condition.source : condition.target;
+      return endpoint !== undefined && this.evaluate(graph, { kind: 'node', node: endpoint }, nested);
+    }
+
+    return compare(this.resolve(graph, record, condition.field), condition.op, condition.value);
+  }
+
+  private countIncidentEdges(
+    graph: ASRGoTGraph,
+    nodeId: string,
+    pattern: { direction?: 'incoming' | 'outgoing' | 'both'; where?: QueryCondition; neighbor?: QueryCondition }
+  ): number {
+    const direction = pattern.direction ?? 'both';
+    const edges = [
+      ...(direction !== 'outgoing' ? graph.getIncomingEdges(nodeId) : []),
+      ...(direction !== 'incoming' ? graph.getOutgoingEdges(nodeId).filter(edge => direction === 'outgoing' || edge.target !== nodeId) : [])
+    ];
+
+    return edges.filter(edge => {
+      if (pattern.where && !this.evaluate(graph, { kind: 'edge', edge }, pattern.where)) return false;
+      if (!pattern.neighbor) return true;
+
+      const neighbor = graph.getNode(edge.source === nodeId ? edge.target : edge.source);
+      return neighbor !== undefined && this.evaluate(graph, { kind: 'node', node: neighbor }, pattern.neighbor);
+    }).length;
+  }
+
+  private resolve(graph: ASRGoTGraph, record: QueryRecord, field: string): unknown {
+    if (record.kind === 'node') {
+      const node = record.node;
+      switch (field) {
+        case 'id': return node.id;
+        case 'degree': return graph.getNeighbors(node.id).length;
+        case 'in_degree': return graph.getIncomingEdges(node.id).length;
+        case 'out_degree': return graph.getOutgoingEdges(node.id).length;
+        case 'hyperdegree': return graph.getNodeHyperedges(node.id).length;
+        case 'mean_confidence': return meanConfidence(node.metadata.confidence);
+        default: return readPath(node.metadata, field);
+      }
+    }
+
+    const edge = record.edge;
+    switch (field) {
+      case 'id': return edge.id;
+      case 'source': return edge.source;
+      case 'target': return edge.target;
+      case 'mean_confidence': return meanConfidence(edge.metadata.confidence);
+      default: return readPath(edge.metadata, field);
+    }
+  }
+
+  // Array-valued group keys (e.g. disciplinary_tags) put a record in one group per element
+  private aggregate(
+    graph: ASRGoTGraph,
+    records: QueryRecord[],
+    aggregate: NonNullable<GraphQuery['aggregate']>
+  ): Array<Record<string, unknown>> {
+    const groups = new Map<string, { key: unknown; members: QueryRecord[] }>();
+
+    for (const record of records) {
+      const raw = aggregate.group_by ? this.resolve(graph, record, aggregate.group_by) : null;
+      const keys = Array.isArray(raw) ? raw : [raw];
+      for (const key of keys) {
+        const id = JSON.stringify(key ?? null);
+        if (!groups.has(id)) groups.set(id, { key: key ?? null, members: [] });
+        groups.get(id)!.members.push(record);
+      }
+    }
+
+    return Array.from(groups.values(), ({ key, members }) => {
+      const row: Record<string, unknown> = aggregate.group_by ? { [aggregate.group_by]: key } : {};
+      for (const metric of aggregate.metrics) {
+        const name = metric.as ?? (metric.field ? `${metric.fn}_${metric.field}` : metric.fn);
+        row[name] = this.computeMetric(graph, members, metric.fn, metric.field);
+      }
+      return row;
+    });
+  }
+
+  private computeMetric(graph: ASRGoTGraph, members: QueryRecord[], fn: AggregateFunction, field?: string): number | null {
+    if (fn === 'count' && !field) return members.length;
+    if (!field) {
+      throw new Error(`Aggregate ${fn} needs a field`);
+    }
+
+    const values = members
+      .map(member => this.resolve(graph, member, field))
+      .filter((value): value is number => typeof value === 'number' && Number.isFinite(value));
+
+    switch (fn) {
+      case 'count': return values.length;
+      case 'sum': return values.reduce((sum, value) => sum + value, 0);
+      case 'avg': return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+      case 'min': return values.length > 0 ? Math.min(...values) : null;
+      case 'max': return values.length > 0 ? Math.max(...values) : null;
+    }
+  }
+
+  // Missing values sort last in either direction
+  private order<T>(
+    items: T[],
+    orderBy: GraphQuery['order_by'],
+    read: (item: T, field: string) => unknown
+  ): T[] {
+    if (!orderBy || orderBy.length === 0) return items;
+
+    return [...items].sort((a, b) => {
+      for (const { field, direction } of orderBy) {
+        const left = sortable(read(a, field));
+        const right = sortable(read(b, field));
+        if (left === right) continue;
+        if (left === undefined) return 1;
+        if (right === undefined) return -1;
+
+        const result = left < right ? -1 : 1;
+        return direction === 'desc' ? -result : result;
+      }
+      return 0;
+    });
+  }
+}
+
+// Helper functions
+function readPath(source: unknown, path: string): unknown {
+  let current: any = source;
+  for (const key of path.split('.')) {
+    if (current === null || current === undefined) return undefined;
+    current = current[key];
+  }
+  return current;
+}
+
+function meanConfidence(confidence: GraphNode['metadata']['confidence']): number {
+  return (confidence.empirical_support + confidence.theoretical_basis +
+    confidence.methodological_rigor + confidence.consensus_alignment) / 4;
+}
+
+function sortable(value: unknown): number | string | undefined {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return undefined;
+}
+
+function compare(actual: unknown, op: ComparisonOperator, expected: unknown): boolean {
+  switch (op) {
+    case 'exists':
+      return (actual !== undefined && actual !== null) === (expected ?? true);
+    case 'in':
+      return Array.isArray(expected) && expected.some(candidate => equals(actual, candidate));
+    case 'contains':
+      if (Array.isArray(actual)) return actual.some(element => equals(element, expected));
+      return typeof actual === 'string' && typeof expected === 'string' && actual.includes(expected);
+    case '=':
+      return equals(actual, expected);
+    case '!=':
+      return !equals(actual, expected);
+  }
+
+  // Ordering comparisons; dates compare against ISO-8601 strings
+  const left = sortable(actual);
+  const right = actual instanceof Date && typeof expected === 'string' ? Date.parse(expected) : sortable(expected);
+  if (left === undefined || right === undefined || typeof left !== typeof right) return false;
+
+  switch (op) {
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '>': return left > right;
+    case '>=': return left >= right;
+  }
+}
+
+function equals(actual: unknown, expected: unknown): boolean {
+  if (actual instanceof Date && typeof expected === 'string') {
+    return actual.getTime() === Date.parse(expected);
+  }
+  return actual === expected;
+}
@@ -0,0 +1,45 @@
+/**
+ * Binary min-heap of ids keyed by priority, used by the Dijkstra searches
+ * Stale entries are left in place; callers skip ids they have already settled
+ */
+export class MinHeap {
+  private items: Array<{ id: string; priority: number }> = [];
+
+  size(): number {
+    return this.items.length;
+  }
+
+  push(id: string, priority: number): void {
+    this.items.push({ id, priority });
+    let index = this.items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.items[parent].priority <= this.items[index].priority) break;
+      [this.items[parent], this.items[index]] = [this.items[index], this.items[parent]];
+      index = parent;
+    }
+  }
+
+  pop(): { id: string; priority: number } | undefined {
+    if (this.items.length === 0) return undefined;
+    const top = this.items[0];
+    const last = this.items.pop()!;
+
+    if (this.items.length > 0) {
+      this.items[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = 2 * index + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < this.items.length && this.items[left].priority < this.items[smallest].priority) smallest = left;
+        if (right < this.items.length && this.items[right].priority < this.items[smallest].priority) smallest = right;
+        if (smallest === index) break;
+        [this.items[smallest], this.items[index]] = [this.items[index], this.items[smallest]];
+        index = smallest;
+      }
+    }
+
+    return top;
+  }
+}
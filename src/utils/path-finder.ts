@@ -0,0 +1,219 @@
+import { GraphEdge, GraphPath, PathHop } from '../types/index.js';
+import { MinHeap } from './min-heap.js';
+
+// One traversable edge from the current node
+export interface PathStep {
+  edge: GraphEdge;
+  next: string;
+  direction: 'forward' | 'backward';
+}
+
+// Returns the steps available from a node; the graph decides which edge directions are followed
+export type PathExpander = (nodeId: string) => PathStep[];
+
+/**
+ * Path queries for tracing reasoning chains between two nodes
+ * Hop confidence is the mean of the edge confidence vector; path confidence is the product over hops
+ */
+export class PathFinder {
+  /**
+   * Fewest hops (breadth-first search)
+   */
+  shortestPath(expand: PathExpander, sourceId: string, targetId: string): GraphPath | null {
+    if (sourceId === targetId) return this.buildPath(sourceId, []);
+
+    const parents = new Map<string, PathStep & { from: string }>();
+    const visited = new Set<string>([sourceId]);
+    let frontier = [sourceId];
+
+    while (frontier.length > 0) {
+      const next: string[] = [];
+      for (const nodeId of frontier) {
+        for (const step of expand(nodeId)) {
+          if (visited.has(step.next)) continue;
+          visited.add(step.next);
+          parents.set(step.next, { ...step, from: nodeId });
+
+          if (step.next === targetId) {
+            return this.buildPath(sourceId, this.unwind(parents, targetId));
+          }
+          next.push(step.next);
+        }
+      }
+      frontier = next;
+    }
+
+    return null;
+  }
+
+  /**
+   * Highest product of hop confidences (Dijkstra on -log confidence)
+   * Edges with zero confidence cannot carry a path
+   */
+  strongestPath(expand: PathExpander, sourceId: string, targetId: string): GraphPath | null {
+    if (sourceId === targetId) return this.buildPath(sourceId, []);
+
+    const costs = new Map<string, number>([[sourceId, 0]]);
+    const parents = new Map<string, PathStep & { from: string }>();
+    const settled = new Set<string>();
+    const queue = new MinHeap();
+    queue.push(sourceId, 0);
+
+    while (queue.size() > 0) {
+      const { id: current, priority } = queue.pop()!;
+      if (settled.has(current)) continue;
+      settled.add(current);
+
+      if (current === targetId) {
+        return this.buildPath(sourceId, this.unwind(parents, targetId));
+      }
+
+      for (const step of expand(current)) {
+        const confidence = hopConfidence(step.edge);
+        if (confidence <= 0 || settled.has(step.next)) continue;
+
+        const cost = priority - Math.log(confidence);
+        const known = costs.get(step.next);
+        if (known === undefined || cost < known) {
+          costs.set(step.next, cost);
+          parents.set(step.next, { ...step, from: current });
+          queue.push(step.next, cost);
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Every simple path of at most maxLength hops, shortest first then most confident
+   * Enumeration stops once maxPaths paths have been found; branches that cannot reach the target
+   * within the hops left are never entered
+   */
+  allSimplePaths(
+    expand: PathExpander,
+    sourceId: string,
+    targetId: string,
+    maxLength: number,
+    maxPaths: number
+  ): GraphPath[] {
+    if (sourceId === targetId) return [this.buildPath(sourceId, [])];
+
+    const distances = this.distancesToTarget(expand, sourceId, targetId, maxLength);
+    if (!distances.has(sourceId)) return [];
+
+    const paths: GraphPath[] = [];
+    const onPath = new Set<string>([sourceId]);
+    const hops: Array<PathStep & { from: string }> = [];
+
+    const visit = (nodeId: string): void => {
+      if (paths.length >= maxPaths || hops.length >= maxLength) return;
+
+      for (const step of expand(nodeId)) {
+        if (paths.length >= maxPaths) return;
+        if (onPath.has(step.next)) continue;
+
+        const remaining = distances.get(step.next);
+        if (remaining === undefined || hops.length + 1 + remaining > maxLength) continue;
+
+        hops.push({ ...step, from: nodeId });
+        if (step.next === targetId) {
+          paths.push(this.buildPath(sourceId, [...hops]));
+        } else {
+          onPath.add(step.next);
+          visit(step.next);
+          onPath.delete(step.next);
+        }
+        hops.pop();
+      }
+    };
+
+    visit(sourceId);
+    return paths.sort((a, b) => a.length - b.length || b.confidence - a.confidence);
+  }
+
+  /**
+   * Fewest hops from each node to the target, over the steps reachable from the source within maxLength
+   * Simple paths can only be longer, so these distances bound what a branch can still reach
+   */
+  private distancesToTarget(expand: PathExpander, sourceId: string, targetId: string, maxLength: number): Map<string, number> {
+    // Forward breadth-first search, recording each step in reverse; paths end at the target, so it is not expanded
+    const predecessors = new Map<string, Set<string>>();
+    const reached = new Set<string>([sourceId]);
+    let frontier = [sourceId];
+
+    for (let depth = 0; depth < maxLength && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const nodeId of frontier) {
+        for (const step of expand(nodeId)) {
+          if (!predecessors.has(step.next)) {
+            predecessors.set(step.next, new Set());
+          }
+          predecessors.get(step.next)!.add(nodeId);
+
+          if (!reached.has(step.next)) {
+            reached.add(step.next);
+            if (step.next !== targetId) next.push(step.next);
+          }
+        }
+      }
+      frontier = next;
+    }
+
+    // Backward breadth-first search from the target over the recorded steps
+    const distances = new Map<string, number>([[targetId, 0]]);
+    let queue = [targetId];
+    while (queue.length > 0) {
+      const next: string[] = [];
+      for (const nodeId of queue) {
+        for (const predecessor of predecessors.get(nodeId) ?? []) {
+          if (distances.has(predecessor)) continue;
+          distances.set(predecessor, distances.get(nodeId)! + 1);
+          next.push(predecessor);
+        }
+      }
+      queue = next;
+    }
+
+    return distances;
+  }
+
+  private unwind(parents: Map<string, PathStep & { from: string }>, targetId: string): Array<PathStep & { from: string }> {
+    const steps: Array<PathStep & { from: string }> = [];
+    let current = targetId;
+    while (parents.has(current)) {
+      const step = parents.get(current)!;
+      steps.unshift(step);
+      current = step.from;
+    }
+    return steps;
+  }
+
+  private buildPath(sourceId: string, steps: Array<PathStep & { from: string }>): GraphPath {
+    const hops: PathHop[] = steps.map(step => ({
+      edge_id: step.edge.id,
+      from: step.from,
+      to: step.next,
+      direction: step.direction,
+      edge_type: step.edge.metadata.edge_type,
+      confidence: hopConfidence(step.edge),
+      causal_metadata: step.edge.metadata.causal_metadata,
+      temporal_metadata: step.edge.metadata.temporal_metadata
+    }));
+
+    return {
+      nodes: [sourceId, ...steps.map(step => step.next)],
+      hops,
+      length: hops.length,
+      confidence: hops.reduce((product, hop) => product * hop.confidence, 1)
+    };
+  }
+}
+
+// Helper functions
+function hopConfidence(edge: GraphEdge): number {
+  const confidence = edge.metadata.confidence;
+  const mean = (confidence.empirical_support + confidence.theoretical_basis +
+    confidence.methodological_rigor + confidence.consensus_alignment) / 4;
+  return Math.max(0, Math.min(1, mean));
+}
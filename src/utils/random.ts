@@ -0,0 +1,69 @@
+/**
+ * Seedable pseudo-random number generator (mulberry32)
+ * Generators built from the same seed return the same sequence, so pipeline runs can be replayed exactly.
+ */
+export class SeededRandom {
+  readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * A fresh seed for runs that were not given one
+   */
+  static randomSeed(): number {
+    return Math.floor(Math.random() * 0x100000000);
+  }
+
+  /**
+   * Mix further numbers into a seed, e.g. a stage number, to give independent but reproducible streams
+   */
+  static derive(seed: number, ...parts: number[]): number {
+    let hash = seed >>> 0;
+    for (const part of parts) {
+      hash = Math.imul(hash ^ (part >>> 0), 0x9e3779b1);
+      hash ^= hash >>> 16;
+    }
+    return hash >>> 0;
+  }
+
+  /**
+   * Next number in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /**
+   * Number in [min, max)
+   */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Integer in [min, max], both inclusive
+   */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * Version 4 UUID drawn from this generator instead of the system's random source
+   */
+  uuid(): string {
+    const bytes = Array.from({ length: 16 }, () => this.int(0, 255));
+    bytes[6] = (bytes[6] & 0x0f) | 0x40;
+    bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+    const hex = bytes.map(byte => byte.toString(16).padStart(2, '0')).join('');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+  }
+}
@@ -0,0 +1,93 @@
+import { EdgeGrammarRule, EdgeType, NodeType } from '../types/index.js';
+
+export interface EdgeGrammarOptions {
+  strict?: boolean; // reject violating edges in addEdge instead of only reporting them
+}
+
+export interface EdgeGrammarViolation {
+  edge_id: string;
+  source: string;
+  target: string;
+  message: string;
+}
+
+/**
+ * The edges stages 1-4 create: decomposition (P1.2), hypotheses (P1.3), evidence (P1.4)
+ * and the OTHER edges that attach interdisciplinary bridge nodes (P1.8) to either side
+ */
+export const DEFAULT_EDGE_GRAMMAR: EdgeGrammarRule[] = [
+  { source: NodeType.ROOT, target: NodeType.DIMENSION, edge_types: [EdgeType.SPECIALIZATION] },
+  { source: NodeType.DIMENSION, target: NodeType.HYPOTHESIS, edge_types: [EdgeType.SUPPORTIVE] },
+  { source: NodeType.EVIDENCE, target: NodeType.HYPOTHESIS, edge_types: [EdgeType.SUPPORTIVE] },
+  { source: '*', target: NodeType.IBN, edge_types: [EdgeType.OTHER] },
+  { source: NodeType.IBN, target: '*', edge_types: [EdgeType.OTHER] }
+];
+
+/**
+ * Directional rules stating which edge types may connect which node types
+ * An edge is allowed when any rule matches its source type, target type and edge type.
+ * Hyperedges are undirected n-ary relations and are not covered.
+ */
+export class EdgeGrammar {
+  readonly strict: boolean;
+  private rules: EdgeGrammarRule[];
+
+  constructor(rules: EdgeGrammarRule[] = DEFAULT_EDGE_GRAMMAR, options: EdgeGrammarOptions = {}) {
+    this.rules = rules.map(rule => ({ ...rule, edge_types: [...rule.edge_types] }));
+    this.strict = options.strict ?? false;
+  }
+
+  getRules(): EdgeGrammarRule[] {
+    return this.rules.map(rule => ({ ...rule, edge_types: [...rule.edge_types] }));
+  }
+
+  allows(sourceType: NodeType, targetType: NodeType, edgeType: EdgeType): boolean {
+    return this.allowedEdgeTypes(sourceType, targetType).includes(edgeType);
+  }
+
+  allowedEdgeTypes(sourceType: NodeType, targetType: NodeType): EdgeType[] {
+    const allowed = new Set<EdgeType>();
+    for (const rule of this.rules) {
+      if (matches(rule.source, sourceType) && matches(rule.target, targetType)) {
+        rule.edge_types.forEach(edgeType => allowed.add(edgeType));
+      }
+    }
+    return Array.from(allowed);
+  }
+
+  /**
+   * Explain why an edge is not allowed, or return undefined when it is
+   */
+  check(sourceType: NodeType, targetType: NodeType, edgeType: EdgeType): string | undefined {
+    if (this.allows(sourceType, targetType, edgeType)) return undefined;
+
+    const allowed = this.allowedEdgeTypes(sourceType, targetType);
+    return `${edgeType} edges are not allowed from ${sourceType} to ${targetType} nodes` +
+      (allowed.length > 0 ? ` (allowed: ${allowed.join(', ')})` : ' (no edges allowed)');
+  }
+
+  /**
+   * Check every edge of a graph state; edges with missing endpoints are left to the reference checks
+   */
+  findViolations(graphState: any): EdgeGrammarViolation[] {
+    const violations: EdgeGrammarViolation[] = [];
+
+    for (const edge of graphState.edges.values()) {
+      const source = graphState.vertices.get(edge.source);
+      const target = graphState.vertices.get(edge.target);
+      if (!source || !target) continue;
+
+      const message = this.check(source.metadata.type, target.metadata.type, edge.metadata.edge_type);
+      if (message) {
+        violations.push({ edge_id: edge.id, source: edge.source, target: edge.target, message });
+      }
+    }
+
+    return violations;
+  }
+}
+
+// Helper functions
+function matches(pattern: NodeType | '*', type: NodeType): boolean {
+  return pattern === '*' || pattern === type;
+}
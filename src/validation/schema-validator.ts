@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { Schemas, NodeMetadata, EdgeMetadata } from '../types/index.js';
+import { EdgeGrammar } from './edge-grammar.js';
 
 /**
  * Comprehensive validation system for ASR-GoT metadata and structures
@@ -7,6 +8,11 @@ import { Schemas, NodeMetadata, EdgeMetadata } from '../types/index.js';
 export class ASRGoTValidator {
   private validationErrors: string[] = [];
   private validationWarnings: string[] = [];
+  private edgeGrammar: EdgeGrammar;
+
+  constructor(edgeGrammar: EdgeGrammar = new EdgeGrammar()) {
+    this.edgeGrammar = edgeGrammar;
+  }
 
   /**
    * Validate node metadata according to P1.12 schema
@@ -203,6 +209,12 @@ export class ASRGoTValidator {
         this.validationErrors.push('Clustering coefficient must be between 0 and 1');
       }
       
+      for (const key of ['betweenness', 'closeness', 'eigenvector', 'pagerank']) {
+        if (metrics[key] !== undefined && (metrics[key] < 0 || metrics[key] > 1)) {
+          this.validationErrors.push(`${key} must be between 0 and 1`);
+        }
+      }
+      
       if (metrics.degree && metrics.degree < 0) {
         this.validationErrors.push('Degree cannot be negative');
       }
@@ -224,8 +236,10 @@ export class ASRGoTValidator {
     statistics: {
       total_nodes: number;
       total_edges: number;
+      total_hyperedges: number;
       orphaned_nodes: number;
       invalid_references: number;
+      grammar_violations: number;
     };
   } {
     this.resetValidation();
@@ -233,8 +247,10 @@ export class ASRGoTValidator {
     const stats = {
       total_nodes: 0,
       total_edges: 0,
+      total_hyperedges: 0,
       orphaned_nodes: 0,
-      invalid_references: 0
+      invalid_references: 0,
+      grammar_violations: 0
     };
 
     try {
@@ -249,7 +265,7 @@ export class ASRGoTValidator {
 
       // Validate all nodes
       for (const [nodeId, node] of graphState.vertices.entries()) {
-        const nodeValidation = this.validateNodeMetadata(node.metadata);
+        const nodeValidation = this.validateNested(() => this.validateNodeMetadata(node.metadata));
         if (!nodeValidation.isValid) {
           this.validationErrors.push(`Node ${nodeId}: ${nodeValidation.errors.join(', ')}`);
         }
@@ -257,7 +273,7 @@ export class ASRGoTValidator {
 
       // Validate all edges
       for (const [edgeId, edge] of graphState.edges.entries()) {
-        const edgeValidation = this.validateEdgeMetadata(edge.metadata);
+        const edgeValidation = this.validateNested(() => this.validateEdgeMetadata(edge.metadata));
         if (!edgeValidation.isValid) {
           this.validationErrors.push(`Edge ${edgeId}: ${edgeValidation.errors.join(', ')}`);
         }
@@ -273,15 +289,33 @@ export class ASRGoTValidator {
         }
       }
 
-      // Check for orphaned nodes
+      // Check edges against the edge grammar; violations only fail validation in strict mode
+      for (const violation of this.edgeGrammar.findViolations(graphState)) {
+        const message = `Edge ${violation.edge_id} (${violation.source} -> ${violation.target}): ${violation.message}`;
+        (this.edgeGrammar.strict ? this.validationErrors : this.validationWarnings).push(message);
+        stats.grammar_violations++;
+      }
+
+      // Validate all hyperedges (P1.9)
+      if (graphState.hyperedges) {
+        stats.total_hyperedges = graphState.hyperedges.size;
+        stats.invalid_references += this.validateHyperedges(graphState);
+      }
+
+      // Check for orphaned nodes (hyperedge membership counts as a connection)
       const connectedNodes = new Set();
       for (const edge of graphState.edges.values()) {
         connectedNodes.add(edge.source);
         connectedNodes.add(edge.target);
       }
+      for (const hyperedge of graphState.hyperedges?.values() ?? []) {
+        hyperedge.nodes.forEach((nodeId: string) => connectedNodes.add(nodeId));
+      }
       
+      // Super-nodes are linked to their members through the layer hierarchy
       for (const nodeId of graphState.vertices.keys()) {
-        if (!connectedNodes.has(nodeId) && graphState.vertices.get(nodeId).metadata.type !== 'root') {
+        const type = graphState.vertices.get(nodeId).metadata.type;
+        if (!connectedNodes.has(nodeId) && type !== 'root' && type !== 'super_node') {
           stats.orphaned_nodes++;
           this.validationWarnings.push(`Node ${nodeId} is orphaned (no connections)`);
         }
@@ -327,6 +361,22 @@ export class ASRGoTValidator {
           sanitized.timestamp = new Date();
         }
         
+        if (typeof sanitized.label !== 'string') {
+          sanitized.label = String(sanitized.node_id);
+        }
+        
+        if (typeof sanitized.provenance !== 'string') {
+          sanitized.provenance = 'Unknown provenance';
+        }
+        
+        if (typeof sanitized.epistemic_status !== 'string') {
+          sanitized.epistemic_status = 'unknown';
+        }
+        
+        if (!Array.isArray(sanitized.disciplinary_tags)) {
+          sanitized.disciplinary_tags = ['general'];
+        }
+        
         if (!sanitized.confidence) {
           sanitized.confidence = {
             empirical_support: 0.5,
@@ -348,8 +398,10 @@ export class ASRGoTValidator {
           }];
         }
         
-        if (typeof sanitized.impact_score !== 'number') {
+        if (typeof sanitized.impact_score !== 'number' || isNaN(sanitized.impact_score)) {
           sanitized.impact_score = 0.5;
+        } else {
+          sanitized.impact_score = Math.max(0, Math.min(1, sanitized.impact_score));
         }
 
         // Clamp confidence values
@@ -401,6 +453,18 @@ export class ASRGoTValidator {
     this.validationWarnings = [];
   }
 
+  // Per-record validators reset the shared lists; keep what the graph-level check has gathered so far
+  private validateNested<T>(validate: () => T): T {
+    const errors = this.validationErrors;
+    const warnings = this.validationWarnings;
+    try {
+      return validate();
+    } finally {
+      this.validationErrors = errors;
+      this.validationWarnings = warnings;
+    }
+  }
+
   private validateSemanticConstraints(metadata: NodeMetadata): void {
     // Check that hypothesis nodes have falsification criteria
     if (metadata.type === 'hypothesis' && !metadata.falsification_criteria) {
@@ -487,6 +551,35 @@ export class ASRGoTValidator {
     }
   }
 
+  // Returns the number of references to missing nodes
+  private validateHyperedges(graphState: any): number {
+    let invalidReferences = 0;
+
+    for (const [hyperedgeId, hyperedge] of graphState.hyperedges.entries()) {
+      const edgeValidation = this.validateNested(() => this.validateEdgeMetadata(hyperedge.metadata));
+      if (!edgeValidation.isValid) {
+        this.validationErrors.push(`Hyperedge ${hyperedgeId}: ${edgeValidation.errors.join(', ')}`);
+      }
+
+      const members = new Set<string>(hyperedge.nodes);
+      if (members.size < 2) {
+        this.validationErrors.push(`Hyperedge ${hyperedgeId} must join at least two distinct nodes`);
+      }
+      if (members.size < hyperedge.nodes.length) {
+        this.validationWarnings.push(`Hyperedge ${hyperedgeId} lists the same node more than once`);
+      }
+
+      for (const nodeId of members) {
+        if (!graphState.vertices.has(nodeId)) {
+          this.validationErrors.push(`Hyperedge ${hyperedgeId} references non-existent node ${nodeId}`);
+          invalidReferences++;
+        }
+      }
+    }
+
+    return invalidReferences;
+  }
+
   private validateLayerConsistency(graphState: any): void {
     // Check that all layer references in nodes exist in layers map
     for (const node of graphState.vertices.values()) {
@@ -503,6 +596,35 @@ export class ASRGoTValidator {
         }
       }
     }
+
+    // The layer hierarchy (P1.20) must be a forest over known layers
+    const parents: Map<string, string> = graphState.layer_parents ?? new Map();
+    for (const [layerId, parentLayerId] of parents.entries()) {
+      if (!graphState.layers.has(layerId) || !graphState.layers.has(parentLayerId)) {
+        this.validationErrors.push(`Layer hierarchy links unknown layers ${layerId} -> ${parentLayerId}`);
+      }
+
+      const seen = new Set<string>([layerId]);
+      for (let current = parents.get(layerId); current !== undefined; current = parents.get(current)) {
+        if (seen.has(current)) {
+          this.validationErrors.push(`Layer ${layerId} is part of a nesting cycle`);
+          break;
+        }
+        seen.add(current);
+      }
+    }
+
+    // A super-node sits in the parent of the layer it stands for
+    for (const node of graphState.vertices.values()) {
+      const encapsulated = node.metadata.encapsulated_layer;
+      if (!encapsulated) continue;
+
+      if (!graphState.layers.has(encapsulated)) {
+        this.validationErrors.push(`Super-node ${node.id} encapsulates non-existent layer ${encapsulated}`);
+      } else if (parents.get(encapsulated) !== node.metadata.layer_id) {
+        this.validationWarnings.push(`Super-node ${node.id} is not in the parent layer of ${encapsulated}`);
+      }
+    }
   }
 
   /**
@@ -1,4 +1,4 @@
-import { ASRGoTPipeline } from '../src/stages/pipeline';
+import { ASRGoTPipeline, DEFAULT_COMPUTATIONAL_BUDGET } from '../src/stages/pipeline';
 import { ASRGoTGraph } from '../src/core/graph';
 import { ASRGoTValidator } from '../src/validation/schema-validator';
 import { BayesianUpdater } from '../src/utils/bayesian';
@@ -6,12 +6,30 @@ import { InformationTheory } from '../src/utils/information-theory';
 import { BiasDetector } from '../src/utils/bias-detector';
 import { TemporalAnalyzer } from '../src/utils/temporal-analyzer';
 import { CausalInference } from '../src/utils/causal-inference';
+import { JsonlContextStore, InMemoryContextStore } from '../src/persistence/context-store';
+import { GraphExporter } from '../src/utils/graph-exporter';
+import { GraphImporter } from '../src/utils/graph-importer';
+import { AnalysisDiffer } from '../src/utils/analysis-differ';
+import { GraphQueryEngine } from '../src/utils/graph-query';
+import { EdgeGrammar, DEFAULT_EDGE_GRAMMAR } from '../src/validation/edge-grammar';
+import { SeededRandom } from '../src/utils/random';
+import { PathFinder, PathStep } from '../src/utils/path-finder';
+import { AnalysisRunRegistry } from '../src/stages/analysis-runs';
+import { ASRGoTMCPServer } from '../src/server';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { 
   ResearchQuery, 
   NodeType, 
   EdgeType, 
   ConfidenceVector,
-  NodeMetadata 
+  NodeMetadata,
+  EdgeMetadata,
+  ComputationalBudgetSchema
 } from '../src/types/index';
 
 describe('ASR-GoT MCP Server', () => {
@@ -469,6 +487,2641 @@ describe('ASR-GoT MCP Server', () => {
     });
   });
 
+  describe('Adjacency Index', () => {
+    const addTestNode = (target: ASRGoTGraph, id: string) => target.addNode({
+      node_id: id,
+      label: id,
+      type: NodeType.HYPOTHESIS,
+      timestamp: new Date(),
+      provenance: 'Test',
+      confidence: { empirical_support: 0.6, theoretical_basis: 0.6, methodological_rigor: 0.6, consensus_alignment: 0.6 },
+      epistemic_status: 'test',
+      disciplinary_tags: ['test'],
+      bias_flags: [],
+      revision_history: [],
+      impact_score: 0.5
+    });
+
+    const addTestEdge = (target: ASRGoTGraph, source: string, destination: string) => target.addEdge(source, destination, {
+      edge_id: `${source}->${destination}`,
+      edge_type: EdgeType.SUPPORTIVE,
+      confidence: { empirical_support: 0.6, theoretical_basis: 0.6, methodological_rigor: 0.6, consensus_alignment: 0.6 },
+      timestamp: new Date()
+    });
+
+    test('should answer directed neighbourhood queries', () => {
+      ['a', 'b', 'c', 'd'].forEach(id => addTestNode(graph, id));
+      addTestEdge(graph, 'a', 'b');
+      addTestEdge(graph, 'a', 'c');
+      addTestEdge(graph, 'c', 'b');
+      addTestEdge(graph, 'b', 'd');
+
+      expect(graph.getSuccessors('a').sort()).toEqual(['b', 'c']);
+      expect(graph.getPredecessors('b').sort()).toEqual(['a', 'c']);
+      expect(graph.getNeighbors('b').sort()).toEqual(['a', 'c', 'd']);
+
+      const metrics = graph.updateTopologyMetrics('a');
+      expect(metrics.degree).toBe(2);
+      expect(metrics.clustering_coefficient).toBe(1);
+    });
+
+    test('should keep the index in sync through removal and merging', () => {
+      ['a', 'b', 'c', 'd'].forEach(id => addTestNode(graph, id));
+      addTestEdge(graph, 'a', 'b');
+      addTestEdge(graph, 'b', 'c');
+      addTestEdge(graph, 'c', 'd');
+
+      graph.removeNode('d');
+      expect(graph.getSuccessors('c')).toEqual([]);
+      expect(graph.hasEdge('c->d')).toBe(false);
+
+      const mergedId = graph.mergeNodes('a', 'c', 0.9)!;
+      expect(graph.getSuccessors(mergedId)).toEqual(['b']);
+      expect(graph.getPredecessors(mergedId)).toEqual(['b']);
+      expect(graph.getSuccessors('b')).toEqual([mergedId]);
+      expect(graph.getPredecessors('a')).toEqual([]);
+    });
+
+    test('should rebuild the index for graphs restored from state', () => {
+      ['a', 'b'].forEach(id => addTestNode(graph, id));
+      addTestEdge(graph, 'a', 'b');
+
+      const restored = ASRGoTGraph.fromJSON(graph.toJSON());
+      expect(restored.getSuccessors('a')).toEqual(['b']);
+      expect(restored.getPredecessors('b')).toEqual(['a']);
+    });
+
+    test('should compute topology metrics on large graphs without full edge scans', () => {
+      const large = new ASRGoTGraph();
+      const size = 10000;
+      for (let i = 0; i < size; i++) {
+        addTestNode(large, `n${i}`);
+      }
+      for (let i = 0; i < size; i++) {
+        addTestEdge(large, `n${i}`, `n${(i + 1) % size}`);
+        addTestEdge(large, `n${i}`, `n${(i + 7) % size}`);
+      }
+
+      const started = Date.now();
+      for (let i = 0; i < size; i++) {
+        large.updateTopologyMetrics(`n${i}`);
+      }
+
+      expect(large.getNode('n0')!.metadata.topology_metrics!.degree).toBe(4);
+      expect(Date.now() - started).toBeLessThan(5000);
+    });
+  });
+
+  describe('Centrality Metrics', () => {
+    const addTestNode = (id: string) => graph.addNode({
+      node_id: id,
+      label: id,
+      type: NodeType.HYPOTHESIS,
+      timestamp: new Date(),
+      provenance: 'Test',
+      confidence: { empirical_support: 0.6, theoretical_basis: 0.6, methodological_rigor: 0.6, consensus_alignment: 0.6 },
+      epistemic_status: 'test',
+      disciplinary_tags: ['test'],
+      bias_flags: [],
+      revision_history: [],
+      impact_score: 0.5
+    });
+
+    const addWeightedEdge = (source: string, target: string, weight: number) => graph.addEdge(source, target, {
+      edge_id: `${source}->${target}`,
+      edge_type: EdgeType.SUPPORTIVE,
+      confidence: { empirical_support: weight, theoretical_basis: weight, methodological_rigor: weight, consensus_alignment: weight },
+      timestamp: new Date()
+    });
+
+    test('should compute exact centralities on a path graph', () => {
+      ['a', 'b', 'c'].forEach(addTestNode);
+      addWeightedEdge('a', 'b', 1);
+      addWeightedEdge('c', 'b', 1);
+
+      const metrics = graph.updateAllTopologyMetrics();
+
+      expect(metrics.get('b')!.betweenness).toBeCloseTo(1);
+      expect(metrics.get('a')!.betweenness).toBe(0);
+      expect(metrics.get('b')!.closeness).toBeCloseTo(1);
+      expect(metrics.get('a')!.closeness).toBeCloseTo(2 / 3);
+      expect(metrics.get('b')!.eigenvector).toBeCloseTo(1);
+      expect(metrics.get('a')!.eigenvector).toBeCloseTo(Math.SQRT1_2, 4);
+
+      const pagerankTotal = ['a', 'b', 'c'].reduce((sum, id) => sum + metrics.get(id)!.pagerank!, 0);
+      expect(pagerankTotal).toBeCloseTo(1);
+      expect(metrics.get('b')!.pagerank!).toBeGreaterThan(metrics.get('a')!.pagerank!);
+      expect(graph.getNode('b')!.metadata.topology_metrics!.degree).toBe(2);
+    });
+
+    test('should route shortest paths through high-confidence edges', () => {
+      ['a', 'b', 'c', 'd'].forEach(addTestNode);
+      addWeightedEdge('a', 'b', 0.9);
+      addWeightedEdge('b', 'c', 0.9);
+      addWeightedEdge('a', 'd', 0.2);
+      addWeightedEdge('d', 'c', 0.2);
+
+      const metrics = graph.updateAllTopologyMetrics();
+
+      expect(metrics.get('b')!.betweenness!).toBeGreaterThan(0);
+      expect(metrics.get('d')!.betweenness).toBe(0);
+      expect(metrics.get('b')!.closeness!).toBeGreaterThan(metrics.get('d')!.closeness!);
+    });
+
+    test('should keep global metrics when refreshing a single node', () => {
+      ['a', 'b', 'c'].forEach(addTestNode);
+      addWeightedEdge('a', 'b', 1);
+      addWeightedEdge('b', 'c', 1);
+
+      graph.updateAllTopologyMetrics();
+      const metrics = graph.updateTopologyMetrics('b');
+
+      expect(metrics.betweenness).toBeCloseTo(1);
+      expect(validator.validateTopologyMetrics(metrics)).toBe(true);
+    });
+  });
+
+  describe('Community Detection', () => {
+    const addClusterNode = (target: ASRGoTGraph, id: string, tags: string[]) => target.addNode({
+      node_id: id,
+      label: id,
+      type: NodeType.HYPOTHESIS,
+      timestamp: new Date(),
+      provenance: 'Test',
+      confidence: { empirical_support: 0.7, theoretical_basis: 0.7, methodological_rigor: 0.7, consensus_alignment: 0.7 },
+      epistemic_status: 'test',
+      disciplinary_tags: tags,
+      bias_flags: [],
+      revision_history: [],
+      impact_score: 0.6
+    });
+
+    const link = (target: ASRGoTGraph, source: string, destination: string, weight: number = 0.8) => target.addEdge(source, destination, {
+      edge_id: `${source}->${destination}`,
+      edge_type: EdgeType.SUPPORTIVE,
+      confidence: { empirical_support: weight, theoretical_basis: weight, methodological_rigor: weight, consensus_alignment: weight },
+      timestamp: new Date()
+    });
+
+    // Two dense clusters joined by a single link between imm-1 and cs-1
+    const buildClusters = (target: ASRGoTGraph) => {
+      ['imm-1', 'imm-2', 'imm-3', 'imm-4'].forEach(id => addClusterNode(target, id, ['immunology']));
+      ['cs-1', 'cs-2', 'cs-3', 'cs-4'].forEach(id => addClusterNode(target, id, ['machine_learning']));
+      for (const prefix of ['imm', 'cs']) {
+        for (let i = 1; i <= 4; i++) {
+          for (let j = i + 1; j <= 4; j++) {
+            link(target, `${prefix}-${i}`, `${prefix}-${j}`);
+          }
+        }
+      }
+      link(target, 'imm-1', 'cs-1', 0.9);
+    };
+
+    test('should separate dense clusters and tag every node', () => {
+      buildClusters(graph);
+
+      const { communities, modularity } = graph.detectCommunities();
+
+      expect(communities.size).toBe(2);
+      expect(modularity).toBeGreaterThan(0.3);
+      expect(graph.getNode('imm-2')!.metadata.community_id).toBe(graph.getNode('imm-4')!.metadata.community_id);
+      expect(graph.getNode('imm-2')!.metadata.community_id).not.toBe(graph.getNode('cs-2')!.metadata.community_id);
+      expect(Array.from(communities.values()).map(members => members.length)).toEqual([4, 4]);
+
+      const bridges = graph.getCommunityBridges();
+      expect(bridges).toHaveLength(1);
+      expect(bridges[0]).toMatchObject({ source: 'imm-1', target: 'cs-1', weight: 0.9 });
+    });
+
+    test('should tag communities as one undoable logged operation', () => {
+      buildClusters(graph);
+
+      graph.detectCommunities();
+      const [entry] = graph.getChangeLog(1);
+      expect(entry.operation).toBe('update_node');
+      expect(entry.nodes_affected).toHaveLength(8);
+
+      // An unchanged partition leaves nothing to log
+      graph.detectCommunities();
+      expect(graph.getChangeLog(1)[0].sequence).toBe(entry.sequence);
+
+      graph.undo();
+      expect(graph.getNode('imm-1')!.metadata.community_id).toBeUndefined();
+      graph.redo();
+      expect(graph.getNode('imm-1')!.metadata.community_id).toBe(graph.getNode('imm-2')!.metadata.community_id);
+    });
+
+    test('should keep isolated nodes in their own communities', () => {
+      addClusterNode(graph, 'lonely-1', ['test']);
+      addClusterNode(graph, 'lonely-2', ['test']);
+
+      const { communities, modularity } = graph.detectCommunities();
+
+      expect(communities.size).toBe(2);
+      expect(modularity).toBe(0);
+    });
+
+    test('should create IBNs between bridged communities during evidence integration', async () => {
+      const seeded = new ASRGoTGraph();
+      buildClusters(seeded);
+
+      const context = await new ASRGoTPipeline(seeded).executeFromStage(4, {
+        query: 'Machine learning for immune profiling',
+        domain: ['immunology', 'machine_learning'],
+        complexity_level: 'basic',
+        expected_depth: 'overview',
+        interdisciplinary: true
+      }, { identity: 'Test', experience: 'Test', research_focus: [], methodologies: [], philosophy: 'Test' });
+
+      const bridgeNodes = Array.from(seeded.getState().vertices.values())
+        .filter(node => node.metadata.type === NodeType.IBN);
+      expect(bridgeNodes.some(node => node.metadata.provenance.includes('imm-1') && node.metadata.provenance.includes('cs-1'))).toBe(true);
+      expect(context.stage_results[0].warnings.some(warning => warning.includes('research communities'))).toBe(true);
+    });
+  });
+
+  describe('Path Queries', () => {
+    const addPathNode = (id: string, type: NodeType) => graph.addNode({
+      node_id: id,
+      label: id,
+      type,
+      timestamp: new Date(),
+      provenance: 'Test',
+      confidence: { empirical_support: 0.7, theoretical_basis: 0.7, methodological_rigor: 0.7, consensus_alignment: 0.7 },
+      epistemic_status: 'test',
+      disciplinary_tags: ['test'],
+      bias_flags: [],
+      revision_history: [],
+      impact_score: 0.6
+    });
+
+    const addPathEdge = (source: string, target: string, weight: number, extra: Partial<EdgeMetadata> = {}) => graph.addEdge(source, target, {
+      edge_id: `${source}->${target}`,
+      edge_type: EdgeType.SUPPORTIVE,
+      confidence: { empirical_support: weight, theoretical_basis: weight, methodological_rigor: weight, consensus_alignment: weight },
+      timestamp: new Date(),
+      ...extra
+    });
+
+    // root -> dim -> hyp <- ev (strong chain) and ev -> root (weak shortcut)
+    const buildChain = () => {
+      addPathNode('root', NodeType.ROOT);
+      addPathNode('dim', NodeType.DIMENSION);
+      addPathNode('hyp', NodeType.HYPOTHESIS);
+      addPathNode('ev', NodeType.EVIDENCE);
+      addPathNode('island', NodeType.HYPOTHESIS);
+      addPathEdge('root', 'dim', 0.9);
+      addPathEdge('dim', 'hyp', 0.9);
+      addPathEdge('ev', 'hyp', 0.9, {
+        edge_type: EdgeType.CAUSAL,
+        causal_metadata: { confounders: ['age'], mechanism: 'IL-17 signalling', strength: 0.6 }
+      });
+      addPathEdge('ev', 'root', 0.2);
+    };
+
+    test('should distinguish the shortest from the strongest path', () => {
+      buildChain();
+
+      const shortest = graph.findShortestPath('ev', 'root')!;
+      expect(shortest.nodes).toEqual(['ev', 'root']);
+      expect(shortest.confidence).toBeCloseTo(0.2);
+
+      const strongest = graph.findStrongestPath('ev', 'root')!;
+      expect(strongest.nodes).toEqual(['ev', 'hyp', 'dim', 'root']);
+      expect(strongest.confidence).toBeCloseTo(0.9 ** 3);
+      expect(strongest.hops[0]).toMatchObject({
+        edge_id: 'ev->hyp',
+        direction: 'forward',
+        edge_type: EdgeType.CAUSAL,
+        causal_metadata: { mechanism: 'IL-17 signalling' }
+      });
+      expect(strongest.hops[1]).toMatchObject({ from: 'hyp', to: 'dim', direction: 'backward' });
+    });
+
+    test('should enumerate bounded simple paths and respect direction', () => {
+      buildChain();
+
+      const all = graph.findAllPaths('ev', 'root');
+      expect(all.map(path => path.length)).toEqual([1, 3]);
+      expect(graph.findAllPaths('ev', 'root', { maxLength: 2 })).toHaveLength(1);
+      expect(graph.findAllPaths('ev', 'root', { maxPaths: 1 })).toHaveLength(1);
+
+      expect(graph.findAllPaths('ev', 'root', { direction: 'outgoing' }).map(path => path.nodes)).toEqual([['ev', 'root']]);
+      expect(graph.findShortestPath('root', 'ev', 'outgoing')).toBeNull();
+      expect(graph.findShortestPath('root', 'ev', 'incoming')!.nodes).toEqual(['root', 'ev']);
+    });
+
+    test('should report unreachable and unknown nodes', () => {
+      buildChain();
+
+      expect(graph.findShortestPath('ev', 'island')).toBeNull();
+      expect(graph.findStrongestPath('ev', 'island')).toBeNull();
+      expect(graph.findAllPaths('ev', 'island')).toEqual([]);
+      expect(graph.findShortestPath('ev', 'missing')).toBeNull();
+      expect(graph.findShortestPath('ev', 'ev')!.length).toBe(0);
+    });
+
+    test('should prune branches that cannot reach the target within the hops left', () => {
+      // Every ordered pair of 12 nodes is linked; 'far' hangs off n11 through a 5-hop tail; 'island' is unlinked
+      const ids = Array.from({ length: 12 }, (_, i) => `n${i}`);
+      const tail = ['n11', 't1', 't2', 't3', 't4', 'far'];
+      const confidence = { empirical_support: 0.8, theoretical_basis: 0.8, methodological_rigor: 0.8, consensus_alignment: 0.8 };
+      const step = (from: string, to: string): PathStep => ({
+        edge: { id: `${from}->${to}`, source: from, target: to, metadata: { edge_id: `${from}->${to}`, edge_type: EdgeType.SUPPORTIVE, confidence, timestamp: new Date() } } as any,
+        next: to,
+        direction: 'forward'
+      });
+
+      let expansions = 0;
+      const expand = (nodeId: string): PathStep[] => {
+        expansions++;
+        const steps = ids.includes(nodeId) ? ids.filter(id => id !== nodeId).map(id => step(nodeId, id)) : [];
+        const tailIndex = tail.indexOf(nodeId);
+        if (tailIndex >= 0 && tailIndex < tail.length - 1) steps.push(step(nodeId, tail[tailIndex + 1]));
+        return steps;
+      };
+
+      const finder = new PathFinder();
+      expect(finder.allSimplePaths(expand, 'n0', 'island', 8, 1000)).toEqual([]);
+      expect(expansions).toBeLessThanOrEqual(20);
+
+      expansions = 0;
+      expect(finder.allSimplePaths(expand, 'n0', 'far', 5, 1000)).toEqual([]);
+      expect(expansions).toBeLessThanOrEqual(20);
+      expect(finder.allSimplePaths(expand, 'n0', 'far', 6, 1000).map(path => path.nodes)).toEqual([['n0', ...tail]]);
+
+      // Pruning keeps every path that fits: 1 direct, 10 through one node and 10 x 9 through two
+      expect(finder.allSimplePaths(expand, 'n0', 'n1', 3, 1000)).toHaveLength(101);
+    });
+  });
+
+  describe('Ego Network Extraction', () => {
+    const addEgoNode = (id: string, type: NodeType, impact: number = 0.6) => graph.addNode({
+      node_id: id,
+      label: id,
+      type,
+      timestamp: new Date(),
+      provenance: 'Test',
+      confidence: { empirical_support: 0.7, theoretical_basis: 0.7, methodological_rigor: 0.7, consensus_alignment: 0.7 },
+      epistemic_status: 'test',
+      disciplinary_tags: ['test'],
+      bias_flags: [],
+      revision_history: [],
+      impact_score: impact
+    });
+
+    const addEgoEdge = (source: string, target: string, edgeType: EdgeType) => graph.addEdge(source, target, {
+      edge_id: `${source}->${target}`,
+      edge_type: edgeType,
+      confidence: { empirical_support: 0.7, theoretical_basis: 0.7, methodological_rigor: 0.7, consensus_alignment: 0.7 },
+      timestamp: new Date()
+    });
+
+    // dim -> hyp <- ev-1 (supportive) <- ev-2 (causal), hyp -> other (correlative)
+    const buildEgo = () => {
+      addEgoNode('dim', NodeType.DIMENSION);
+      addEgoNode('hyp', NodeType.HYPOTHESIS);
+      addEgoNode('ev-1', NodeType.EVIDENCE);
+      addEgoNode('ev-2', NodeType.EVIDENCE, 0.1);
+      addEgoNode('other', NodeType.HYPOTHESIS);
+      addEgoEdge('dim', 'hyp', EdgeType.PREREQUISITE);
+      addEgoEdge('ev-1', 'hyp', EdgeType.SUPPORTIVE);
+      addEgoEdge('ev-2', 'ev-1', EdgeType.CAUSAL);
+      addEgoEdge('hyp', 'other', EdgeType.CORRELATIVE);
+    };
+
+    const ids = (subgraph: { nodes: Array<{ id: string }> }) => subgraph.nodes.map(node => node.id).sort();
+
+    test('should extract k-hop neighbourhoods in either direction', () => {
+      buildEgo();
+
+      expect(ids(graph.extractSubgraph({ focus_node_id: 'hyp' }))).toEqual(['dim', 'ev-1', 'hyp', 'other']);
+      expect(ids(graph.extractSubgraph({ focus_node_id: 'hyp', radius: 2 }))).toEqual(['dim', 'ev-1', 'ev-2', 'hyp', 'other']);
+      expect(ids(graph.extractSubgraph({ focus_node_id: 'hyp', radius: 2, direction: 'incoming' }))).toEqual(['dim', 'ev-1', 'ev-2', 'hyp']);
+      expect(ids(graph.extractSubgraph({ focus_node_id: 'hyp', direction: 'outgoing' }))).toEqual(['hyp', 'other']);
+      expect(ids(graph.extractSubgraph({ focus_node_id: 'hyp', radius: 0 }))).toEqual(['hyp']);
+    });
+
+    test('should follow only the requested edge types and apply node filters', () => {
+      buildEgo();
+
+      const evidenceView = graph.extractSubgraph({
+        focus_node_id: 'hyp',
+        radius: 2,
+        edge_types: [EdgeType.SUPPORTIVE, EdgeType.CAUSAL]
+      });
+      expect(ids(evidenceView)).toEqual(['ev-1', 'ev-2', 'hyp']);
+      expect(evidenceView.edges.map(edge => edge.id).sort()).toEqual(['ev-1->hyp', 'ev-2->ev-1']);
+
+      // ev-2 falls below the impact threshold; the focus node is kept regardless of filters
+      const filtered = graph.extractSubgraph({ focus_node_id: 'hyp', radius: 2, impact_threshold: 0.5, node_types: [NodeType.EVIDENCE] });
+      expect(ids(filtered)).toEqual(['ev-1', 'hyp']);
+    });
+
+    test('should reject an unknown focus node', () => {
+      buildEgo();
+      expect(() => graph.extractSubgraph({ focus_node_id: 'missing' })).toThrow('Focus node missing does not exist');
+    });
+  });
+
+  describe('Graph Transactions', () => {
+    const addTxNode = (id: string, layerId?: string) => graph.addNode({
+      node_id: id,
+      label: id,
+      type: NodeType.HYPOTHESIS,
+      timestamp: new Date(),
+      provenance: 'Test',
+      confidence: { empirical_support: 0.6, theoretical_basis: 0.6, methodological_rigor: 0.6, consensus_alignment: 0.6 },
+      epistemic_status: 'test',
+      disciplinary_tags: ['test'],
+      bias_flags: [],
+      revision_history: [],
+      impact_score: 0.5,
+      layer_id: layerId
+    });
+
+    const addTxEdge = (source: string, target: string) => graph.addEdge(source, target, {
+      edge_id: `${source}->${target}`,
+      edge_type: EdgeType.SUPPORTIVE,
+      confidence: { empirical_support: 0.6, theoretical_basis: 0.6, methodological_rigor: 0.6, consensus_alignment: 0.6 },
+      timestamp: new Date()
+    });
+
+    test('should undo every write when the transaction throws', () => {
+      addTxNode('a', 'layer-1');
+      addTxNode('b');
+      addTxEdge('a', 'b');
+      const before = graph.toJSON().graph;
+
+      expect(() => graph.transaction(() => {
+        addTxNode('c', 'layer-1');
+        addTxEdge('b', 'c');
+        graph.updateNodeConfidence('a', { empirical_support: 0.9, theoretical_basis: 0.9, methodological_rigor: 0.9, consensus_alignment: 0.9 }, {});
+        graph.removeNode('b');
+        throw new Error('boom');
+      })).toThrow('boom');
+
+      expect(graph.toJSON().graph).toEqual(before);
+      expect(graph.inTransaction()).toBe(false);
+      expect(graph.getNode('c')).toBeUndefined();
+      expect(graph.getSuccessors('a')).toEqual(['b']);
+      expect(graph.getSuccessors('b')).toEqual([]);
+      expect(graph.getState().layers.get('layer-1')).toEqual(['a']);
+    });
+
+    test('should keep writes from a committed transaction', async () => {
+      const id = await graph.transaction(async () => {
+        await Promise.resolve();
+        return addTxNode('kept');
+      });
+
+      expect(id).toBe('kept');
+      expect(graph.getNode('kept')).toBeDefined();
+      expect(graph.inTransaction()).toBe(false);
+    });
+
+    test('should roll back async work when its promise rejects', async () => {
+      addTxNode('a');
+      const before = graph.toJSON().graph;
+
+      await expect(graph.transaction(async () => {
+        addTxNode('b');
+        await Promise.resolve();
+        addTxEdge('a', 'b');
+        throw new Error('late failure');
+      })).rejects.toThrow('late failure');
+
+      expect(graph.toJSON().graph).toEqual(before);
+      expect(graph.getOutgoingEdges('a')).toEqual([]);
+    });
+
+    test('should let an inner rollback keep the outer writes', () => {
+      graph.transaction(() => {
+        addTxNode('outer');
+        expect(() => graph.transaction(() => {
+          addTxNode('inner');
+          addTxEdge('outer', 'inner');
+          throw new Error('inner failure');
+        })).toThrow('inner failure');
+      });
+
+      expect(graph.getNode('outer')).toBeDefined();
+      expect(graph.getNode('inner')).toBeUndefined();
+      expect(graph.getSuccessors('outer')).toEqual([]);
+
+      // A committed inner level is still undone by an outer rollback
+      expect(() => graph.transaction(() => {
+        graph.transaction(() => addTxNode('nested'));
+        throw new Error('outer failure');
+      })).toThrow('outer failure');
+      expect(graph.getNode('nested')).toBeUndefined();
+    });
+
+    test('should keep node objects held by callers in sync with a rollback', () => {
+      addTxNode('a');
+      const node = graph.getNode('a')!;
+
+      expect(() => graph.transaction(() => {
+        graph.updateNodeConfidence('a', { empirical_support: 0.9, theoretical_basis: 0.9, methodological_rigor: 0.9, consensus_alignment: 0.9 }, {});
+        throw new Error('boom');
+      })).toThrow('boom');
+
+      expect(graph.getNode('a')).toBe(node);
+      expect(node.metadata.confidence.empirical_support).toBe(0.6);
+    });
+
+    test('should merge nodes atomically', () => {
+      addTxNode('a');
+      addTxNode('b');
+      addTxNode('c');
+      addTxEdge('a', 'c');
+      addTxEdge('c', 'b');
+      const before = graph.toJSON().graph;
+
+      const removeNode = graph.removeNode.bind(graph);
+      const spy = jest.spyOn(graph, 'removeNode')
+        .mockImplementationOnce(removeNode)
+        .mockImplementationOnce(() => { throw new Error('remove failed'); });
+
+      expect(() => graph.mergeNodes('a', 'b', 0.9)).toThrow('remove failed');
+      spy.mockRestore();
+
+      expect(graph.toJSON().graph).toEqual(before);
+      expect(graph.getPredecessors('c')).toEqual(['a']);
+      expect(graph.getSuccessors('c')).toEqual(['b']);
+    });
+  });
+
+  describe('Operation Log', () => {
+    const addLogNode = (id: string, confidence: number = 0.6, impact: number = 0.5) => graph.addNode({
+      node_id: id,
+      label: id,
+      type: NodeType.HYPOTHESIS,
+      timestamp: new Date(),
+      provenance: 'Test',
+      confidence: { empirical_support: confidence, theoretical_basis: confidence, methodological_rigor: confidence, consensus_alignment: confidence },
+      epistemic_status: 'test',
+      disciplinary_tags: ['test'],
+      bias_flags: [],
+      revision_history: [],
+      impact_score: impact
+    });
+
+    const addLogEdge = (source: string, target: string) => graph.addEdge(source, target, {
+      edge_id: `${source}->${target}`,
+      edge_type: EdgeType.SUPPORTIVE,
+      confidence: { empirical_support: 0.6, theoretical_basis: 0.6, methodological_rigor: 0.6, consensus_alignment: 0.6 },
+      timestamp: new Date()
+    });
+
+    test('should log each operation once, most recent first', () => {
+      addLogNode('a');
+      addLogNode('b');
+      addLogEdge('a', 'b');
+      const mergedId = graph.mergeNodes('a', 'b', 0.9)!;
+
+      const log = graph.getChangeLog();
+      expect(log.map(entry => entry.operation)).toEqual(['merge_nodes', 'add_edge', 'add_node', 'add_node']);
+      expect(log.map(entry => entry.sequence)).toEqual([4, 3, 2, 1]);
+      expect(log[0].nodes_affected.sort()).toEqual([mergedId, 'a', 'b'].sort());
+      expect(log[0].edges_affected).toEqual(['a->b']);
+      expect(graph.getChangeLog(2)).toHaveLength(2);
+
+      // No-op calls are not logged
+      expect(graph.mergeNodes('a', 'missing', 0.9)).toBeNull();
+      graph.removeNode('missing');
+      expect(graph.getChangeLog()).toHaveLength(4);
+    });
+
+    test('should undo and redo a merge', () => {
+      addLogNode('a');
+      addLogNode('b');
+      addLogNode('c');
+      addLogEdge('a', 'c');
+      addLogEdge('c', 'b');
+      const before = graph.toJSON().graph;
+
+      const mergedId = graph.mergeNodes('a', 'b', 0.9)!;
+      const after = graph.toJSON().graph;
+
+      expect(graph.undo()?.operation).toBe('merge_nodes');
+      expect(graph.toJSON().graph).toEqual(before);
+      expect(graph.getSuccessors('a')).toEqual(['c']);
+      expect(graph.getNode(mergedId)).toBeUndefined();
+
+      expect(graph.redo()?.operation).toBe('merge_nodes');
+      expect(graph.toJSON().graph).toEqual(after);
+      expect(graph.getPredecessors('c')).toEqual([mergedId]);
+      expect(graph.getSuccessors('c')).toEqual([mergedId]);
+    });
+
+    test('should undo a prune and a confidence update', () => {
+      addLogNode('keep');
+      addLogNode('weak', 0.1, 0.05);
+      addLogEdge('keep', 'weak');
+
+      expect(graph.pruneNodes()).toEqual(['weak']);
+      graph.updateNodeConfidence('keep', { empirical_support: 0.9, theoretical_basis: 0.9, methodological_rigor: 0.9, consensus_alignment: 0.9 }, {});
+      const updated = graph.getNode('keep')!.metadata.confidence;
+
+      expect(graph.undo()?.operation).toBe('update_confidence');
+      expect(graph.getNode('keep')!.metadata.confidence.empirical_support).toBe(0.6);
+      expect(graph.getState().confidence_function.get('keep')).toEqual(graph.getNode('keep')!.metadata.confidence);
+
+      expect(graph.undo()?.operation).toBe('prune_nodes');
+      expect(graph.getNode('weak')).toBeDefined();
+      expect(graph.getSuccessors('keep')).toEqual(['weak']);
+
+      // Redo replays in order; a new edit then clears the redo history
+      graph.redo();
+      graph.redo();
+      expect(graph.getNode('weak')).toBeUndefined();
+      expect(graph.getNode('keep')!.metadata.confidence).toEqual(updated);
+
+      graph.undo();
+      addLogNode('fresh');
+      expect(graph.redo()).toBeNull();
+      expect(graph.getUndoneChanges()).toEqual([]);
+    });
+
+    test('should drop operations logged by a rolled-back transaction', () => {
+      addLogNode('a');
+
+      expect(() => graph.transaction(() => {
+        addLogNode('b');
+        addLogEdge('a', 'b');
+        throw new Error('boom');
+      })).toThrow('boom');
+
+      expect(graph.getChangeLog().map(entry => entry.operation)).toEqual(['add_node']);
+      expect(() => graph.transaction(() => graph.undo())).toThrow('Cannot undo while a graph transaction is open');
+
+      expect(graph.undo()?.nodes_affected).toEqual(['a']);
+      expect(graph.getState().vertices.size).toBe(0);
+      expect(graph.undo()).toBeNull();
+    });
+  });
+
+  describe('Analysis Diff', () => {
+    const differ = new AnalysisDiffer();
+
+    const addDiffNode = (target: ASRGoTGraph, id: string, label: string, type: NodeType = NodeType.HYPOTHESIS) => target.addNode({
+      node_id: id,
+      label,
+      type,
+      timestamp: new Date(),
+      provenance: 'Test',
+      confidence: { empirical_support: 0.6, theoretical_basis: 0.6, methodological_rigor: 0.6, consensus_alignment: 0.6 },
+      epistemic_status: 'test',
+      disciplinary_tags: ['test'],
+      bias_flags: [],
+      revision_history: [],
+      impact_score: 0.5
+    });
+
+    const addDiffEdge = (target: ASRGoTGraph, id: string, source: string, targetId: string, edgeType: EdgeType) => target.addEdge(source, targetId, {
+      edge_id: id,
+      edge_type: edgeType,
+      confidence: { empirical_support: 0.6, theoretical_basis: 0.6, methodological_rigor: 0.6, consensus_alignment: 0.6 },
+      timestamp: new Date()
+    });
+
+    test('should report merges, additions and confidence deltas against a snapshot', () => {
+      addDiffNode(graph, 'root', 'Root', NodeType.ROOT);
+      addDiffNode(graph, 'h1', 'H1');
+      addDiffNode(graph, 'h2', 'H2');
+      addDiffNode(graph, 'h3', 'H3');
+      addDiffNode(graph, 'old', 'Old evidence', NodeType.EVIDENCE);
+      addDiffEdge(graph, 'e1', 'root', 'h1', EdgeType.PREREQUISITE);
+      const snapshot = structuredClone(graph.getState());
+
+      const mergedId = graph.mergeNodes('h1', 'h2', 0.9)!;
+      graph.removeNode('old');
+      addDiffNode(graph, 'ev', 'New evidence', NodeType.EVIDENCE);
+      addDiffEdge(graph, 'e2', 'ev', 'h3', EdgeType.SUPPORTIVE);
+      graph.updateNodeConfidence('h3', { empirical_support: 1, theoretical_basis: 1, methodological_rigor: 1, consensus_alignment: 1 }, {});
+
+      const diff = differ.compare(
+        { label: 'before', graph_state: snapshot, quality_score: 0.5 },
+        { label: 'after', graph_state: graph.getState(), quality_score: 0.7 }
+      );
+
+      expect(diff.nodes.merged).toHaveLength(1);
+      expect(diff.nodes.merged[0].id).toBe(mergedId);
+      expect(diff.nodes.merged[0].merged_from.map(node => node.id)).toEqual(['h1', 'h2']);
+      expect(diff.nodes.added.map(node => node.id)).toEqual(['ev']);
+      expect(diff.nodes.removed.map(node => node.id)).toEqual(['old']);
+      expect(diff.edges.added.map(edge => edge.id)).toEqual(['e2']);
+      expect(diff.edges.removed).toEqual([]);
+
+      expect(diff.confidence_changes.map(change => change.node_id)).toEqual(['h3']);
+      const delta = diff.confidence_changes[0].delta;
+      expect(delta.empirical_support).toBeCloseTo(graph.getNode('h3')!.metadata.confidence.empirical_support - 0.6, 10);
+      expect(diff.quality.delta).toBeCloseTo(0.2, 10);
+    });
+
+    test('should match separate runs by type and label and detect edge type changes', () => {
+      const run1 = new ASRGoTGraph();
+      addDiffNode(run1, 'r1-root', 'Root', NodeType.ROOT);
+      addDiffNode(run1, 'r1-hyp', 'Hypothesis A');
+      addDiffNode(run1, 'r1-ev', 'Evidence A', NodeType.EVIDENCE);
+      addDiffEdge(run1, 'r1-e1', 'r1-root', 'r1-hyp', EdgeType.PREREQUISITE);
+      addDiffEdge(run1, 'r1-e2', 'r1-ev', 'r1-hyp', EdgeType.SUPPORTIVE);
+
+      const run2 = new ASRGoTGraph();
+      addDiffNode(run2, 'r2-root', 'Root', NodeType.ROOT);
+      addDiffNode(run2, 'r2-hyp', 'Hypothesis A');
+      addDiffNode(run2, 'r2-ev', 'Evidence A', NodeType.EVIDENCE);
+      addDiffEdge(run2, 'r2-e1', 'r2-root', 'r2-hyp', EdgeType.PREREQUISITE);
+      addDiffEdge(run2, 'r2-e2', 'r2-ev', 'r2-hyp', EdgeType.CONTRADICTORY);
+
+      const diff = differ.compare(
+        { label: 'run-1', graph_state: run1.getState(), quality_score: 0.6 },
+        { label: 'run-2', graph_state: run2.getState(), quality_score: 0.6 }
+      );
+
+      expect(diff.nodes.added).toEqual([]);
+      expect(diff.nodes.removed).toEqual([]);
+      expect(diff.edges.added).toEqual([]);
+      expect(diff.edges.removed).toEqual([]);
+      expect(diff.edges.type_changed).toEqual([
+        { id: 'r2-e2', source: 'r2-ev', target: 'r2-hyp', before: EdgeType.SUPPORTIVE, after: EdgeType.CONTRADICTORY }
+      ]);
+      expect(diff.confidence_changes).toEqual([]);
+      expect(diff.quality.delta).toBe(0);
+    });
+  });
+
+  describe('As-Of Queries', () => {
+    const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+    const addPastNode = (id: string, timestamp: Date = new Date()) => graph.addNode({
+      node_id: id,
+      label: id,
+      type: NodeType.HYPOTHESIS,
+      timestamp,
+      provenance: 'Test',
+      confidence: { empirical_support: 0.6, theoretical_basis: 0.6, methodological_rigor: 0.6, consensus_alignment: 0.6 },
+      epistemic_status: 'test',
+      disciplinary_tags: ['test'],
+      bias_flags: [],
+      revision_history: [],
+      impact_score: 0.5
+    });
+
+    const addPastEdge = (source: string, target: string) => graph.addEdge(source, target, {
+      edge_id: `${source}->${target}`,
+      edge_type: EdgeType.SUPPORTIVE,
+      confidence: { empirical_support: 0.6, theoretical_basis: 0.6, methodological_rigor: 0.6, consensus_alignment: 0.6 },
+      timestamp: new Date()
+    });
+
+    test('should reconstruct nodes, edges and confidences from the operation log', async () => {
+      addPastNode('a');
+      addPastNode('b');
+      addPastNode('c');
+      addPastEdge('a', 'b');
+      addPastEdge('b', 'c');
+      await tick();
+      const checkpoint = new Date();
+      const before = graph.toJSON().graph;
+      await tick();
+
+      graph.updateNodeConfidence('a', { empirical_support: 1, theoretical_basis: 1, methodological_rigor: 1, consensus_alignment: 1 }, {});
+      const mergedId = graph.mergeNodes('b', 'c', 0.9)!;
+      addPastNode('d');
+
+      const past = graph.asOf(checkpoint);
+      expect(past.toJSON().graph).toEqual(before);
+      expect(past.getSuccessors('a')).toEqual(['b']);
+
+      // The live graph is untouched
+      expect(graph.hasNode(mergedId)).toBe(true);
+      expect(graph.hasNode('b')).toBe(false);
+
+      const subgraph = graph.extractSubgraph({ as_of: checkpoint, node_types: [NodeType.HYPOTHESIS] });
+      expect(subgraph.nodes.map(node => node.id)).toEqual(['a', 'b', 'c']);
+      expect(subgraph.nodes[0].metadata.confidence.empirical_support).toBe(0.6);
+      expect(subgraph.edges.map(edge => edge.id)).toEqual(['a->b', 'b->c']);
+    });
+
+    test('should fall back to creation timestamps before the history starts', async () => {
+      addPastNode('old', new Date('2020-01-01T00:00:00Z'));
+      addPastNode('new', new Date('2024-01-01T00:00:00Z'));
+      addPastEdge('old', 'new');
+
+      const restored = ASRGoTGraph.fromState(graph.getState());
+      expect(restored.getHistoryStart().getTime()).toBeGreaterThan(new Date('2024-01-01T00:00:00Z').getTime());
+
+      const past = restored.asOf(new Date('2022-01-01T00:00:00Z'));
+      expect(Array.from(past.getState().vertices.keys())).toEqual(['old']);
+      expect(past.getState().edges.size).toBe(0);
+      expect(restored.getState().vertices.size).toBe(2);
+    });
+  });
+
+  describe('Graph Events', () => {
+    const addEventNode = (id: string, tags: string[] = ['test'], confidence: number = 0.6, impact: number = 0.5) => graph.addNode({
+      node_id: id,
+      label: id,
+      type: NodeType.HYPOTHESIS,
+      timestamp: new Date(),
+      provenance: 'Test',
+      confidence: { empirical_support: confidence, theoretical_basis: confidence, methodological_rigor: confidence, consensus_alignment: confidence },
+      epistemic_status: 'test',
+      disciplinary_tags: tags,
+      bias_flags: [],
+      revision_history: [],
+      impact_score: impact
+    });
+
+    test('should emit typed events for each mutation', () => {
+      const seen: string[] = [];
+      graph.on('nodeAdded', ({ node }) => seen.push(`nodeAdded:${node.id}`));
+      graph.on('edgeAdded', ({ edge }) => seen.push(`edgeAdded:${edge.source}->${edge.target}`));
+      graph.on('confidenceUpdated', ({ nodeId, previous, current }) => {
+        seen.push(`confidenceUpdated:${nodeId}`);
+        expect(previous.empirical_support).toBe(0.6);
+        expect(current).toBe(graph.getNode(nodeId)!.metadata.confidence);
+      });
+      graph.on('nodeMerged', ({ sourceNodeIds }) => seen.push(`nodeMerged:${sourceNodeIds.join('+')}`));
+      graph.on('nodePruned', ({ nodeId }) => seen.push(`nodePruned:${nodeId}`));
+      graph.on('ibnCreated', ({ sourceNodeId, targetNodeId }) => seen.push(`ibnCreated:${sourceNodeId}~${targetNodeId}`));
+
+      addEventNode('a', ['biology']);
+      addEventNode('b', ['physics']);
+      graph.updateNodeConfidence('a', { empirical_support: 0.9, theoretical_basis: 0.9, methodological_rigor: 0.9, consensus_alignment: 0.9 }, {});
+      const ibnId = graph.createIBN('a', 'b', 0.8)!;
+      addEventNode('weak', ['test'], 0.1, 0.05);
+      graph.pruneNodes();
+      const mergedId = graph.mergeNodes('a', 'b', 0.9)!;
+
+      expect(seen).toEqual([
+        'nodeAdded:a',
+        'nodeAdded:b',
+        'confidenceUpdated:a',
+        `nodeAdded:${ibnId}`,
+        `edgeAdded:a->${ibnId}`,
+        `edgeAdded:${ibnId}->b`,
+        'ibnCreated:a~b',
+        'nodeAdded:weak',
+        'nodePruned:weak',
+        `nodeAdded:${mergedId}`,
+        'nodeMerged:a+b'
+      ]);
+    });
+
+    test('should unsubscribe and hold events until a transaction commits', () => {
+      const added: string[] = [];
+      const unsubscribe = graph.on('nodeAdded', ({ node }) => added.push(node.id));
+
+      graph.transaction(() => {
+        addEventNode('a');
+        expect(added).toEqual([]);
+      });
+      expect(added).toEqual(['a']);
+
+      expect(() => graph.transaction(() => {
+        addEventNode('b');
+        throw new Error('boom');
+      })).toThrow('boom');
+      expect(added).toEqual(['a']);
+
+      unsubscribe();
+      addEventNode('c');
+      expect(added).toEqual(['a']);
+    });
+
+    test('should isolate failing listeners', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const added: string[] = [];
+      graph.on('nodeAdded', () => { throw new Error('listener failed'); });
+      graph.on('nodeAdded', ({ node }) => added.push(node.id));
+
+      expect(addEventNode('a')).toBe('a');
+      expect(added).toEqual(['a']);
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('Graph Query', () => {
+    const engine = new GraphQueryEngine();
+
+    const addQueryNode = (id: string, type: NodeType, empirical: number, tags: string[] = ['test']) => graph.addNode({
+      node_id: id,
+      label: id,
+      type,
+      timestamp: new Date(),
+      provenance: 'Test',
+      confidence: { empirical_support: empirical, theoretical_basis: 0.5, methodological_rigor: 0.5, consensus_alignment: 0.5 },
+      epistemic_status: 'test',
+      disciplinary_tags: tags,
+      bias_flags: [],
+      revision_history: [],
+      impact_score: 0.5
+    });
+
+    const addQueryEdge = (source: string, target: string, edgeType: EdgeType) => graph.addEdge(source, target, {
+      edge_id: `${source}->${target}`,
+      edge_type: edgeType,
+      confidence: { empirical_support: 0.6, theoretical_basis: 0.6, methodological_rigor: 0.6, consensus_alignment: 0.6 },
+      timestamp: new Date()
+    });
+
+    beforeEach(() => {
+      addQueryNode('h1', NodeType.HYPOTHESIS, 0.3, ['biology', 'chemistry']);
+      addQueryNode('h2', NodeType.HYPOTHESIS, 0.3, ['biology']);
+      addQueryNode('h3', NodeType.HYPOTHESIS, 0.8, ['physics']);
+      ['e1', 'e2', 'e3'].forEach(id => addQueryNode(id, NodeType.EVIDENCE, 0.7));
+      addQueryEdge('e1', 'h1', EdgeType.CONTRADICTORY);
+      addQueryEdge('e2', 'h1', EdgeType.CONTRADICTORY);
+      addQueryEdge('e3', 'h1', EdgeType.SUPPORTIVE);
+      addQueryEdge('e1', 'h2', EdgeType.CONTRADICTORY);
+      addQueryEdge('e2', 'h3', EdgeType.CONTRADICTORY);
+      addQueryEdge('e3', 'h3', EdgeType.CONTRADICTORY);
+    });
+
+    test('should match edge patterns combined with metadata filters', () => {
+      const query = engine.parse({
+        where: { and: [
+          { field: 'type', op: '=', value: 'hypothesis' },
+          { field: 'confidence.empirical_support', op: '<', value: 0.4 },
+          { edges: { direction: 'incoming', where: { field: 'edge_type', op: '=', value: 'contradictory' } }, op: '>=', value: 2 }
+        ] },
+        select: ['id', 'in_degree', 'confidence.empirical_support']
+      });
+
+      const result = engine.execute(graph, query);
+      expect(result.total_matches).toBe(1);
+      expect(result.rows).toEqual([{ id: 'h1', in_degree: 3, 'confidence.empirical_support': 0.3 }]);
+
+      const edges = engine.execute(graph, engine.parse({
+        target: 'edges',
+        where: { and: [
+          { field: 'edge_type', op: '=', value: 'contradictory' },
+          { target: { field: 'confidence.empirical_support', op: '>', value: 0.5 } }
+        ] },
+        order_by: [{ field: 'id', direction: 'desc' }]
+      }));
+      expect(edges.rows!.map(row => row.id)).toEqual(['e3->h3', 'e2->h3']);
+    });
+
+    test('should aggregate, sort, limit and reject malformed queries', () => {
+      const byType = engine.execute(graph, engine.parse({
+        aggregate: { group_by: 'type', metrics: [{ fn: 'count' }, { fn: 'avg', field: 'confidence.empirical_support', as: 'avg_support' }] },
+        order_by: [{ field: 'count', direction: 'desc' }]
+      }));
+      expect(byType.groups).toHaveLength(2);
+      expect(byType.groups![0]).toMatchObject({ type: 'hypothesis', count: 3 });
+      expect(byType.groups![0].avg_support).toBeCloseTo((0.3 + 0.3 + 0.8) / 3);
+
+      const byTag = engine.execute(graph, engine.parse({
+        where: { field: 'type', op: '=', value: 'hypothesis' },
+        aggregate: { group_by: 'disciplinary_tags', metrics: [{ fn: 'count' }] }
+      }));
+      expect(byTag.groups).toEqual(expect.arrayContaining([{ disciplinary_tags: 'biology', count: 2 }]));
+
+      const top = engine.execute(graph, engine.parse({ order_by: [{ field: 'degree', direction: 'desc' }, { field: 'id' }], limit: 2, select: ['id'] }));
+      expect(top.rows).toEqual([{ id: 'h1' }, { id: 'e1' }]);
+      expect(top.truncated).toBe(true);
+
+      expect(() => engine.parse({ where: { field: 'type', op: 'like', value: 'h' } })).toThrow('Invalid graph query');
+      expect(() => engine.parse({ limit: 0 })).toThrow('limit');
+    });
+  });
+
+  describe('Hyperedges', () => {
+    const addMemberNode = (id: string, type: NodeType = NodeType.EVIDENCE) => graph.addNode({
+      node_id: id,
+      label: id,
+      type,
+      timestamp: new Date(),
+      provenance: 'Test',
+      confidence: { empirical_support: 0.7, theoretical_basis: 0.7, methodological_rigor: 0.7, consensus_alignment: 0.7 },
+      epistemic_status: 'test',
+      disciplinary_tags: ['test'],
+      bias_flags: [],
+      revision_history: [],
+      impact_score: 0.6
+    });
+
+    const jointSupport = (id: string): EdgeMetadata => ({
+      edge_id: id,
+      edge_type: EdgeType.SUPPORTIVE,
+      confidence: { empirical_support: 0.7, theoretical_basis: 0.7, methodological_rigor: 0.7, consensus_alignment: 0.7 },
+      timestamp: new Date()
+    });
+
+    beforeEach(() => {
+      addMemberNode('hyp', NodeType.HYPOTHESIS);
+      ['ev-1', 'ev-2', 'ev-3'].forEach(id => addMemberNode(id));
+    });
+
+    test('should check members and expose hyperdegree and subgraph membership', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      expect(() => graph.addHyperedge(['hyp', 'missing'], jointSupport('bad'))).toThrow('Nodes missing do not exist');
+      expect(() => graph.addHyperedge(['hyp', 'hyp'], jointSupport('bad'))).toThrow('at least two distinct nodes');
+      errorSpy.mockRestore();
+
+      graph.addHyperedge(['hyp', 'ev-1', 'ev-2'], jointSupport('joint-1'));
+      graph.addHyperedge(['hyp', 'ev-3', 'ev-3'], jointSupport('joint-2'));
+      expect(graph.getHyperedge('joint-2')!.nodes).toEqual(['hyp', 'ev-3']);
+      expect(graph.getNodeHyperedges('hyp').map(hyperedge => hyperedge.id)).toEqual(['joint-1', 'joint-2']);
+      expect(graph.updateAllTopologyMetrics().get('hyp')!.hyperdegree).toBe(2);
+
+      const subgraph = graph.extractSubgraph({ node_types: [NodeType.HYPOTHESIS, NodeType.EVIDENCE] });
+      expect(subgraph.hyperedges.map(hyperedge => hyperedge.id)).toEqual(['joint-1', 'joint-2']);
+      const focused = graph.extractSubgraph({ focus_node_id: 'ev-3', radius: 0 });
+      expect(focused.hyperedges).toEqual([]);
+    });
+
+    test('should follow node removal and merging, and undo with them', () => {
+      graph.addHyperedge(['hyp', 'ev-1', 'ev-2'], jointSupport('joint-1'));
+      graph.addHyperedge(['ev-2', 'ev-3'], jointSupport('joint-2'));
+      const before = graph.toJSON().graph;
+
+      graph.removeNode('ev-3');
+      expect(graph.getHyperedge('joint-2')).toBeUndefined();
+      expect(graph.getNodeHyperedges('ev-2').map(hyperedge => hyperedge.id)).toEqual(['joint-1']);
+
+      const mergedId = graph.mergeNodes('ev-1', 'ev-2', 0.9)!;
+      expect(graph.getHyperedge('joint-1')!.nodes).toEqual(['hyp', mergedId]);
+      expect(graph.getNodeHyperedges(mergedId)).toHaveLength(1);
+
+      graph.undo();
+      graph.undo();
+      expect(graph.toJSON().graph).toEqual(before);
+      expect(graph.getNodeHyperedges('ev-3').map(hyperedge => hyperedge.id)).toEqual(['joint-2']);
+    });
+
+    test('should report broken hyperedges during validation', () => {
+      graph.addHyperedge(['hyp', 'ev-1'], jointSupport('joint-1'));
+      const graphState = graph.getState();
+      graphState.hyperedges = new Map(graphState.hyperedges);
+      graphState.hyperedges.set('broken', { id: 'broken', nodes: ['hyp', 'ghost'], metadata: jointSupport('broken') });
+
+      const validation = validator.validateGraphState(graphState);
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toContain('Hyperedge broken references non-existent node ghost');
+      expect(validation.statistics.total_hyperedges).toBe(2);
+      expect(validation.warnings.some(warning => warning.includes('ev-1'))).toBe(false);
+    });
+
+    test('should link jointly supporting evidence during evidence integration', async () => {
+      // Later stages may merge the evidence, so members are checked as the hyperedge is created
+      const joint: NodeType[][] = [];
+      graph.on('hyperedgeAdded', ({ hyperedge }) => joint.push(hyperedge.nodes.map(nodeId => graph.getNode(nodeId)!.metadata.type)));
+
+      // A seed that gathers three evidence nodes for the hypothesis
+      await new ASRGoTPipeline(graph).executeFromStage(4, {
+        query: 'Joint evidence',
+        domain: ['test'],
+        complexity_level: 'basic',
+        expected_depth: 'overview',
+        interdisciplinary: false,
+        seed: 6
+      }, { identity: 'Test', experience: 'Test', research_focus: [], methodologies: [], philosophy: 'Test' });
+
+      expect(joint).toEqual([[NodeType.HYPOTHESIS, NodeType.EVIDENCE, NodeType.EVIDENCE, NodeType.EVIDENCE]]);
+    });
+  });
+
+  describe('Abstraction Layers', () => {
+    const addLayerNode = (id: string, confidence: number, impact: number, layerId?: string) => graph.addNode({
+      node_id: id,
+      label: id,
+      type: NodeType.EVIDENCE,
+      timestamp: new Date(),
+      provenance: 'Test',
+      confidence: { empirical_support: confidence, theoretical_basis: confidence, methodological_rigor: confidence, consensus_alignment: confidence },
+      epistemic_status: 'test',
+      disciplinary_tags: ['test'],
+      bias_flags: [],
+      revision_history: [],
+      impact_score: impact,
+      layer_id: layerId
+    });
+
+    const addLayerEdge = (source: string, target: string, weight: number) => graph.addEdge(source, target, {
+      edge_id: `${source}->${target}`,
+      edge_type: EdgeType.SUPPORTIVE,
+      confidence: { empirical_support: weight, theoretical_basis: weight, methodological_rigor: weight, consensus_alignment: weight },
+      timestamp: new Date()
+    });
+
+    const ids = (subgraph: { nodes: Array<{ id: string }> }) => subgraph.nodes.map(node => node.id).sort();
+
+    beforeEach(() => {
+      addLayerNode('a', 0.4, 0.3, 'detail');
+      addLayerNode('b', 0.8, 0.9, 'detail');
+      addLayerNode('c', 0.6, 0.5, 'detail');
+      addLayerNode('outside', 0.7, 0.7);
+      addLayerEdge('a', 'b', 0.4);
+      addLayerEdge('a', 'outside', 0.6);
+      addLayerEdge('b', 'outside', 0.8);
+    });
+
+    test('should nest grouped nodes in a child layer under an aggregating super-node', () => {
+      const groupId = graph.createSuperNode(['a', 'b'], { label: 'Group', layer_id: 'group' });
+      const group = graph.getNode(groupId)!;
+
+      expect(group.metadata.type).toBe(NodeType.SUPER_NODE);
+      expect(group.metadata.layer_id).toBe('detail');
+      expect(group.metadata.confidence.empirical_support).toBeCloseTo(0.6);
+      expect(group.metadata.impact_score).toBe(0.9);
+      expect(graph.getNode('a')!.metadata.layer_id).toBe('group');
+      expect(graph.getLayerParent('group')).toBe('detail');
+      expect(graph.getChildLayers('detail')).toEqual(['group']);
+      expect([graph.getLayerLevel(undefined), graph.getLayerLevel('detail'), graph.getLayerLevel('group')]).toEqual([0, 1, 2]);
+
+      // Grouping the super-node with a sibling builds the next level up
+      const topId = graph.createSuperNode([groupId, 'c'], { label: 'Top', layer_id: 'top' });
+      expect(graph.getLayerParent('top')).toBe('detail');
+      expect(graph.getLayerParent('group')).toBe('top');
+      expect(graph.getSuperNodeMembers(topId).sort()).toEqual(['a', 'b', 'c', groupId].sort());
+      expect(graph.getNode(topId)!.metadata.confidence.empirical_support).toBeCloseTo(0.6);
+
+      expect(() => graph.setLayerParent('detail', 'group')).toThrow('Layer group is nested inside detail');
+      expect(validator.validateGraphState(graph.getState()).errors).toEqual([]);
+    });
+
+    test('should extract folded views at an abstraction level and after collapsing', () => {
+      const groupId = graph.createSuperNode(['a', 'b'], { label: 'Group', layer_id: 'group' });
+
+      // Fully expanded, the super-node is left out
+      expect(ids(graph.extractSubgraph({}))).toEqual(['a', 'b', 'c', 'outside']);
+
+      const folded = graph.extractSubgraph({ abstraction_level: 1 });
+      expect(ids(folded)).toEqual([groupId, 'c', 'outside'].sort());
+      expect(folded.edges).toHaveLength(1);
+      expect(folded.edges[0]).toMatchObject({ id: 'a->outside', source: groupId, target: 'outside' });
+      expect(folded.edges[0].metadata.confidence.empirical_support).toBeCloseTo(0.7);
+      // Layers without a super-node have nothing to fold into
+      expect(ids(graph.extractSubgraph({ abstraction_level: 0 }))).toEqual(ids(folded));
+      expect(ids(graph.extractSubgraph({ abstraction_level: 1, focus_node_id: 'b', radius: 0 }))).toEqual([groupId]);
+
+      // The live graph is untouched by the views
+      expect(graph.getEdge('a->outside')!.source).toBe('a');
+
+      graph.collapseSuperNode(groupId);
+      expect(ids(graph.extractSubgraph({}))).toEqual([groupId, 'c', 'outside'].sort());
+      graph.undo();
+      expect(graph.getNode(groupId)!.metadata.collapsed).toBe(false);
+      expect(ids(graph.extractSubgraph({}))).toEqual(['a', 'b', 'c', 'outside']);
+    });
+
+    test('should keep the hierarchy through serialization and undo', () => {
+      const before = graph.toJSON().graph;
+      graph.createSuperNode(['a', 'b'], { label: 'Group', layer_id: 'group' });
+
+      const restored = ASRGoTGraph.fromJSON(graph.toJSON());
+      expect(restored.getLayerParent('group')).toBe('detail');
+      expect(restored.getLayerLevel('group')).toBe(2);
+
+      graph.undo();
+      expect(graph.toJSON().graph).toEqual(before);
+      expect(graph.getLayerParent('group')).toBeUndefined();
+    });
+
+    test('should journal only the layer members an operation changes', () => {
+      const members = () => Array.from(graph.getState().layers.entries());
+      const initial = members();
+
+      graph.transaction(() => {
+        addLayerNode('d', 0.5, 0.5, 'detail');
+        graph.removeNode('b');
+        addLayerNode('e', 0.5, 0.5, 'other');
+      });
+      expect(graph.getState().layers.get('detail')).toEqual(['a', 'c', 'd']);
+      const after = members();
+
+      addLayerNode('f', 0.5, 0.5, 'detail');
+      graph.undo();
+      expect(members()).toEqual(after);
+
+      graph.undo();
+      expect(members()).toEqual(initial);
+      graph.redo();
+      expect(members()).toEqual(after);
+      graph.redo();
+      expect(graph.getState().layers.get('detail')).toEqual(['a', 'c', 'd', 'f']);
+
+      expect(() => graph.transaction(() => {
+        graph.removeNode('a');
+        throw new Error('abort');
+      })).toThrow('abort');
+      expect(graph.getState().layers.get('detail')).toEqual(['a', 'c', 'd', 'f']);
+    });
+  });
+
+  describe('Edge Grammar', () => {
+    const addTypedNode = (id: string, type: NodeType) => graph.addNode({
+      node_id: id,
+      label: id,
+      type,
+      timestamp: new Date(),
+      provenance: 'Test',
+      confidence: { empirical_support: 0.5, theoretical_basis: 0.5, methodological_rigor: 0.5, consensus_alignment: 0.5 },
+      epistemic_status: 'test',
+      disciplinary_tags: ['test'],
+      bias_flags: [],
+      revision_history: [],
+      impact_score: 0.5
+    });
+
+    const edge = (id: string, edgeType: EdgeType): EdgeMetadata => ({
+      edge_id: id,
+      edge_type: edgeType,
+      confidence: { empirical_support: 0.5, theoretical_basis: 0.5, methodological_rigor: 0.5, consensus_alignment: 0.5 },
+      timestamp: new Date()
+    });
+
+    beforeEach(() => {
+      addTypedNode('root', NodeType.ROOT);
+      addTypedNode('dim', NodeType.DIMENSION);
+      addTypedNode('gap', NodeType.PLACEHOLDER_GAP);
+      addTypedNode('ev', NodeType.EVIDENCE);
+    });
+
+    test('should reject edges the grammar does not allow in strict mode only', () => {
+      graph.addEdge('ev', 'root', edge('loose', EdgeType.SUPPORTIVE));
+
+      graph.setEdgeGrammar(new EdgeGrammar(DEFAULT_EDGE_GRAMMAR, { strict: true }));
+      expect(() => graph.addEdge('ev', 'root', edge('backwards', EdgeType.SUPPORTIVE)))
+        .toThrow('supportive edges are not allowed from evidence to root nodes (no edges allowed)');
+      expect(() => graph.addEdge('gap', 'dim', edge('gap-causal', EdgeType.CAUSAL))).toThrow('Edge creation failed');
+      expect(() => graph.addEdge('dim', 'root', edge('reversed', EdgeType.SPECIALIZATION))).toThrow();
+      expect(() => graph.addEdge('root', 'dim', edge('wrong-type', EdgeType.CAUSAL)))
+        .toThrow('(allowed: specialization)');
+
+      graph.addEdge('root', 'dim', edge('decomposition', EdgeType.SPECIALIZATION));
+      expect(graph.getState().edges.size).toBe(2);
+      // Rejected edges leave nothing in the operation log
+      expect(graph.getChangeLog().filter(entry => entry.operation === 'add_edge')).toHaveLength(2);
+    });
+
+    test('should report violations as warnings, or as errors when strict', () => {
+      graph.addEdge('root', 'dim', edge('decomposition', EdgeType.SPECIALIZATION));
+      graph.addEdge('gap', 'dim', edge('gap-causal', EdgeType.CAUSAL));
+
+      const lenient = validator.validateGraphState(graph.getState());
+      expect(lenient.statistics.grammar_violations).toBe(1);
+      expect(lenient.errors).toEqual([]);
+      expect(lenient.warnings).toContain(
+        'Edge gap-causal (gap -> dim): causal edges are not allowed from placeholder_gap to dimension nodes (no edges allowed)'
+      );
+
+      const strict = new ASRGoTValidator(new EdgeGrammar(DEFAULT_EDGE_GRAMMAR, { strict: true }))
+        .validateGraphState(graph.getState());
+      expect(strict.isValid).toBe(false);
+      expect(strict.errors).toHaveLength(1);
+
+      // Custom rules replace the defaults
+      const custom = new EdgeGrammar([
+        ...DEFAULT_EDGE_GRAMMAR,
+        { source: NodeType.PLACEHOLDER_GAP, target: '*', edge_types: [EdgeType.CAUSAL] }
+      ], { strict: true });
+      expect(new ASRGoTValidator(custom).validateGraphState(graph.getState()).statistics.grammar_violations).toBe(0);
+    });
+
+    test('should accept every edge the pipeline creates', async () => {
+      const strictGraph = new ASRGoTGraph();
+      const grammar = new EdgeGrammar(DEFAULT_EDGE_GRAMMAR, { strict: true });
+      strictGraph.setEdgeGrammar(grammar);
+
+      const context = await new ASRGoTPipeline(strictGraph).executeComplete({
+        query: 'How does the skin microbiome shape immune responses in cutaneous lymphoma?',
+        domain: ['immunology', 'microbiology'],
+        complexity_level: 'advanced',
+        expected_depth: 'comprehensive',
+        interdisciplinary: true
+      }, {
+        identity: 'Test User',
+        experience: 'Researcher',
+        research_focus: ['immunology'],
+        methodologies: ['molecular_biology'],
+        philosophy: 'Evidence-based research'
+      });
+
+      const errors = context.stage_results.flatMap(result => result.errors);
+      expect(errors.filter(error => error.includes('not allowed'))).toEqual([]);
+      expect(strictGraph.getState().edges.size).toBeGreaterThan(0);
+      expect(grammar.findViolations(strictGraph.getState())).toEqual([]);
+    });
+  });
+
+  describe('Graph Curation', () => {
+    const addCurationNode = (id: string, type: NodeType, layerId?: string) => graph.addNode({
+      node_id: id,
+      label: id,
+      type,
+      timestamp: new Date(),
+      provenance: 'Test',
+      confidence: { empirical_support: 0.5, theoretical_basis: 0.5, methodological_rigor: 0.5, consensus_alignment: 0.5 },
+      epistemic_status: 'test',
+      disciplinary_tags: ['test'],
+      bias_flags: [],
+      revision_history: [],
+      impact_score: 0.5,
+      layer_id: layerId
+    });
+
+    const addCurationEdge = (id: string, source: string, target: string) => graph.addEdge(source, target, {
+      edge_id: id,
+      edge_type: EdgeType.SUPPORTIVE,
+      confidence: { empirical_support: 0.6, theoretical_basis: 0.6, methodological_rigor: 0.6, consensus_alignment: 0.6 },
+      timestamp: new Date()
+    });
+
+    beforeEach(() => {
+      addCurationNode('hyp', NodeType.HYPOTHESIS, 'draft');
+      addCurationNode('ev-1', NodeType.EVIDENCE);
+      addCurationNode('ev-2', NodeType.EVIDENCE);
+      addCurationEdge('support-1', 'ev-1', 'hyp');
+      addCurationEdge('support-2', 'ev-2', 'hyp');
+    });
+
+    test('should update node metadata and keep the derived maps in step', () => {
+      const confidence = { empirical_support: 0.9, theoretical_basis: 0.8, methodological_rigor: 0.7, consensus_alignment: 0.6 };
+      graph.updateNodeMetadata('hyp', { label: 'Revised', confidence, layer_id: 'reviewed' }, 'Reviewer');
+
+      const state = graph.getState();
+      const node = graph.getNode('hyp')!;
+      expect(node.metadata.label).toBe('Revised');
+      expect(state.confidence_function.get('hyp')).toEqual(confidence);
+      expect(state.metadata_function.get('hyp')).toBe(node.metadata);
+      expect(state.layers.get('draft')).toEqual([]);
+      expect(state.layers.get('reviewed')).toEqual(['hyp']);
+      expect(node.metadata.revision_history.at(-1)).toMatchObject({ change: 'Updated label, confidence, layer_id', author: 'Reviewer' });
+
+      graph.updateNodeMetadata('ev-1', { type: NodeType.PLACEHOLDER_GAP });
+      expect(state.node_types.get('ev-1')).toBe(NodeType.PLACEHOLDER_GAP);
+
+      // Invalid results and fixed fields are rejected without touching the node
+      expect(() => graph.updateNodeMetadata('hyp', { impact_score: 2 })).toThrow('Node update failed: Invalid metadata: impact_score');
+      expect(() => graph.updateNodeMetadata('hyp', { node_id: 'other' })).toThrow('node_id cannot be changed');
+      expect(() => graph.updateNodeMetadata('missing', { label: 'x' })).toThrow('Node missing does not exist');
+      expect(node.metadata.impact_score).toBe(0.5);
+
+      graph.undo();
+      graph.undo();
+      expect(state.node_types.get('ev-1')).toBe(NodeType.EVIDENCE);
+      expect(graph.getNode('hyp')!.metadata.label).toBe('hyp');
+      expect(state.layers.get('draft')).toEqual(['hyp']);
+      expect(state.confidence_function.get('hyp')!.empirical_support).toBe(0.5);
+    });
+
+    test('should retype and remove edges and hyperedges', () => {
+      graph.setEdgeGrammar(new EdgeGrammar(DEFAULT_EDGE_GRAMMAR, { strict: true }));
+      expect(() => graph.updateEdge('support-1', { edge_type: EdgeType.CAUSAL })).toThrow('causal edges are not allowed');
+
+      graph.setEdgeGrammar(new EdgeGrammar());
+      graph.updateEdge('support-1', { edge_type: EdgeType.CAUSAL, causal_metadata: { confounders: ['age'] } }, 'Reviewer');
+      expect(graph.getEdge('support-1')!.metadata.edge_type).toBe(EdgeType.CAUSAL);
+      expect(graph.getNode('ev-1')!.metadata.revision_history.at(-1)).toMatchObject({
+        change: 'Retyped edge support-1 from supportive to causal',
+        author: 'Reviewer'
+      });
+      expect(() => graph.updateEdge('support-1', { edge_type: 'bogus' as EdgeType })).toThrow('Invalid metadata: edge_type');
+
+      expect(graph.removeEdge('support-2')).toBe(true);
+      expect(graph.removeEdge('support-2')).toBe(false);
+      expect(graph.getEdge('support-2')).toBeUndefined();
+      expect(graph.getNeighbors('ev-2')).toEqual([]);
+      expect(graph.getNode('hyp')!.metadata.revision_history.at(-1)!.change)
+        .toBe('Removed supportive edge support-2 (ev-2 -> hyp)');
+
+      const hyperedgeId = graph.addHyperedge(['hyp', 'ev-1', 'ev-2'], {
+        edge_id: 'joint',
+        edge_type: EdgeType.SUPPORTIVE,
+        confidence: { empirical_support: 0.5, theoretical_basis: 0.5, methodological_rigor: 0.5, consensus_alignment: 0.5 },
+        timestamp: new Date()
+      });
+      expect(graph.removeHyperedge(hyperedgeId)).toBe(true);
+      expect(graph.getNodeHyperedges('ev-2')).toEqual([]);
+
+      graph.undo();
+      expect(graph.getNodeHyperedges('ev-2').map(hyperedge => hyperedge.id)).toEqual(['joint']);
+      graph.undo();
+      graph.undo();
+      expect(graph.getEdge('support-2')!.source).toBe('ev-2');
+      expect(graph.getNeighbors('ev-2')).toEqual(['hyp']);
+    });
+
+    test('should apply temporal decay through the graph API', async () => {
+      const seeded = new ASRGoTGraph();
+      seeded.addNode({
+        node_id: 'old-hyp',
+        label: 'Old hypothesis',
+        type: NodeType.HYPOTHESIS,
+        timestamp: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000),
+        provenance: 'Test',
+        confidence: { empirical_support: 0.8, theoretical_basis: 0.8, methodological_rigor: 0.8, consensus_alignment: 0.8 },
+        epistemic_status: 'hypothetical',
+        disciplinary_tags: ['immunology'],
+        bias_flags: [],
+        revision_history: [],
+        impact_score: 0.6
+      });
+
+      await new ASRGoTPipeline(seeded).executeFromStage(4, {
+        query: 'Old hypothesis review',
+        domain: ['immunology'],
+        complexity_level: 'basic',
+        expected_depth: 'overview',
+        interdisciplinary: false
+      }, { identity: 'Test', experience: 'Test', research_focus: [], methodologies: [], philosophy: 'Test' });
+
+      const decay = seeded.getChangeLog().find(entry => entry.description.startsWith('Updated confidence'));
+      expect(decay?.nodes_affected).toEqual(['old-hyp']);
+      const node = seeded.getNode('old-hyp')!;
+      expect(node.metadata.revision_history.some(revision => revision.change === 'Updated confidence')).toBe(true);
+      expect(seeded.getState().confidence_function.get('old-hyp')).toBe(node.metadata.confidence);
+    });
+  });
+
+  describe('Pipeline Stages', () => {
+    const stageQuery: ResearchQuery = {
+      query: 'Microbiome signatures in cutaneous lymphoma',
+      domain: ['immunology', 'microbiology'],
+      complexity_level: 'basic',
+      expected_depth: 'overview',
+      interdisciplinary: true
+    };
+    const stageProfile = { identity: 'Test', experience: 'Test', research_focus: [], methodologies: [], philosophy: 'Test' };
+
+    const searchNode = (id: string): NodeMetadata => ({
+      node_id: id,
+      label: 'Systematic search result',
+      type: NodeType.EVIDENCE,
+      timestamp: new Date(),
+      provenance: 'Systematic search',
+      confidence: { empirical_support: 0.9, theoretical_basis: 0.9, methodological_rigor: 0.9, consensus_alignment: 0.9 },
+      epistemic_status: 'evidential',
+      disciplinary_tags: ['search'],
+      bias_flags: [],
+      revision_history: [],
+      impact_score: 0.9
+    });
+
+    test('should run the eight default stages unless told otherwise', () => {
+      expect(pipeline.getStages().map(stage => stage.name)).toEqual([
+        'Initialization', 'Decomposition', 'Hypothesis/Planning', 'Evidence Integration',
+        'Pruning/Merging', 'Subgraph Extraction', 'Composition', 'Reflection'
+      ]);
+
+      expect(() => new ASRGoTPipeline(graph, { stages: [] })).toThrow('at least one stage is required');
+      expect(() => new ASRGoTPipeline(graph, { stages: defaults => [...defaults, defaults[0]] }))
+        .toThrow('stage name "Initialization" is used twice');
+      expect(() => new ASRGoTPipeline(graph, { stages: defaults => defaults.slice(1) }))
+        .toThrow('"Decomposition" depends on "Initialization", which must run before it');
+    });
+
+    test('should insert and replace stages without touching the rest', async () => {
+      const seenHypotheses: number[] = [];
+      const custom = new ASRGoTPipeline(graph, {
+        stages: defaults => [
+          ...defaults.slice(0, 3),
+          {
+            name: 'Systematic Search',
+            dependencies: ['Hypothesis/Planning'],
+            execute: (context, stageGraph, run) => {
+              seenHypotheses.push(Array.from(stageGraph.getState().vertices.values())
+                .filter(node => node.metadata.type === NodeType.HYPOTHESIS).length);
+              run.result.nodes_created.push(stageGraph.addNode(searchNode('search-1')));
+            }
+          },
+          ...defaults.slice(3, 6),
+          {
+            name: 'Lab Composition',
+            dependencies: ['Subgraph Extraction'],
+            execute: (context) => {
+              (context as any).final_narrative = `Lab report for ${context.task_query}`;
+            }
+          },
+          defaults[7]
+        ]
+      });
+
+      const context = await custom.executeComplete(stageQuery, stageProfile);
+
+      expect(context.stage_results.map(result => `${result.stage}:${result.stage_name}`)).toEqual([
+        '1:Initialization', '2:Decomposition', '3:Hypothesis/Planning', '4:Systematic Search',
+        '5:Evidence Integration', '6:Pruning/Merging', '7:Subgraph Extraction', '8:Lab Composition', '9:Reflection'
+      ]);
+      expect(seenHypotheses[0]).toBeGreaterThan(0);
+      expect(context.stage_results[3].nodes_created).toEqual(['search-1']);
+      expect((context as any).final_narrative).toBe(`Lab report for ${stageQuery.query}`);
+    });
+
+    test('should roll back failed attempts and fall back to minimal output', async () => {
+      let attempts = 0;
+      const failing = new ASRGoTPipeline(graph, {
+        stages: [{
+          name: 'Flaky Search',
+          execute: (context, stageGraph) => {
+            attempts++;
+            stageGraph.addNode(searchNode(`partial-${attempts}`));
+            throw new Error('search service unavailable');
+          },
+          fallback: (context, stageGraph, run) => {
+            run.result.nodes_created.push(stageGraph.addNode(searchNode('fallback')));
+          }
+        }]
+      });
+
+      const context = await failing.executeComplete(stageQuery, stageProfile);
+
+      expect(attempts).toBe(3);
+      expect(Array.from(graph.getState().vertices.keys())).toEqual(['fallback']);
+      expect(context.stage_results).toHaveLength(1);
+      expect(context.stage_results[0]).toMatchObject({ stage_name: 'Flaky Search', success: true, nodes_created: ['fallback'] });
+      expect(context.stage_results[0].errors).toHaveLength(3);
+      await expect(failing.executeFromStage(2, stageQuery, stageProfile)).rejects.toThrow('expected 1-1');
+    });
+  });
+
+  describe('Stage Checkpoints', () => {
+    const checkpointQuery: ResearchQuery = {
+      query: 'Skin microbiome shifts during phototherapy',
+      domain: ['dermatology', 'microbiology'],
+      complexity_level: 'basic',
+      expected_depth: 'overview',
+      interdisciplinary: false
+    };
+    const checkpointProfile = { identity: 'Test', experience: 'Test', research_focus: [], methodologies: [], philosophy: 'Test' };
+
+    test('should checkpoint the graph before the first stage and after every stage', async () => {
+      const context = await pipeline.executeComplete(checkpointQuery, checkpointProfile);
+
+      expect(context.checkpoints!.map(checkpoint => checkpoint.stage)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8]);
+      expect(context.checkpoints![0]).toMatchObject({ stage_name: 'Start' });
+      expect(context.checkpoints![0].graph_state.vertices.size).toBe(0);
+      expect(context.checkpoints![1].graph_state.vertices.size).toBe(1);
+      expect(context.checkpoints![8].graph_state.vertices.size).toBe(pipeline.getGraph().getNodeCount());
+      expect(context.research_query).toEqual(checkpointQuery);
+    });
+
+    test('should re-run later stages while keeping the earlier results', async () => {
+      const context = await pipeline.executeComplete(checkpointQuery, checkpointProfile);
+      const earlyResults = context.stage_results.slice(0, 3);
+      const checkpointAfterThree = context.checkpoints![3];
+
+      await pipeline.runStages(context, checkpointQuery, 4);
+
+      expect(context.stage_results.map(result => result.stage)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+      expect(context.stage_results.slice(0, 3)).toEqual(earlyResults);
+      expect(context.checkpoints![3]).toBe(checkpointAfterThree);
+      expect(context.checkpoints!.map(checkpoint => checkpoint.stage)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8]);
+
+      await pipeline.runStages(context, checkpointQuery, 2, 2);
+      expect(context.stage_results.map(result => result.stage)).toEqual([1, 2]);
+      expect(context.current_stage).toBe(2);
+      await expect(pipeline.runStages(context, checkpointQuery, 9)).rejects.toThrow('Invalid start stage: 9 (expected 1-8)');
+    });
+
+    test('should restore a checkpoint as an undoable operation', async () => {
+      const context = await pipeline.executeComplete(checkpointQuery, checkpointProfile);
+      const graph = pipeline.getGraph();
+      const finalNodes = Array.from(graph.getState().vertices.keys()).sort();
+      const afterThree = Array.from(context.checkpoints![3].graph_state.vertices.keys()).sort();
+      expect(afterThree).not.toEqual(finalNodes);
+
+      pipeline.restoreCheckpoint(context, 3);
+      expect(Array.from(graph.getState().vertices.keys()).sort()).toEqual(afterThree);
+      expect(graph.getState().edges.size).toBe(context.checkpoints![3].graph_state.edges.size);
+
+      expect(graph.undo()?.operation).toBe('restore_state');
+      expect(Array.from(graph.getState().vertices.keys()).sort()).toEqual(finalNodes);
+
+      context.checkpoints = context.checkpoints!.filter(checkpoint => checkpoint.stage !== 5);
+      expect(() => pipeline.restoreCheckpoint(context, 5)).toThrow('No checkpoint after stage 5');
+    });
+  });
+
+  describe('Seeded Runs', () => {
+    const seededQuery: ResearchQuery = {
+      query: 'Bacterial biofilms in chronic wound healing',
+      domain: ['microbiology', 'dermatology'],
+      complexity_level: 'intermediate',
+      expected_depth: 'detailed',
+      interdisciplinary: true,
+      seed: 20240611
+    };
+    const seededProfile = { identity: 'Test', experience: 'Test', research_focus: [], methodologies: [], philosophy: 'Test' };
+
+    // Temporal decay depends on the milliseconds between node creation and decay, so compare to 6 places
+    const rounded = (confidence: ConfidenceVector) =>
+      Object.fromEntries(Object.entries(confidence).map(([key, value]) => [key, Number(value.toFixed(6))]));
+    const graphShape = (state: any) => ({
+      nodes: Array.from(state.vertices.values()).map((node: any) => ({
+        id: node.id,
+        type: node.metadata.type,
+        confidence: rounded(node.metadata.confidence),
+        impact: node.metadata.impact_score
+      })),
+      edges: Array.from(state.edges.values()).map((edge: any) => `${edge.id}:${edge.source}->${edge.target}`)
+    });
+
+    test('should draw reproducible numbers and ids from a seed', () => {
+      const first = new SeededRandom(42);
+      const second = new SeededRandom(42);
+      const values = Array.from({ length: 5 }, () => first.next());
+
+      expect(Array.from({ length: 5 }, () => second.next())).toEqual(values);
+      values.forEach(value => expect(value >= 0 && value < 1).toBe(true));
+      expect(new SeededRandom(43).next()).not.toBe(values[0]);
+      expect(new SeededRandom(7).uuid()).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+      expect(SeededRandom.derive(42, 1)).not.toBe(SeededRandom.derive(42, 2));
+    });
+
+    test('should build the same graph for the same query and seed', async () => {
+      const firstRun = new ASRGoTPipeline();
+      const secondRun = new ASRGoTPipeline();
+      const first = await firstRun.executeComplete(seededQuery, seededProfile);
+      const second = await secondRun.executeComplete(seededQuery, seededProfile);
+
+      expect(first.seed).toBe(20240611);
+      expect(graphShape(secondRun.getGraph().getState())).toEqual(graphShape(firstRun.getGraph().getState()));
+      expect(second.stage_results.map(result => result.nodes_created)).toEqual(first.stage_results.map(result => result.nodes_created));
+
+      const otherSeed = new ASRGoTPipeline();
+      await otherSeed.executeComplete({ ...seededQuery, seed: 1 }, seededProfile);
+      expect(graphShape(otherSeed.getGraph().getState())).not.toEqual(graphShape(firstRun.getGraph().getState()));
+    });
+
+    test('should record a random seed and replay a re-run stage exactly', async () => {
+      const { seed: _seed, ...unseeded } = seededQuery;
+      const context = await pipeline.executeComplete(unseeded, seededProfile);
+      expect(Number.isInteger(context.seed)).toBe(true);
+
+      const graph = pipeline.getGraph();
+      const finalShape = graphShape(graph.getState());
+      const afterThree = graphShape(context.checkpoints![3].graph_state);
+      pipeline.restoreCheckpoint(context, 2);
+      await pipeline.runStages(context, unseeded, 3, 3);
+      expect(graphShape(graph.getState())).toEqual(afterThree);
+
+      const replay = new ASRGoTPipeline();
+      await replay.executeComplete({ ...unseeded, seed: context.seed }, seededProfile);
+      expect(graphShape(replay.getGraph().getState())).toEqual(finalShape);
+    });
+  });
+
+  describe('Cancellation', () => {
+    const cancelQuery: ResearchQuery = {
+      query: 'Itch signalling in atopic dermatitis',
+      domain: ['immunology', 'neuroscience'],
+      complexity_level: 'basic',
+      expected_depth: 'overview',
+      interdisciplinary: false,
+      seed: 11
+    };
+    const cancelProfile = { identity: 'Test', experience: 'Test', research_focus: [], methodologies: [], philosophy: 'Test' };
+
+    const reviewNode = (id: string): NodeMetadata => ({
+      node_id: id,
+      label: 'Expert review',
+      type: NodeType.EVIDENCE,
+      timestamp: new Date(),
+      provenance: 'Expert review',
+      confidence: { empirical_support: 0.8, theoretical_basis: 0.8, methodological_rigor: 0.8, consensus_alignment: 0.8 },
+      epistemic_status: 'evidential',
+      disciplinary_tags: ['review'],
+      bias_flags: [],
+      revision_history: [],
+      impact_score: 0.8
+    });
+
+    test('should not start any stage once the signal is aborted', async () => {
+      const controller = new AbortController();
+      controller.abort(new Error('Stopped before start'));
+
+      const context = await pipeline.executeComplete(cancelQuery, cancelProfile, { signal: controller.signal });
+
+      expect(pipeline.getGraph().getNodeCount()).toBe(0);
+      expect(context.current_stage).toBe(0);
+      expect(context.cancellation).toMatchObject({ stage: 1, reason: 'Stopped before start' });
+      expect(context.stage_results).toHaveLength(1);
+      expect(context.stage_results[0].errors).toEqual(['Stage 1 cancelled: Stopped before start']);
+    });
+
+    test('should roll back the interrupted stage, keep earlier ones and resume', async () => {
+      const controller = new AbortController();
+      let attempts = 0;
+      const cancelling = new ASRGoTPipeline(new ASRGoTGraph(), {
+        stages: defaults => [
+          ...defaults.slice(0, 2),
+          {
+            name: 'Slow Review',
+            execute: (context, stageGraph, run) => {
+              attempts++;
+              run.result.nodes_created.push(stageGraph.addNode(reviewNode(`review-${attempts}`)));
+              if (attempts === 1) controller.abort(new Error('Reviewer left'));
+              run.signal.throwIfAborted();
+            }
+          },
+          ...defaults.slice(2)
+        ]
+      });
+
+      const context = await cancelling.executeComplete(cancelQuery, cancelProfile, { signal: controller.signal });
+      const graph = cancelling.getGraph();
+
+      expect(attempts).toBe(1);
+      expect(context.cancellation).toMatchObject({ stage: 3, reason: 'Reviewer left' });
+      expect(context.current_stage).toBe(2);
+      expect(context.stage_results.map(result => `${result.stage}:${result.success}`)).toEqual(['1:true', '2:true', '3:false']);
+      expect(graph.getNode('review-1')).toBeUndefined();
+      expect(graph.getNodeCount()).toBe(context.checkpoints![2].graph_state.vertices.size);
+      expect(context.graph_state.vertices.size).toBe(graph.getNodeCount());
+
+      await cancelling.runStages(context, cancelQuery, context.current_stage + 1);
+      expect(context.cancellation).toBeUndefined();
+      expect(context.current_stage).toBe(9);
+      expect(context.stage_results[2]).toMatchObject({ stage: 3, success: true, nodes_created: ['review-2'] });
+    });
+
+    test('should stop a run that exceeds its time budget', async () => {
+      const slow = new ASRGoTPipeline(new ASRGoTGraph(), {
+        stages: [{
+          name: 'Slow Search',
+          execute: async (context, stageGraph, run) => {
+            await new Promise(resolve => setTimeout(resolve, 50));
+            run.signal.throwIfAborted();
+          }
+        }]
+      });
+      const context = await slow.executeComplete(cancelQuery, cancelProfile);
+      expect(context.cancellation).toBeUndefined();
+
+      context.computational_budget.max_execution_time_ms = 10;
+      await slow.runStages(context, cancelQuery, 1);
+
+      expect(context.cancellation).toMatchObject({ stage: 1, reason: 'Execution time budget of 10 ms exceeded' });
+      expect(context.stage_results).toHaveLength(1);
+      expect(context.stage_results[0].success).toBe(false);
+    });
+
+    test('should hold off manual edits while a context is running stages', async () => {
+      const runs = new AnalysisRunRegistry();
+      const run = runs.begin('ctx-run');
+
+      expect(runs.isRunning('ctx-run')).toBe(true);
+      expect(() => runs.assertIdle('ctx-run')).toThrow('Context ctx-run is running pipeline stages');
+      expect(() => runs.begin('ctx-run')).toThrow('already running pipeline stages');
+      expect(() => runs.assertIdle('ctx-other')).not.toThrow();
+
+      const cancelled = runs.cancel('ctx-run', 'Stopped by user');
+      expect(run.signal.aborted).toBe(true);
+      expect((run.signal.reason as Error).message).toBe('Stopped by user');
+      run.end();
+
+      expect(await cancelled).toBe(true);
+      expect(runs.isRunning('ctx-run')).toBe(false);
+      expect(() => runs.assertIdle('ctx-run')).not.toThrow();
+      expect(await runs.cancel('ctx-run', 'Again')).toBe(false);
+    });
+  });
+
+  describe('Computational Budget', () => {
+    const budgetQuery: ResearchQuery = {
+      query: 'Vitamin D and psoriasis severity',
+      domain: ['dermatology', 'nutrition'],
+      complexity_level: 'basic',
+      expected_depth: 'overview',
+      interdisciplinary: true,
+      seed: 5
+    };
+    const budgetProfile = { identity: 'Test', experience: 'Test', research_focus: [], methodologies: [], philosophy: 'Test' };
+
+    const budgetNode = (id: string): NodeMetadata => ({
+      node_id: id,
+      label: `Budget node ${id}`,
+      type: NodeType.HYPOTHESIS,
+      timestamp: new Date(),
+      provenance: 'Test',
+      confidence: { empirical_support: 0.6, theoretical_basis: 0.6, methodological_rigor: 0.6, consensus_alignment: 0.6 },
+      epistemic_status: 'hypothetical',
+      disciplinary_tags: ['budget'],
+      bias_flags: [],
+      revision_history: [],
+      impact_score: 0.6
+    });
+    const budgetEdge = (id: string): EdgeMetadata => ({
+      edge_id: id,
+      edge_type: EdgeType.SUPPORTIVE,
+      confidence: { empirical_support: 0.6, theoretical_basis: 0.6, methodological_rigor: 0.6, consensus_alignment: 0.6 },
+      timestamp: new Date()
+    });
+
+    test('should reject growth past the node and edge caps but allow shrinking', () => {
+      graph.setBudget({ max_nodes: 2, max_edges: 1 });
+      graph.addNode(budgetNode('a'));
+      graph.addNode(budgetNode('b'));
+      graph.addEdge('a', 'b', budgetEdge('a-b'));
+
+      expect(graph.getRemainingBudget()).toEqual({ nodes: 0, edges: 0 });
+      expect(() => graph.addNode(budgetNode('c'))).toThrow('Node budget exceeded: 3 nodes, max_nodes is 2');
+      expect(() => graph.addEdge('b', 'a', budgetEdge('b-a'))).toThrow('Edge budget exceeded: 2 edges, max_edges is 1');
+      expect(graph.getNode('c')).toBeUndefined();
+      expect(graph.getEdgeCount()).toBe(1);
+
+      // A merge adds its node before removing the originals; only the net effect counts
+      expect(graph.mergeNodes('a', 'b', 1)).not.toBeNull();
+      expect(graph.getNodeCount()).toBe(1);
+
+      graph.setBudget();
+      expect(graph.getRemainingBudget()).toEqual({ nodes: Infinity, edges: Infinity });
+    });
+
+    test('should generate fewer hypotheses and less evidence when the budget runs short', async () => {
+      const context = await pipeline.executeComplete(budgetQuery, budgetProfile);
+      const afterDecomposition = context.checkpoints![2].graph_state;
+      context.computational_budget = {
+        ...context.computational_budget,
+        max_nodes: afterDecomposition.vertices.size + 4,
+        max_edges: afterDecomposition.edges.size + 10
+      };
+
+      pipeline.restoreCheckpoint(context, 2);
+      await pipeline.runStages(context, budgetQuery, 3);
+
+      const [hypotheses, evidence] = context.stage_results.slice(2, 4);
+      expect(hypotheses.degradations).toEqual([expect.objectContaining({ action: 'limit_hypotheses', allowed: 4 })]);
+      expect(hypotheses.nodes_created).toHaveLength(4);
+      expect(hypotheses.warnings).toContainEqual(expect.stringMatching(/^Budget degradation \[limit_hypotheses\]: planned \d+, allowed 4/));
+      expect(evidence.degradations!.map(degradation => degradation.action)).toEqual(['limit_evidence', 'skip_ibn_checks']);
+      expect(evidence.degradations![0].allowed).toBe(0);
+      expect(pipeline.getGraph().getNodeCount()).toBeLessThanOrEqual(context.computational_budget.max_nodes);
+      expect(context.stage_results.every(result => result.success)).toBe(true);
+    });
+
+    test('should sample merge comparisons and skip global centrality past their limits', async () => {
+      const context = await pipeline.executeComplete(budgetQuery, budgetProfile);
+      context.computational_budget = { ...context.computational_budget, max_pairwise_comparisons: 10, max_topology_cost: 1 };
+
+      pipeline.restoreCheckpoint(context, 4);
+      await pipeline.runStages(context, budgetQuery, 5, 6);
+
+      const [merging, extraction] = context.stage_results.slice(4, 6);
+      expect(merging.degradations).toEqual([expect.objectContaining({ action: 'sample_comparisons', allowed: 10 })]);
+      expect(extraction.degradations).toEqual([expect.objectContaining({ action: 'local_topology_only', allowed: 1 })]);
+      expect(Array.from(pipeline.getGraph().getState().vertices.values())
+        .every(node => node.metadata.topology_metrics?.pagerank === undefined)).toBe(true);
+    });
+
+    test('should take budget limits from the run options', async () => {
+      const context = await pipeline.executeComplete(budgetQuery, budgetProfile, { budget: { max_pairwise_comparisons: 10 } });
+      expect(context.computational_budget).toEqual({ ...DEFAULT_COMPUTATIONAL_BUDGET, max_pairwise_comparisons: 10 });
+      expect(context.stage_results[4].degradations).toEqual([expect.objectContaining({ action: 'sample_comparisons', allowed: 10 })]);
+
+      // Later runs keep the stored limits and replace only those given
+      await pipeline.runStages(context, budgetQuery, 6, 6, { budget: { max_topology_cost: 1 } });
+      expect(context.computational_budget).toMatchObject({ max_pairwise_comparisons: 10, max_topology_cost: 1, max_nodes: 1000 });
+      expect(context.stage_results[5].degradations).toEqual([expect.objectContaining({ action: 'local_topology_only' })]);
+
+      expect(ComputationalBudgetSchema.partial().safeParse({ max_nodes: 5000 }).success).toBe(true);
+      expect(ComputationalBudgetSchema.partial().safeParse({ max_nodes: 0 }).success).toBe(false);
+      expect(ComputationalBudgetSchema.partial().safeParse({ max_nodes: 10.5 }).success).toBe(false);
+      expect(ComputationalBudgetSchema.partial().safeParse({ max_vertices: 10 }).success).toBe(false);
+    });
+
+    test('should report a graph that starts over budget once and add nothing to it', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      for (let i = 0; i < 6; i++) {
+        graph.addNode(budgetNode(`over-${i}`));
+      }
+      const overBudget = new ASRGoTPipeline(graph);
+
+      const context = await overBudget.executeFromStage(1, budgetQuery, budgetProfile, { budget: { max_nodes: 4 } });
+
+      expect(context.budget_overrun).toMatchObject({ stage: 1, nodes: 6, max_nodes: 4, edges: 0, max_edges: 5000 });
+      expect(context.fail_safe_active).toBe(false);
+      expect(context.stage_results).toHaveLength(8);
+      expect(context.stage_results.every(result => result.success && result.errors.length === 0)).toBe(true);
+      expect(context.stage_results[0].degradations).toEqual([expect.objectContaining({ action: 'skip_root', allowed: 0 })]);
+      expect(context.stage_results[1].degradations).toEqual([expect.objectContaining({ action: 'limit_dimensions', planned: 7, allowed: 0 })]);
+      expect(graph.getNodeCount()).toBeLessThanOrEqual(6);
+
+      // Within budget again, the next run clears the report
+      await overBudget.runStages(context, budgetQuery, 1, 1, { budget: { max_nodes: 100 } });
+      expect(context.budget_overrun).toBeUndefined();
+      expect(context.stage_results[0].degradations).toBeUndefined();
+      errorSpy.mockRestore();
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('Context Isolation', () => {
+    test('should give each pipeline its own graph', async () => {
+      const query: ResearchQuery = {
+        query: 'How does the skin microbiome modulate cutaneous inflammation?',
+        domain: ['immunology'],
+        complexity_level: 'basic',
+        expected_depth: 'overview',
+        interdisciplinary: false
+      };
+
+      const userProfile = {
+        identity: 'Test',
+        experience: 'Test',
+        research_focus: ['test'],
+        methodologies: ['test'],
+        philosophy: 'Test'
+      };
+
+      const firstPipeline = new ASRGoTPipeline();
+      const secondPipeline = new ASRGoTPipeline();
+
+      const firstContext = await firstPipeline.executeComplete(query, userProfile);
+      const firstNodeCount = firstPipeline.getGraph().getNodeCount();
+      await secondPipeline.executeComplete(query, userProfile);
+
+      expect(firstPipeline.getGraph()).not.toBe(secondPipeline.getGraph());
+      expect(firstPipeline.getGraph().getNodeCount()).toBe(firstNodeCount);
+      expect(firstContext.graph_state.vertices.size).toBe(firstNodeCount);
+    });
+
+    test('should run the pipeline against a supplied graph', async () => {
+      const ownGraph = new ASRGoTGraph();
+      const ownPipeline = new ASRGoTPipeline(ownGraph);
+
+      expect(ownPipeline.getGraph()).toBe(ownGraph);
+    });
+  });
+
+  describe('Context Persistence', () => {
+    test('should round-trip a context through the JSON-lines store', async () => {
+      const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'asr-got-store-'));
+      const store = new JsonlContextStore(path.join(directory, 'contexts.jsonl'));
+
+      const query: ResearchQuery = {
+        query: 'Which cytokines drive pruritus in atopic dermatitis?',
+        domain: ['immunology', 'dermatology'],
+        complexity_level: 'basic',
+        expected_depth: 'overview',
+        interdisciplinary: true
+      };
+
+      const context = await pipeline.executeComplete(query, {
+        identity: 'Test',
+        experience: 'Test',
+        research_focus: ['test'],
+        methodologies: ['test'],
+        philosophy: 'Test'
+      });
+
+      try {
+        await store.save('ctx-1', context);
+        const reloaded = await store.load('ctx-1');
+
+        expect(reloaded).toBeDefined();
+        expect(reloaded!.graph_state.vertices).toBeInstanceOf(Map);
+        expect(reloaded!.graph_state.vertices.size).toBe(context.graph_state.vertices.size);
+        expect(reloaded!.graph_state.edges.size).toBe(context.graph_state.edges.size);
+        expect(reloaded!.graph_state.layers.get('root')).toEqual(context.graph_state.layers.get('root'));
+        expect(reloaded!.stage_results).toHaveLength(8);
+        expect((reloaded as any).final_narrative).toBe((context as any).final_narrative);
+
+        const [firstNode] = reloaded!.graph_state.vertices.values();
+        expect(firstNode.metadata.timestamp).toBeInstanceOf(Date);
+
+        const restoredGraph = ASRGoTGraph.fromState(reloaded!.graph_state);
+        expect(restoredGraph.getNodeCount()).toBe(context.graph_state.vertices.size);
+
+        expect(await store.delete('ctx-1')).toBe(true);
+        expect(await store.load('ctx-1')).toBeUndefined();
+      } finally {
+        await fs.rm(directory, { recursive: true, force: true });
+      }
+    });
+
+    test('should keep a reloaded context and its rebuilt graph in step through edits and saves', async () => {
+      const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'asr-got-store-'));
+      const store = new JsonlContextStore(path.join(directory, 'contexts.jsonl'));
+
+      const context = await pipeline.executeComplete({
+        query: 'Sebum composition and acne severity',
+        domain: ['dermatology'],
+        complexity_level: 'basic',
+        expected_depth: 'overview',
+        interdisciplinary: false
+      }, { identity: 'Test', experience: 'Test', research_focus: [], methodologies: [], philosophy: 'Test' });
+
+      try {
+        await store.save('ctx-1', context);
+        const reloaded = (await store.load('ctx-1'))!;
+        const reloadedGraph = ASRGoTPipeline.fromContext(reloaded).getGraph();
+        const rootId = Array.from(reloaded.graph_state.vertices.values()).find(node => node.metadata.type === NodeType.ROOT)!.id;
+        expect(reloaded.graph_state.vertices).toBe(reloadedGraph.getState().vertices);
+
+        reloadedGraph.updateNodeMetadata(rootId, { label: 'Edited after reload' }, 'curator');
+        expect(reloaded.graph_state.vertices.get(rootId)!.metadata.label).toBe('Edited after reload');
+        expect(reloaded.graph_state.metadata_function.get(rootId)!.label).toBe('Edited after reload');
+
+        reloaded.graph_state.metadata_function.get(rootId)!.impact_score = 0.42;
+        expect(reloadedGraph.getNode(rootId)!.metadata.impact_score).toBe(0.42);
+
+        await store.save('ctx-1', reloaded);
+        const again = (await store.load('ctx-1'))!;
+        expect(again.graph_state.vertices.get(rootId)!.metadata).toMatchObject({ label: 'Edited after reload', impact_score: 0.42 });
+        expect(again.graph_state.vertices.size).toBe(context.graph_state.vertices.size);
+      } finally {
+        await fs.rm(directory, { recursive: true, force: true });
+      }
+    });
+
+    test('should compact the JSON-lines file on open and after every few appends', async () => {
+      const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'asr-got-store-'));
+      const filePath = path.join(directory, 'contexts.jsonl');
+      const countLines = async () => (await fs.readFile(filePath, 'utf8')).split('\n').filter(line => line.trim()).length;
+
+      const context: any = { task_query: 'Store growth', stage_results: [], graph_state: graph.getState() };
+
+      try {
+        const store = new JsonlContextStore(filePath, { compactEvery: 4 });
+        await Promise.all(Array.from({ length: 10 }, (_, i) => store.save(`ctx-${i % 2}`, context)));
+
+        // 10 appends with a compaction after the 4th and 8th leave the 2 live records plus 2 newer lines
+        expect(await countLines()).toBe(4);
+        expect((await store.list()).sort()).toEqual(['ctx-0', 'ctx-1']);
+
+        const reopened = new JsonlContextStore(filePath);
+        expect((await reopened.load('ctx-1'))!.task_query).toBe('Store growth');
+        expect(await countLines()).toBe(2);
+      } finally {
+        await fs.rm(directory, { recursive: true, force: true });
+      }
+    });
+
+    test('should serve loads, listings and deletes from its line index once open', async () => {
+      const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'asr-got-store-'));
+      const filePath = path.join(directory, 'contexts.jsonl');
+      const context: any = { task_query: 'Indexed lines', stage_results: [], graph_state: graph.getState() };
+
+      try {
+        const store = new JsonlContextStore(filePath, { compactEvery: 3 });
+        await store.save('ctx-0', { ...context, task_query: 'First ü' });
+        await store.save('ctx-1', context);
+
+        const readSpy = jest.spyOn(fs, 'readFile');
+        try {
+          expect((await store.load('ctx-0'))!.task_query).toBe('First ü');
+          expect((await store.list()).sort()).toEqual(['ctx-0', 'ctx-1']);
+          // The delete is the third append, so it also compacts the file from the index
+          expect(await store.delete('ctx-0')).toBe(true);
+          await store.save('ctx-1', { ...context, task_query: 'Saved again' });
+          expect(await store.load('ctx-0')).toBeUndefined();
+          expect((await store.load('ctx-1'))!.task_query).toBe('Saved again');
+          expect(readSpy).not.toHaveBeenCalled();
+        } finally {
+          readSpy.mockRestore();
+        }
+
+        expect((await new JsonlContextStore(filePath).list())).toEqual(['ctx-1']);
+      } finally {
+        await fs.rm(directory, { recursive: true, force: true });
+      }
+    });
+
+    test('should store each checkpoint and snapshot once rather than with every save', async () => {
+      const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'asr-got-store-'));
+      const filePath = path.join(directory, 'contexts.jsonl');
+      const readRecords = async () => (await fs.readFile(filePath, 'utf8')).split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+
+      const context = await pipeline.executeComplete({
+        query: 'Barrier repair after tape stripping',
+        domain: ['dermatology'],
+        complexity_level: 'basic',
+        expected_depth: 'overview',
+        interdisciplinary: false
+      }, { identity: 'Test', experience: 'Test', research_focus: [], methodologies: [], philosophy: 'Test' });
+      context.snapshots = [{
+        name: 'baseline',
+        created_at: new Date(),
+        graph_state: context.graph_state,
+        stage_results: context.stage_results,
+        fail_safe_active: false
+      }];
+
+      try {
+        const store = new JsonlContextStore(filePath);
+        await store.save('ctx-1', context);
+        expect(await readRecords()).toHaveLength(11); // 9 checkpoints, 1 snapshot and the context
+
+        await store.save('ctx-1', context);
+        await pipeline.runStages(context, context.research_query!, 8);
+        await store.save('ctx-1', context);
+
+        const records = await readRecords();
+        // The second save wrote only the context; the third added the new checkpoint after stage 8
+        expect(records).toHaveLength(14);
+        expect(records.filter(record => record.copy)).toHaveLength(11);
+        expect(records[records.length - 1].context.checkpoints).toBeUndefined();
+
+        const reloaded = (await new JsonlContextStore(filePath).load('ctx-1'))!;
+        expect(reloaded.checkpoints!.map(checkpoint => checkpoint.stage)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8]);
+        expect(reloaded.checkpoints![8]).toMatchObject({ stage_name: context.checkpoints![8].stage_name });
+        expect(reloaded.snapshots!.map(snapshot => snapshot.name)).toEqual(['baseline']);
+        expect(reloaded.snapshots![0].graph_state.vertices).toBeInstanceOf(Map);
+        expect(reloaded.snapshots![0].graph_state.vertices.size).toBe(context.graph_state.vertices.size);
+        // Reopening dropped the stale checkpoint after stage 8 and the two older context lines
+        expect(await readRecords()).toHaveLength(11);
+
+        const memory = new InMemoryContextStore();
+        await memory.save('ctx-1', context);
+        const fromMemory = (await memory.load('ctx-1'))!;
+        expect(fromMemory.checkpoints).toHaveLength(9);
+        expect(fromMemory.snapshots![0].graph_state.vertices.size).toBe(context.graph_state.vertices.size);
+      } finally {
+        await fs.rm(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('Graph Serialization', () => {
+    test('should round-trip a graph through the versioned envelope', async () => {
+      const query: ResearchQuery = {
+        query: 'Does UV exposure alter Langerhans cell migration?',
+        domain: ['immunology', 'photobiology'],
+        complexity_level: 'basic',
+        expected_depth: 'overview',
+        interdisciplinary: true
+      };
+      await pipeline.executeComplete(query, {
+        identity: 'Test',
+        experience: 'Test',
+        research_focus: ['test'],
+        methodologies: ['test'],
+        philosophy: 'Test'
+      });
+      const original = pipeline.getGraph();
+
+      const text = JSON.stringify(original);
+      const envelope = JSON.parse(text);
+      expect(envelope.format).toBe('asr-got-graph');
+      expect(envelope.version).toBe(1);
+
+      const restored = ASRGoTGraph.fromJSON(text);
+      const originalState = original.getState();
+      const restoredState = restored.getState();
+
+      expect(restored.getNodeCount()).toBe(original.getNodeCount());
+      expect(restored.getEdgeCount()).toBe(original.getEdgeCount());
+      expect(restoredState.node_types).toEqual(originalState.node_types);
+      expect(restoredState.confidence_function).toEqual(originalState.confidence_function);
+      expect(restoredState.layers.get('decomposition')).toEqual(originalState.layers.get('decomposition'));
+
+      const [firstNode] = restoredState.vertices.values();
+      expect(firstNode.metadata.timestamp).toBeInstanceOf(Date);
+      expect(restoredState.metadata_function.get(firstNode.id)).toBe(firstNode.metadata);
+      expect(JSON.stringify(restored.toJSON().graph)).toBe(JSON.stringify(original.toJSON().graph));
+    });
+
+    test('should reject invalid records and unknown versions', () => {
+      graph.addNode({
+        node_id: 'serial-1',
+        label: 'Serializable Node',
+        type: NodeType.HYPOTHESIS,
+        timestamp: new Date(),
+        provenance: 'Test',
+        confidence: { empirical_support: 0.5, theoretical_basis: 0.5, methodological_rigor: 0.5, consensus_alignment: 0.5 },
+        epistemic_status: 'test',
+        disciplinary_tags: ['test'],
+        bias_flags: [],
+        revision_history: [],
+        impact_score: 0.5
+      });
+
+      const envelope = graph.toJSON();
+      expect(() => ASRGoTGraph.fromJSON({ ...envelope, version: 99 })).toThrow('Unsupported');
+
+      envelope.graph.nodes[0].metadata.confidence.empirical_support = 1.5;
+      expect(() => ASRGoTGraph.fromJSON(envelope)).toThrow('Invalid node serial-1');
+    });
+
+    test('should reject hyperedges without two existing distinct members', () => {
+      for (const id of ['serial-1', 'serial-2']) {
+        graph.addNode({
+          node_id: id,
+          label: id,
+          type: NodeType.EVIDENCE,
+          timestamp: new Date(),
+          provenance: 'Test',
+          confidence: { empirical_support: 0.5, theoretical_basis: 0.5, methodological_rigor: 0.5, consensus_alignment: 0.5 },
+          epistemic_status: 'test',
+          disciplinary_tags: ['test'],
+          bias_flags: [],
+          revision_history: [],
+          impact_score: 0.5
+        });
+      }
+      graph.addHyperedge(['serial-1', 'serial-2'], {
+        edge_id: 'joint',
+        edge_type: EdgeType.SUPPORTIVE,
+        confidence: { empirical_support: 0.5, theoretical_basis: 0.5, methodological_rigor: 0.5, consensus_alignment: 0.5 },
+        timestamp: new Date()
+      });
+
+      const withMembers = (nodes: unknown) => {
+        const envelope = graph.toJSON();
+        (envelope.graph.hyperedges[0] as any).nodes = nodes;
+        return envelope;
+      };
+      expect(ASRGoTGraph.fromJSON(withMembers(['serial-1', 'serial-2'])).getHyperedge('joint')).toBeDefined();
+      expect(() => ASRGoTGraph.fromJSON(withMembers(['serial-1', 'ghost']))).toThrow('Hyperedge joint references missing nodes: ghost');
+      expect(() => ASRGoTGraph.fromJSON(withMembers(['serial-1', 'serial-1']))).toThrow('at least two distinct nodes');
+      expect(() => ASRGoTGraph.fromJSON(withMembers(undefined))).toThrow('Hyperedge joint has no nodes array');
+    });
+  });
+
+  describe('Graph Export', () => {
+    const makeNode = (id: string, type: NodeType): NodeMetadata => ({
+      node_id: id,
+      label: `Node "${id}"`,
+      type,
+      timestamp: new Date(),
+      provenance: 'Test',
+      confidence: { empirical_support: 0.6, theoretical_basis: 0.5, methodological_rigor: 0.7, consensus_alignment: 0.4 },
+      epistemic_status: 'test',
+      disciplinary_tags: ['immunology'],
+      bias_flags: [],
+      revision_history: [],
+      impact_score: 0.5,
+      layer_id: 'export-layer'
+    });
+
+    const buildExportable = () => {
+      graph.addNode(makeNode('exp-hyp', NodeType.HYPOTHESIS));
+      graph.addNode(makeNode('exp-ev-1', NodeType.EVIDENCE));
+      graph.addNode(makeNode('exp-ev-2', NodeType.EVIDENCE));
+      graph.addEdge('exp-ev-1', 'exp-hyp', {
+        edge_id: 'exp-edge-1',
+        edge_type: EdgeType.CAUSAL,
+        confidence: { empirical_support: 0.8, theoretical_basis: 0.7, methodological_rigor: 0.6, consensus_alignment: 0.5 },
+        timestamp: new Date(),
+        causal_metadata: { confounders: ['age'], mechanism: 'IL-17 signalling', strength: 0.7 }
+      });
+      graph.addHyperedge(['exp-ev-1', 'exp-ev-2', 'exp-hyp'], {
+        edge_id: 'exp-hyper-1',
+        edge_type: EdgeType.SUPPORTIVE,
+        confidence: { empirical_support: 0.7, theoretical_basis: 0.7, methodological_rigor: 0.7, consensus_alignment: 0.7 },
+        timestamp: new Date()
+      });
+
+      const state = graph.getState();
+      return {
+        nodes: Array.from(state.vertices.values()),
+        edges: Array.from(state.edges.values()),
+        hyperedges: Array.from(state.hyperedges.values())
+      };
+    };
+
+    test('should keep hyperedges native in GraphML with confidence and causal attributes', () => {
+      const graphml = new GraphExporter().export(buildExportable(), 'graphml');
+
+      expect(graphml).toContain('<hyperedge id="exp-hyper-1">');
+      expect(graphml).toContain('<endpoint node="exp-ev-2"/>');
+      expect(graphml).toContain('<data key="n_methodological_rigor">0.7</data>');
+      expect(graphml).toContain('<data key="e_causal_mechanism">IL-17 signalling</data>');
+      expect(graphml).toContain('Node &quot;exp-hyp&quot;');
+    });
+
+    test('should star-expand hyperedges in formats without native support', () => {
+      const exporter = new GraphExporter();
+      const exportable = buildExportable();
+
+      const cytoscape = JSON.parse(exporter.export(exportable, 'cytoscape'));
+      const helper = cytoscape.elements.nodes.find((node: any) => node.data.hyperedge_helper);
+      expect(helper.data.id).toBe('hyperedge:exp-hyper-1');
+      expect(cytoscape.elements.edges.filter((edge: any) => edge.data.source === helper.data.id)).toHaveLength(3);
+      expect(cytoscape.elements.edges.find((edge: any) => edge.data.id === 'exp-edge-1').data.causal_strength).toBe(0.7);
+
+      const dot = exporter.export(exportable, 'dot');
+      expect(dot.startsWith('digraph asr_got {')).toBe(true);
+      expect(dot).toContain('"hyperedge:exp-hyper-1" [label="", shape="point"');
+
+      const gexf = exporter.export(exportable, 'gexf');
+      expect(gexf).toContain('<node id="hyperedge:exp-hyper-1"');
+
+      const mermaid = exporter.export(exportable, 'mermaid');
+      expect(mermaid.startsWith('graph TD')).toBe(true);
+      expect(mermaid).toContain('-->|causal|');
+      expect(mermaid).toContain('-.-');
+    });
+  });
+
+  describe('Graph Import', () => {
+    const seedGraph = () => {
+      const node = (id: string, type: NodeType): NodeMetadata => ({
+        node_id: id,
+        label: `Imported ${id}`,
+        type,
+        timestamp: new Date(),
+        provenance: 'Previous project',
+        confidence: { empirical_support: 0.6, theoretical_basis: 0.5, methodological_rigor: 0.7, consensus_alignment: 0.4 },
+        epistemic_status: 'hypothesis',
+        disciplinary_tags: ['immunology', 'dermatology'],
+        bias_flags: [],
+        revision_history: [],
+        impact_score: 0.6,
+        layer_id: 'import-layer'
+      });
+
+      graph.addNode(node('imp-root', NodeType.ROOT));
+      graph.addNode(node('imp-hyp', NodeType.HYPOTHESIS));
+      graph.addNode(node('imp-ev', NodeType.EVIDENCE));
+      graph.addEdge('imp-ev', 'imp-hyp', {
+        edge_id: 'imp-edge',
+        edge_type: EdgeType.CAUSAL,
+        confidence: { empirical_support: 0.8, theoretical_basis: 0.7, methodological_rigor: 0.6, consensus_alignment: 0.5 },
+        timestamp: new Date(),
+        causal_metadata: { confounders: ['age', 'sex'], mechanism: 'IL-17 signalling', strength: 0.7 }
+      });
+      graph.addHyperedge(['imp-root', 'imp-hyp', 'imp-ev'], {
+        edge_id: 'imp-hyper',
+        edge_type: EdgeType.SUPPORTIVE,
+        confidence: { empirical_support: 0.7, theoretical_basis: 0.7, methodological_rigor: 0.7, consensus_alignment: 0.7 },
+        timestamp: new Date()
+      });
+
+      const state = graph.getState();
+      return {
+        nodes: Array.from(state.vertices.values()),
+        edges: Array.from(state.edges.values()),
+        hyperedges: Array.from(state.hyperedges.values())
+      };
+    };
+
+    test.each(['graphml', 'cytoscape'] as const)('should round-trip an exported %s graph', (format) => {
+      const document = new GraphExporter().export(seedGraph(), format);
+      const { graph: imported, report } = new GraphImporter(validator).import(document, format);
+
+      expect(report.rejected).toEqual([]);
+      expect(report.nodes_imported).toBe(3);
+      expect(report.edges_imported).toBe(1);
+      expect(report.hyperedges_imported).toBe(1);
+
+      const hypothesis = imported.getNode('imp-hyp')!;
+      expect(hypothesis.metadata.type).toBe(NodeType.HYPOTHESIS);
+      expect(hypothesis.metadata.confidence.methodological_rigor).toBe(0.7);
+      expect(hypothesis.metadata.disciplinary_tags).toEqual(['immunology', 'dermatology']);
+      expect(hypothesis.metadata.layer_id).toBe('import-layer');
+
+      const edge = imported.getEdge('imp-edge')!;
+      expect(edge.metadata.edge_type).toBe(EdgeType.CAUSAL);
+      expect(edge.metadata.causal_metadata).toEqual({ confounders: ['age', 'sex'], mechanism: 'IL-17 signalling', strength: 0.7 });
+      expect(imported.getState().hyperedges.get('imp-hyper')!.nodes).toEqual(['imp-root', 'imp-hyp', 'imp-ev']);
+    });
+
+    test('should import the native serialized format', () => {
+      seedGraph();
+      const { graph: imported, report } = new GraphImporter(validator).import(JSON.stringify(graph.toJSON()), 'native');
+
+      expect(report.nodes_imported).toBe(3);
+      expect(imported.getNode('imp-ev')!.metadata.provenance).toBe('Previous project');
+      expect(imported.getNode('imp-ev')!.metadata.timestamp).toBeInstanceOf(Date);
+    });
+
+    test('should repair fixable records and reject the rest with their edges', () => {
+      const document = JSON.stringify({
+        elements: {
+          nodes: [
+            { data: { id: 'a', type: 'hypothesis', empirical_support: 1.7, impact_score: 3 } },
+            { data: { id: 'b', label: 'No type' } },
+            { data: { id: 'c', label: 'Evidence', type: 'evidence' } }
+          ],
+          edges: [
+            { data: { id: 'a-c', source: 'c', target: 'a', edge_type: 'supportive' } },
+            { data: { id: 'a-b', source: 'b', target: 'a', edge_type: 'supportive' } }
+          ]
+        }
+      });
+
+      const { graph: imported, report } = new GraphImporter(validator).import(document, 'cytoscape');
+
+      expect(report.nodes_imported).toBe(2);
+      expect(report.edges_imported).toBe(1);
+      expect(report.repaired.map(record => record.id)).toEqual(expect.arrayContaining(['a', 'c', 'a-c']));
+      expect(report.rejected.map(record => record.id)).toEqual(['b', 'a-b']);
+
+      const repaired = imported.getNode('a')!.metadata;
+      expect(repaired.label).toBe('a');
+      expect(repaired.impact_score).toBe(1);
+      expect(repaired.confidence.empirical_support).toBe(1);
+    });
+
+    test('should continue the pipeline from a chosen stage on an imported graph', async () => {
+      const document = new GraphExporter().export(seedGraph(), 'graphml');
+      const { graph: imported } = new GraphImporter(validator).import(document, 'graphml');
+      const continued = new ASRGoTPipeline(imported);
+
+      const context = await continued.executeFromStage(4, {
+        query: 'IL-17 in cutaneous inflammation',
+        domain: ['immunology'],
+        complexity_level: 'basic',
+        expected_depth: 'overview',
+        interdisciplinary: false
+      }, { identity: 'Test', experience: 'Test', research_focus: [], methodologies: [], philosophy: 'Test' });
+
+      expect(context.stage_results.map(result => result.stage)).toEqual([4, 5, 6, 7, 8]);
+      expect(context.current_stage).toBe(8);
+      expect(context.stage_results.every(result => result.success)).toBe(true);
+    });
+
+    test('should reject documents in the wrong format', () => {
+      expect(() => new GraphImporter().import('{"elements": 5}', 'cytoscape')).toThrow('Not a Cytoscape JSON document');
+      expect(() => new GraphImporter().import('<svg/>', 'graphml')).toThrow('Not a GraphML document');
+    });
+  });
+
+  describe('Server Tools', () => {
+    // One end of an in-process connection; messages reach the other end on a later turn of the event loop
+    class LinkedTransport implements Transport {
+      peer?: LinkedTransport;
+      onclose?: () => void;
+      onerror?: (error: Error) => void;
+      onmessage?: (message: JSONRPCMessage) => void;
+
+      async start(): Promise<void> {}
+
+      async send(message: JSONRPCMessage): Promise<void> {
+        setImmediate(() => this.peer?.onmessage?.(message));
+      }
+
+      async close(): Promise<void> {
+        this.onclose?.();
+      }
+    }
+
+    const connectServer = async (contextStore: InMemoryContextStore) => {
+      const clientEnd = new LinkedTransport();
+      const serverEnd = new LinkedTransport();
+      clientEnd.peer = serverEnd;
+      serverEnd.peer = clientEnd;
+
+      const client = new Client({ name: 'asr-got-test', version: '1.0.0' });
+      await new ASRGoTMCPServer({ contextStore }).connect(serverEnd);
+      await client.connect(clientEnd);
+
+      const call = async (name: string, args: Record<string, unknown>): Promise<any> => {
+        const result = await client.callTool({ name, arguments: args });
+        return JSON.parse((result.content as Array<{ text: string }>)[0].text);
+      };
+      return { call, close: () => client.close() };
+    };
+
+    type Call = (name: string, args: Record<string, unknown>) => Promise<any>;
+
+    const analyse = async (call: Call, query: string): Promise<string> => (await call('execute_asr_got_analysis', {
+      query,
+      complexity_level: 'basic',
+      expected_depth: 'overview',
+      interdisciplinary: false,
+      seed: 5
+    })).result.context_id;
+
+    const rootOf = async (call: Call, contextId: string) =>
+      (await call('extract_subgraph', { context_id: contextId, criteria: { node_types: ['root'] } })).nodes[0];
+
+    // The next save waits for release(); saving resolves once it has been reached
+    const holdNextSave = (store: InMemoryContextStore) => {
+      let reached: () => void = () => undefined;
+      let release: () => void = () => undefined;
+      const saving = new Promise<void>(resolve => { reached = resolve; });
+      const released = new Promise<void>(resolve => { release = resolve; });
+      const save = store.save.bind(store);
+      jest.spyOn(store, 'save').mockImplementationOnce(async (contextId, context) => {
+        reached();
+        await released;
+        return save(contextId, context);
+      });
+      return { saving, release };
+    };
+
+    let errorSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      // The server logs every tool call to stderr
+      errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      errorSpy.mockRestore();
+    });
+
+    test('should look up each tool call in its own context', async () => {
+      const { call, close } = await connectServer(new InMemoryContextStore());
+      try {
+        const first = await analyse(call, 'Cytokine signalling in atopic dermatitis');
+        const second = await analyse(call, 'Sebum composition and acne severity');
+        const firstRoot = await rootOf(call, first);
+        const secondRoot = await rootOf(call, second);
+        // The same seed gives both graphs the same node ids
+        expect(firstRoot.id).toBe(secondRoot.id);
+
+        await call('update_node', { context_id: first, node_id: firstRoot.id, changes: { label: 'Edited in the first' } });
+        expect((await rootOf(call, first)).label).toBe('Edited in the first');
+        expect((await rootOf(call, second)).label).toBe(secondRoot.label);
+        const descriptions = async (contextId: string) =>
+          (await call('get_change_log', { context_id: contextId })).operations.map((entry: any) => entry.description);
+        expect(await descriptions(first)).toContain(`Updated label of node ${firstRoot.id}`);
+        expect(await descriptions(second)).not.toContain(`Updated label of node ${firstRoot.id}`);
+
+        const missing = await call('get_analysis_status', { context_id: 'no-such-context' });
+        expect(missing.error).toContain('Context no-such-context not found');
+        expect(missing.available_contexts.sort()).toEqual([first, second].sort());
+      } finally {
+        await close();
+      }
+    });
+
+    test('should hold off edits to a running context only, and cancel just its run', async () => {
+      const store = new InMemoryContextStore();
+      const { call, close } = await connectServer(store);
+      try {
+        const running = await analyse(call, 'Cytokine signalling in atopic dermatitis');
+        const idle = await analyse(call, 'Sebum composition and acne severity');
+        const runningRoot = await rootOf(call, running);
+        const idleRoot = await rootOf(call, idle);
+
+        // The resumed run stays registered until its context is stored
+        const held = holdNextSave(store);
+        const resumed = call('resume_analysis', { context_id: running, from_stage: 8 });
+        await held.saving;
+
+        const busy = 'is running pipeline stages';
+        expect((await call('update_node', { context_id: running, node_id: runningRoot.id, changes: { label: 'Mid-run' } })).error).toContain(busy);
+        expect((await call('create_snapshot', { context_id: running, name: 'mid-run' })).error).toContain(busy);
+        expect((await call('get_research_insights', { context_id: running, focus_area: 'clusters' })).error).toContain(busy);
+        expect((await call('run_stage', { context_id: running, stage: 8 })).error).toContain('already running pipeline stages');
+
+        expect((await call('update_node', { context_id: idle, node_id: idleRoot.id, changes: { label: 'Edited while the other runs' } }))
+          .node.metadata.label).toBe('Edited while the other runs');
+        expect((await call('run_stage', { context_id: idle, stage: 8 })).stages_executed.map((stage: any) => stage.stage)).toEqual([8]);
+        expect((await call('cancel_analysis', { context_id: idle })).error).toContain(`No pipeline stages are running for context ${idle}`);
+
+        const cancelling = call('cancel_analysis', { context_id: running, reason: 'Test over' });
+        // Let the cancellation reach the server before the run may store its context
+        await new Promise(resolve => setImmediate(resolve));
+        held.release();
+
+        expect(await cancelling).toMatchObject({ context_id: running, current_stage: 8 });
+        expect((await resumed).stages_executed.map((stage: any) => stage.stage)).toEqual([8]);
+        expect((await call('cancel_analysis', { context_id: running })).error).toContain('No pipeline stages are running');
+        expect((await call('update_node', { context_id: running, node_id: runningRoot.id, changes: { label: 'After the run' } }))
+          .node.metadata.label).toBe('After the run');
+      } finally {
+        await close();
+      }
+    });
+
+    test('should reload contexts lazily after a restart, sharing one load between concurrent calls', async () => {
+      const store = new InMemoryContextStore();
+      const before = await connectServer(store);
+      let first: string;
+      let second: string;
+      let firstRoot: any;
+      let secondRoot: any;
+      try {
+        first = await analyse(before.call, 'Cytokine signalling in atopic dermatitis');
+        second = await analyse(before.call, 'Sebum composition and acne severity');
+        firstRoot = await rootOf(before.call, first);
+        secondRoot = await rootOf(before.call, second);
+        await before.call('update_node', { context_id: first, node_id: firstRoot.id, changes: { label: 'Edited before the restart' } });
+      } finally {
+        await before.close();
+      }
+
+      const load = store.load.bind(store);
+      const loadSpy = jest.spyOn(store, 'load').mockImplementation(async contextId => {
+        await new Promise(resolve => setTimeout(resolve, 20));
+        return load(contextId);
+      });
+      const after = await connectServer(store);
+      try {
+        const [status, root] = await Promise.all([
+          after.call('get_analysis_status', { context_id: first }),
+          rootOf(after.call, first)
+        ]);
+        expect(loadSpy).toHaveBeenCalledTimes(1);
+        expect(status.current_stage).toBe(8);
+        expect(root).toMatchObject({ id: firstRoot.id, label: 'Edited before the restart' });
+
+        const rerun = await after.call('run_stage', { context_id: first, stage: 8 });
+        expect(rerun.stages_executed.map((stage: any) => stage.stage)).toEqual([8]);
+        expect((await rootOf(after.call, first)).label).toBe('Edited before the restart');
+        expect((await rootOf(after.call, second)).label).toBe(secondRoot.label);
+        expect(loadSpy).toHaveBeenCalledTimes(2);
+      } finally {
+        loadSpy.mockRestore();
+        await after.close();
+      }
+    });
+  });
+
   describe('Error Handling and Resilience', () => {
     test('should handle invalid input gracefully', async () => {
       const invalidQuery: ResearchQuery = {